@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatMessage, ProviderRequest } from '@/services/completionClient';
+import {
+  createCompletionProvider,
+  errorResponse,
+  invalidBodyResponse,
+  isArrayOf,
+  isNumber,
+  isObject,
+  isString,
+  readJsonBody
+} from '@/lib/server/providers';
+import { getSessionId } from '@/lib/server/userKeys';
+import { getErrorStatus } from '@/utils/retry';
+
+interface CompletionRouteBody {
+  provider: string;
+  request: ProviderRequest;
+  stream?: boolean;
+}
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  return isObject(value) && ['system', 'user', 'assistant'].includes(value.role as string) && isString(value.content);
+};
+
+const isCompletionRouteBody = (body: unknown): body is CompletionRouteBody => {
+  if (!isObject(body) || !isString(body.provider) || !isObject(body.request)) return false;
+  const { model, messages, temperature, maxTokens, topP } = body.request;
+  return isString(model) &&
+    isArrayOf(messages, isChatMessage) &&
+    isNumber(maxTokens) &&
+    isOptional(temperature, isNumber) &&
+    isOptional(topP, isNumber) &&
+    isOptional(body.stream, value => typeof value === 'boolean');
+};
+
+/**
+ * Run a chat completion with the server's key, or the reader's own.
+ * Streams are relayed as server-sent events: {token} for each token, then {result} or {error, status}.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, isCompletionRouteBody);
+  if (!body) return invalidBodyResponse();
+  const { provider: providerName, request: providerRequest, stream } = body;
+  
+  try {
+    const provider = await createCompletionProvider(providerName, getSessionId(request));
+    if (!provider) {
+      return NextResponse.json({ error: `Unknown completion provider: ${providerName}` }, { status: 400 });
+    }
+    
+    if (!stream) {
+      return NextResponse.json(await provider.complete(providerRequest, request.signal));
+    }
+    
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      async start(controller) {
+        const send = (data: object) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        
+        try {
+          const result = await provider.stream(providerRequest, request.signal, token => send({ token }));
+          send({ result });
+        } catch (error) {
+          // Nobody is listening once the browser has gone
+          if (!request.signal.aborted) {
+            send({ error: error instanceof Error ? error.message : String(error), status: getErrorStatus(error) || 502 });
+          }
+        } finally {
+          controller.close();
+        }
+      }
+    });
+    
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
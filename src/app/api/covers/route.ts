@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lookUpCoverUrl } from '@/lib/server/coverLookup';
+
+// Covers rarely change, so browsers and proxies may keep answers for a day
+const CACHE_CONTROL = 'public, max-age=86400';
+
+/**
+ * Find a cover image for a book title
+ */
+export async function GET(request: NextRequest) {
+  const title = request.nextUrl.searchParams.get('title')?.trim();
+  if (!title) {
+    return NextResponse.json({ error: 'A title is required' }, { status: 400 });
+  }
+  
+  const url = await lookUpCoverUrl(title);
+  return NextResponse.json({ url }, { headers: { 'Cache-Control': CACHE_CONTROL } });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createEmbeddingProvider, errorResponse, invalidBodyResponse, isArrayOf, isObject, isString, readJsonBody } from '@/lib/server/providers';
+import { getSessionId } from '@/lib/server/userKeys';
+
+interface EmbeddingRouteBody {
+  provider: string;
+  model: string;
+  input: string[];
+}
+
+const isEmbeddingRouteBody = (body: unknown): body is EmbeddingRouteBody => {
+  return isObject(body) && isString(body.provider) && isString(body.model) && isArrayOf(body.input, isString);
+};
+
+/**
+ * Embed texts with the server's key, or the reader's own
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request, isEmbeddingRouteBody);
+  if (!body) return invalidBodyResponse();
+  const { provider: providerName, model, input } = body;
+  
+  try {
+    const provider = await createEmbeddingProvider(providerName, model, getSessionId(request));
+    if (!provider) {
+      return NextResponse.json({ error: `Unknown embedding provider: ${providerName}` }, { status: 400 });
+    }
+    
+    return NextResponse.json({ embeddings: await provider.embed(input) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
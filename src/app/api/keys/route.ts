@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isKeyedProvider } from '@/lib/providerKeys';
+import { getKeyStatus, invalidBodyResponse, isObject, isString, readJsonBody } from '@/lib/server/providers';
+import { clearUserKey, ensureSessionId, getSessionId, setSessionCookie, setUserKey } from '@/lib/server/userKeys';
+
+interface KeyRouteBody {
+  provider: string;
+  apiKey?: string;
+}
+
+const isKeyRouteBody = (body: unknown): body is KeyRouteBody => {
+  return isObject(body) && isString(body.provider) && (body.apiKey === undefined || isString(body.apiKey));
+};
+
+/**
+ * Which providers have a key, from the server or from this reader
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(await getKeyStatus(getSessionId(request)));
+}
+
+/**
+ * Save the reader's own key for a provider, used in place of the server's
+ */
+export async function PUT(request: NextRequest) {
+  const body = await readJsonBody(request, isKeyRouteBody);
+  if (!body) return invalidBodyResponse();
+  const { provider, apiKey } = body;
+  if (!isKeyedProvider(provider) || !apiKey?.trim()) {
+    return NextResponse.json({ error: 'A known provider and a key are required' }, { status: 400 });
+  }
+  
+  const sessionId = ensureSessionId(request);
+  await setUserKey(sessionId, provider, apiKey.trim());
+  
+  const response = NextResponse.json(await getKeyStatus(sessionId));
+  setSessionCookie(response, sessionId);
+  return response;
+}
+
+/**
+ * Forget the reader's key for a provider, going back to the server's
+ */
+export async function DELETE(request: NextRequest) {
+  const body = await readJsonBody(request, isKeyRouteBody);
+  if (!body) return invalidBodyResponse();
+  const { provider } = body;
+  const sessionId = getSessionId(request);
+  if (!isKeyedProvider(provider)) {
+    return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+  }
+  
+  if (sessionId) {
+    await clearUserKey(sessionId, provider);
+  }
+  return NextResponse.json(await getKeyStatus(sessionId));
+}
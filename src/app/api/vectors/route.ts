@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VectorQueryOptions } from '@/services/vectorStore';
+import {
+  errorResponse,
+  getVectorStore,
+  invalidBodyResponse,
+  isArrayOf,
+  isNumber,
+  isObject,
+  isString,
+  readJsonBody
+} from '@/lib/server/providers';
+
+/**
+ * A vector store call from the browser. Vectors travel as plain number arrays.
+ */
+type VectorRouteBody =
+  | { operation: 'upsert', namespace: string, records: { id: string, bookId: string, values: number[] }[] }
+  | { operation: 'query', namespace: string, vector: number[], options: VectorQueryOptions }
+  | { operation: 'listIds' | 'fetchByBook' | 'deleteByBook', namespace: string, bookId: string }
+  | { operation: 'fetch' | 'delete', namespace: string, ids: string[] }
+  | { operation: 'deleteBookFromAllNamespaces', bookId: string };
+
+const isVectorRecord = (value: unknown): value is { id: string, bookId: string, values: number[] } => {
+  return isObject(value) && isString(value.id) && isString(value.bookId) && isArrayOf(value.values, isNumber);
+};
+
+/**
+ * Check that a body has the fields its operation needs
+ */
+const isVectorRouteBody = (body: unknown): body is VectorRouteBody => {
+  if (!isObject(body)) return false;
+  if (body.operation === 'deleteBookFromAllNamespaces') return isString(body.bookId);
+  if (!isString(body.namespace)) return false;
+  
+  switch (body.operation) {
+    case 'upsert':
+      return isArrayOf(body.records, isVectorRecord);
+    case 'query':
+      return isArrayOf(body.vector, isNumber) &&
+        isObject(body.options) &&
+        isNumber(body.options.topK) &&
+        (body.options.bookId === undefined || isString(body.options.bookId));
+    case 'listIds':
+    case 'fetchByBook':
+    case 'deleteByBook':
+      return isString(body.bookId);
+    case 'fetch':
+    case 'delete':
+      return isArrayOf(body.ids, isString);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Run a vector store operation against the Pinecone index, whose key stays on the server
+ */
+export async function POST(request: NextRequest) {
+  const store = getVectorStore();
+  if (!store) {
+    return NextResponse.json({ error: 'No Pinecone index is configured on the server' }, { status: 404 });
+  }
+  
+  const body = await readJsonBody(request, isVectorRouteBody);
+  if (!body) return invalidBodyResponse();
+  
+  const toArrays = (records: { id: string, bookId: string, values: Float32Array }[]) =>
+    records.map(record => ({ ...record, values: Array.from(record.values) }));
+  
+  try {
+    switch (body.operation) {
+      case 'upsert':
+        await store.upsert(body.namespace, body.records.map(record => ({ ...record, values: new Float32Array(record.values) })));
+        return NextResponse.json({});
+      case 'query':
+        return NextResponse.json(await store.query(body.namespace, body.vector, body.options));
+      case 'listIds':
+        return NextResponse.json(await store.listIds(body.namespace, body.bookId));
+      case 'fetch':
+        return NextResponse.json(toArrays(await store.fetch(body.namespace, body.ids)));
+      case 'fetchByBook':
+        return NextResponse.json(toArrays(await store.fetchByBook(body.namespace, body.bookId)));
+      case 'delete':
+        await store.delete(body.namespace, body.ids);
+        return NextResponse.json({});
+      case 'deleteByBook':
+        await store.deleteByBook(body.namespace, body.bookId);
+        return NextResponse.json({});
+      case 'deleteBookFromAllNamespaces':
+        await store.deleteBookFromAllNamespaces(body.bookId);
+        return NextResponse.json({});
+      default:
+        return NextResponse.json({ error: 'Unknown vector store operation' }, { status: 400 });
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { apiKeyService } from '@/services/apiKeyService';
+import { ApiKeyStatus, KEYED_PROVIDERS, KeyedProvider } from '@/lib/providerKeys';
+
+/**
+ * Optionally use your own API keys in place of the server's. Keys are saved
+ * on the server for this browser and never sent back to it.
+ */
+export default function ApiKeySettings() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<ApiKeyStatus | null>(apiKeyService.getStatus());
+  const [drafts, setDrafts] = useState<Partial<Record<KeyedProvider, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return apiKeyService.subscribe(setStatus);
+  }, []);
+
+  const handleSave = async (provider: KeyedProvider) => {
+    const apiKey = drafts[provider]?.trim();
+    if (!apiKey) return;
+
+    setError(null);
+    try {
+      await apiKeyService.saveKey(provider, apiKey);
+      setDrafts(prev => ({ ...prev, [provider]: '' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the key');
+    }
+  };
+
+  const handleClear = async (provider: KeyedProvider) => {
+    setError(null);
+    try {
+      await apiKeyService.clearKey(provider);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove the key');
+    }
+  };
+
+  const describe = (provider: KeyedProvider) => {
+    const keyStatus = status?.keys[provider];
+    if (keyStatus?.user) return 'Using your key';
+    if (keyStatus?.server) return 'Using the server\'s key';
+    return 'No key';
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+      >
+        {isOpen ? 'Hide API keys' : 'API keys'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-100 space-y-3">
+          <p className="text-xs text-gray-500">
+            Requests go through this app&apos;s server, which holds the API keys. You can use your own key instead;
+            it is stored on the server for this browser and never sent back to the page.
+          </p>
+          {KEYED_PROVIDERS.map(({ provider, label }) => (
+            <div key={provider} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+              <span className="text-sm text-gray-700">{label}</span>
+              <span className="text-xs text-gray-500">{describe(provider)}</span>
+              <input
+                type="password"
+                value={drafts[provider] || ''}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [provider]: e.target.value }))}
+                placeholder="Paste a key"
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleSave(provider)}
+                  disabled={!drafts[provider]?.trim()}
+                  className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded disabled:bg-gray-400"
+                >
+                  Save
+                </button>
+                {status?.keys[provider]?.user && (
+                  <button
+                    onClick={() => handleClear(provider)}
+                    className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
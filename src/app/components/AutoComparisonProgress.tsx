@@ -1,95 +1,89 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
-import { autoComparisonService } from '@/services/autoComparisonService';
+import React, { useState } from 'react';
+import { useJobStore } from '@/store/jobStore';
+import { useBookStore } from '@/store/bookStore';
+import { jobQueueService } from '@/services/jobQueueService';
+import { Job, JOB_TYPES, isJobFinished } from '@/lib/jobs';
 
-interface ComparisonProgress {
-  sourceBookId: string;
-  targetBookId: string;
-  progress: number;
-  message: string;
-  status: 'pending' | 'running' | 'complete' | 'error';
-  error?: string;
-}
+const STATUS_STYLES: Record<Job['status'], string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  paused: 'bg-amber-100 text-amber-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
 
+/**
+ * The background job queue: automatic comparisons and any indexing, analysis or
+ * comparison the reader sent to the background, with controls for each job
+ */
 export default function AutoComparisonProgress() {
-  const [comparisons, setComparisons] = useState<ComparisonProgress[]>([]);
+  const jobs = useJobStore(state => state.jobs);
+  const clearFinished = useJobStore(state => state.clearFinished);
+  const books = useBookStore(state => state.books);
   const [showCompleted, setShowCompleted] = useState(false);
-  
-  useEffect(() => {
-    // Function to handle progress updates
-    const handleProgress = (progress: ComparisonProgress) => {
-      setComparisons(prev => {
-        // Find if we already have this comparison
-        const existingIndex = prev.findIndex(
-          c => c.sourceBookId === progress.sourceBookId && c.targetBookId === progress.targetBookId
-        );
-        
-        if (existingIndex >= 0) {
-          // Update existing comparison
-          const updated = [...prev];
-          updated[existingIndex] = progress;
-          return updated;
-        } else {
-          // Add new comparison
-          return [...prev, progress];
-        }
-      });
-    };
-    
-    // Register the progress callback
-    autoComparisonService.addProgressCallback(handleProgress);
-    
-    // Load initial comparisons
-    setComparisons(autoComparisonService.getCurrentComparisons());
-    
-    // Cleanup on unmount
-    return () => {
-      autoComparisonService.removeProgressCallback(handleProgress);
-    };
-  }, []);
-  
-  // Filter comparisons based on showCompleted state
-  const filteredComparisons = showCompleted 
-    ? comparisons 
-    : comparisons.filter(c => c.status === 'running' || c.status === 'pending' || c.status === 'error');
-  
-  // Check if we have any comparisons to show
-  if (filteredComparisons.length === 0) {
+
+  const allJobs = Object.values(jobs).sort((a, b) => a.createdAt - b.createdAt);
+  const filteredJobs = showCompleted
+    ? allJobs
+    : allJobs.filter(job => !isJobFinished(job) || job.status === 'failed');
+
+  // Check if we have any jobs to show
+  if (filteredJobs.length === 0) {
     return null;
   }
-  
+
   // Get counts by status
-  const pendingCount = comparisons.filter(c => c.status === 'pending').length;
-  const runningCount = comparisons.filter(c => c.status === 'running').length;
-  const completedCount = comparisons.filter(c => c.status === 'complete').length;
-  const errorCount = comparisons.filter(c => c.status === 'error').length;
-  
+  const runningCount = allJobs.filter(job => job.status === 'running').length;
+  const waitingCount = allJobs.filter(job => job.status === 'queued' || job.status === 'paused').length;
+  const completedCount = allJobs.filter(job => job.status === 'completed').length;
+  const errorCount = allJobs.filter(job => job.status === 'failed').length;
+
+  const bookTitle = (bookId: string) => `"${books.find(book => book.id === bookId)?.title || 'Unknown book'}"`;
+
+  const describe = (job: Job) => {
+    const { params } = job;
+    switch (params.type) {
+      case 'index':
+      case 'analyze':
+        return bookTitle(params.bookId);
+      case 'comparePair':
+      case 'fullBookAnalysis':
+        return `${bookTitle(params.sourceBookId)} → ${bookTitle(params.targetBookId)}`;
+    }
+  };
+
   return (
     <div className="fixed bottom-0 right-0 w-96 max-h-96 z-50 bg-white border border-gray-200 shadow-lg rounded-tl-md overflow-hidden flex flex-col">
       <div className="bg-blue-600 text-white p-3 flex justify-between items-center">
-        <h3 className="font-medium text-sm">Automatic Book Comparisons</h3>
+        <h3 className="font-medium text-sm">Background Jobs</h3>
         <div className="flex space-x-2">
-          <button 
+          <button
             onClick={() => setShowCompleted(!showCompleted)}
             className="text-xs text-blue-100 hover:text-white"
           >
             {showCompleted ? 'Hide Completed' : 'Show Completed'}
           </button>
-          <button 
-            onClick={() => setComparisons([])}
+          <button
+            onClick={clearFinished}
             className="text-xs text-blue-100 hover:text-white"
           >
-            Clear
+            Clear Finished
           </button>
         </div>
       </div>
-      
+
       <div className="flex justify-around p-2 text-xs border-b">
         <div className="flex items-center">
           <span className={`w-2 h-2 rounded-full mr-1 ${runningCount > 0 ? 'bg-blue-500 animate-pulse' : 'bg-gray-300'}`}></span>
           <span>Running: {runningCount}</span>
         </div>
+        <div className="flex items-center">
+          <span className="w-2 h-2 rounded-full bg-gray-400 mr-1"></span>
+          <span>Waiting: {waitingCount}</span>
+        </div>
         <div className="flex items-center">
           <span className="w-2 h-2 rounded-full bg-green-500 mr-1"></span>
           <span>Completed: {completedCount}</span>
@@ -99,52 +93,66 @@ export default function AutoComparisonProgress() {
           <span>Errors: {errorCount}</span>
         </div>
       </div>
-      
+
       <div className="overflow-y-auto flex-1 max-h-72">
-        {filteredComparisons.map((comparison, index) => (
-          <div 
-            key={`${comparison.sourceBookId}_${comparison.targetBookId}_${index}`}
+        {filteredJobs.map(job => (
+          <div
+            key={job.id}
             className={`p-3 border-b text-sm ${
-              comparison.status === 'error' 
-                ? 'bg-red-50' 
-                : comparison.status === 'complete' 
-                  ? 'bg-green-50' 
+              job.status === 'failed'
+                ? 'bg-red-50'
+                : job.status === 'completed'
+                  ? 'bg-green-50'
                   : 'bg-white'
             }`}
           >
             <div className="flex justify-between items-start mb-1">
               <div className="font-medium text-gray-800 text-xs">
-                Comparing Books
+                {JOB_TYPES.find(entry => entry.type === job.params.type)?.label}: {describe(job)}
               </div>
-              <div className={`text-xs px-1.5 py-0.5 rounded ${
-                comparison.status === 'running' 
-                  ? 'bg-blue-100 text-blue-800' 
-                  : comparison.status === 'complete' 
-                    ? 'bg-green-100 text-green-800' 
-                    : comparison.status === 'error' 
-                      ? 'bg-red-100 text-red-800' 
-                      : 'bg-gray-100 text-gray-800'
-              }`}>
-                {comparison.status.charAt(0).toUpperCase() + comparison.status.slice(1)}
+              <div className={`text-xs px-1.5 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
               </div>
             </div>
-            
+
             <div className="text-xs text-gray-600 mb-2">
-              {comparison.message}
+              {job.message}
             </div>
-            
-            {comparison.status === 'running' && (
+
+            {(job.status === 'running' || job.status === 'paused') && (
               <div className="w-full bg-gray-200 rounded-full h-1.5 mb-1">
-                <div 
-                  className="bg-blue-600 h-1.5 rounded-full" 
-                  style={{ width: `${comparison.progress}%` }}
+                <div
+                  className={`h-1.5 rounded-full ${job.status === 'paused' ? 'bg-amber-500' : 'bg-blue-600'}`}
+                  style={{ width: `${job.progress}%` }}
                 ></div>
               </div>
             )}
-            
-            {comparison.status === 'error' && comparison.error && (
+
+            {job.status === 'failed' && job.error && (
               <div className="text-xs text-red-600 mt-1">
-                Error: {comparison.error}
+                Error: {job.error}
+              </div>
+            )}
+
+            {!isJobFinished(job) && (
+              <div className="flex space-x-3 mt-2 text-xs">
+                {job.status === 'paused' ? (
+                  <button onClick={() => jobQueueService.resume(job.id)} className="text-blue-600 hover:text-blue-800">
+                    Resume
+                  </button>
+                ) : (
+                  <button onClick={() => jobQueueService.pause(job.id)} className="text-blue-600 hover:text-blue-800">
+                    Pause
+                  </button>
+                )}
+                {job.status === 'queued' && (
+                  <button onClick={() => jobQueueService.prioritize(job.id)} className="text-blue-600 hover:text-blue-800">
+                    Run Next
+                  </button>
+                )}
+                <button onClick={() => jobQueueService.cancel(job.id)} className="text-red-600 hover:text-red-800">
+                  Cancel
+                </button>
               </div>
             )}
           </div>
@@ -152,4 +160,4 @@ export default function AutoComparisonProgress() {
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -3,29 +3,30 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useBookStore } from '@/store/bookStore';
 import { useConceptStore } from '@/store/conceptStore';
-import { LLMService } from '@/services/llmService';
+import { LLMService, AnalysisFailure } from '@/services/llmService';
 import { PassageSummary } from '@/lib/conceptProcessing';
-
-// Pre-set API key from environment variables
-const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_LLAMA_API_KEY || "LLM|24233636562905000|uj_EryBhhQK5JGIkJYaXt0_T2eY";
+import { jobQueueService } from '@/services/jobQueueService';
+import { isAbortError } from '@/utils/abort';
 
 export default function BookAnalyzer() {
-  const { books, getBook, getPassages } = useBookStore();
+  const { books, getBook, loadBook } = useBookStore();
   const { addPassageSummariesBatch } = useConceptStore();
   
   const [selectedBookId, setSelectedBookId] = useState<string>('');
-  const [apiKey, setApiKey] = useState<string>(DEFAULT_API_KEY);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<PassageSummary[]>([]);
+  const [failures, setFailures] = useState<AnalysisFailure[]>([]);
   const [logs, setLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const [showRawResponse, setShowRawResponse] = useState(false);
   const [showAllPassages, setShowAllPassages] = useState(false);
   const [rawResponse, setRawResponse] = useState<string>('');
   const [progress, setProgress] = useState(0);
+  const [backgroundNotice, setBackgroundNotice] = useState<string | null>(null);
   
   const llmServiceRef = useRef(new LLMService());
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Listen for batch processing progress
   useEffect(() => {
@@ -80,21 +81,26 @@ export default function BookAnalyzer() {
     setIsAnalyzing(true);
     setError(null);
     setResults([]);
+    setFailures([]);
     setLogs([]);
     setRawResponse('');
     setProgress(0);
+    setBackgroundNotice(null);
+    
+    // Summaries are saved batch by batch, so cancelling keeps the ones already done
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const saved: PassageSummary[] = [];
     
     try {
       // Get all passages for the selected book
-      const passages = getPassages(selectedBookId);
+      const book = await loadBook(selectedBookId);
+      const passages = book?.passages || [];
       
       if (passages.length === 0) {
         throw new Error('No passages found in this book');
       }
       
-      // Set API key
-      llmServiceRef.current.setApiKey(apiKey);
-      
       // Log the start of analysis
       setLogs(prev => [...prev, `Starting analysis of book with ID: ${selectedBookId}`]);
       setLogs(prev => [...prev, `Processing ${passages.length} passages`]);
@@ -104,20 +110,31 @@ export default function BookAnalyzer() {
         setLogs(prev => [...prev, `[WARN] This book has ${passages.length} passages. Analysis may take several minutes and will be processed in batches.`]);
       }
       
-      // Analyze passages
-      const summaries = await llmServiceRef.current.analyzePassages(passages);
+      // Analyze passages, storing each batch of results as it arrives
+      const summaries = await llmServiceRef.current.analyzePassages(passages, {
+        signal: controller.signal,
+        onBatchComplete: (batch) => {
+          saved.push(...batch);
+          addPassageSummariesBatch(batch);
+        }
+      });
       
       // Store the raw response for debugging
       setRawResponse(llmServiceRef.current.getLastFullResponse());
       
-      // Store the results
-      addPassageSummariesBatch(summaries);
-      
       // Display the results
       setResults(summaries);
+      setFailures(llmServiceRef.current.getLastFailures());
       setProgress(100);
       setLogs(prev => [...prev, `Analysis complete. Processed ${summaries.length} passages successfully.`]);
     } catch (err) {
+      if (isAbortError(err)) {
+        setResults(saved);
+        setFailures(llmServiceRef.current.getLastFailures());
+        setLogs(prev => [...prev, `Analysis cancelled. ${saved.length} passages analyzed before then were saved.`]);
+        return;
+      }
+      
       console.error('Error analyzing book:', err);
       const errorMessage = err instanceof Error ? err.message : 'An error occurred during analysis';
       setError(errorMessage);
@@ -136,10 +153,29 @@ export default function BookAnalyzer() {
       // Try to get the raw response even if there was an error
       setRawResponse(llmServiceRef.current.getLastFullResponse());
     } finally {
+      abortControllerRef.current = null;
       setIsAnalyzing(false);
     }
   };
   
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+  
+  /**
+   * Queue the analysis on the job queue, where it survives closing the page
+   */
+  const handleAnalyzeInBackground = () => {
+    if (!selectedBookId) {
+      setError('Please select a book to analyze');
+      return;
+    }
+    
+    setError(null);
+    jobQueueService.enqueue({ type: 'analyze', bookId: selectedBookId });
+    setBackgroundNotice('Analysis was queued. Follow it under Background Jobs; summaries are saved batch by batch.');
+  };
+  
   return (
     <div className="mt-8 p-6 border rounded-lg shadow-sm bg-white">
       <h2 className="text-xl font-semibold mb-4 text-gray-900">Analyze Book with AI</h2>
@@ -158,7 +194,7 @@ export default function BookAnalyzer() {
             <option value="">Select a book...</option>
             {books.map((book) => (
               <option key={book.id} value={book.id}>
-                {book.title} ({book.passages.length} passages)
+                {book.title} ({book.passageCount} passages)
               </option>
             ))}
           </select>
@@ -180,6 +216,21 @@ export default function BookAnalyzer() {
           </div>
         )}
         
+        {failures.length > 0 && !isAnalyzing && (
+          <div className="text-amber-800 text-sm p-3 border border-amber-200 bg-amber-50 rounded">
+            <div className="font-bold mb-1">
+              {failures.length} passage{failures.length === 1 ? '' : 's'} could not be analyzed:
+            </div>
+            <ul className="list-disc pl-5 space-y-1 max-h-40 overflow-y-auto">
+              {failures.map(failure => (
+                <li key={failure.passageId}>
+                  <span className="font-mono text-xs">{failure.passageId}</span>: {failure.errors.join('; ')}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
         <button
           className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition-colors disabled:bg-gray-400"
           onClick={handleAnalyzeBook}
@@ -187,6 +238,16 @@ export default function BookAnalyzer() {
         >
           {isAnalyzing ? 'Analyzing...' : 'Analyze Book'}
         </button>
+        <button
+          className="w-full py-2 px-4 border border-blue-600 text-blue-700 hover:bg-blue-50 text-sm font-medium rounded-md transition-colors disabled:border-gray-300 disabled:text-gray-400"
+          onClick={handleAnalyzeInBackground}
+          disabled={isAnalyzing || !selectedBookId}
+        >
+          Analyze in Background
+        </button>
+        {backgroundNotice && (
+          <p className="text-sm text-gray-700">{backgroundNotice}</p>
+        )}
       </div>
       
       {isAnalyzing && (
@@ -203,6 +264,13 @@ export default function BookAnalyzer() {
             <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
           </div>
           
+          <button
+            onClick={handleCancelAnalysis}
+            className="py-1 px-3 border border-red-300 text-red-600 hover:bg-red-50 text-sm rounded-md"
+          >
+            Cancel
+          </button>
+          
           <div className="mt-4">
             <button 
               onClick={() => setShowLogs(!showLogs)}
@@ -1,79 +1,208 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { LLMService } from '@/services/llmService';
-import { Passage } from '@/lib/textProcessing';
+import { Passage, formatPageRange } from '@/lib/textProcessing';
+import { splitCitations } from '@/lib/citations';
+import { useChatStore, ChatThreadMessage } from '@/store/chatStore';
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-}
+type ChatMessage = Omit<ChatThreadMessage, 'id' | 'createdAt'>;
 
 interface BookChatProps {
   currentPassage: Passage;
-  bookContent: string;
+  passages: Passage[];
+  bookTitle: string;
+  currentChapter?: { title: string };
   isVisible: boolean;
   onClose: () => void;
+  onCitationClick: (passageId: string) => void;
 }
 
-export default function BookChat({ currentPassage, bookContent, isVisible, onClose }: BookChatProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([{
-    role: 'assistant',
-    content: 'Hello! I can help you understand this book and answer questions about it. What would you like to know?'
-  }]);
+const GREETING: ChatMessage = {
+  role: 'assistant',
+  content: 'Hello! I can help you understand this book and answer questions about it. What would you like to know?'
+};
+
+export default function BookChat({ currentPassage, passages, bookTitle, currentChapter, isVisible, onClose, onCitationClick }: BookChatProps) {
+  const bookId = currentPassage.bookId;
+  const {
+    createThread, getThreadsForBook, renameThread, deleteThread,
+    getLastThreadId, setLastThreadId, addMessage, exportThread,
+    setSummary, pinFact, unpinFact
+  } = useChatStore();
+  const [threadId, setThreadId] = useState<string | undefined>(undefined);
+  const thread = useChatStore(state => threadId ? state.threads[threadId] : undefined);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [factInput, setFactInput] = useState('');
+  const [isCondensing, setIsCondensing] = useState(false);
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const llmService = new LLMService();
+  const passagesById = useMemo(() => new Map(passages.map(p => [p.id, p])), [passages]);
+  
+  const messages: ChatMessage[] = [GREETING, ...(thread?.messages || [])];
+  const summarizedCount = thread?.summarizedCount || 0;
+  const pinnedFacts = thread?.pinnedFacts || [];
+  const bookThreads = getThreadsForBook(bookId);
+  
+  // Restore the thread last open for this book, including once stored chats finish loading
+  const lastThreadId = useChatStore(state => state.lastThreadIds[bookId]);
+  useEffect(() => {
+    setThreadId(getLastThreadId(bookId));
+  }, [bookId, lastThreadId, getLastThreadId]);
+  
+  useEffect(() => {
+    setShowThreads(false);
+    setShowMemory(false);
+  }, [bookId]);
   
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     if (chatEndRef.current) {
       chatEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [thread?.messages.length, streamingMessage]);
+  
+  // Stop generating if the chat goes away mid-answer; the partial answer is still saved
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isLoading) return;
     
-    const userMessage = { role: 'user' as const, content: input };
-    setMessages(prev => [...prev, userMessage]);
+    const question = input;
+    let chatHistory = (thread?.messages || [])
+      .slice(summarizedCount)
+      .map(msg => ({ role: msg.role, content: msg.content }));
+    let summary = thread?.summary;
+    const activeThreadId = threadId || createThread(bookId);
+    setThreadId(activeThreadId);
+    addMessage(activeThreadId, { role: 'user', content: question, anchorPassageId: currentPassage.id });
+    
+    setStreamingMessage({ role: 'assistant', content: '' });
     setInput('');
     setIsLoading(true);
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
-      // Format chat history for the LLM
-      const chatHistory = messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
-
-      // Send to LLM
-      const response = await llmService.chatWithBook(
-        input, 
+      // Fold older turns into the thread's summary once they outgrow the model's budget
+      setIsCondensing(true);
+      const condensed = await llmService.condenseHistory(chatHistory, summary, bookId);
+      setIsCondensing(false);
+      if (condensed) {
+        summary = condensed.summary;
+        setSummary(activeThreadId, summary, summarizedCount + condensed.summarizedCount);
+        chatHistory = chatHistory.slice(condensed.summarizedCount);
+      }
+      
+      // Send to LLM, rendering tokens as they arrive
+      const reply = await llmService.chatWithBook(
+        question, 
         currentPassage, 
-        bookContent,
-        chatHistory
+        passages,
+        chatHistory,
+        { summary, pinnedFacts },
+        currentChapter?.title,
+        {
+          signal: abortController.signal,
+          onToken: token => setStreamingMessage(message => message && { ...message, content: message.content + token })
+        }
       );
 
-      // Add response to chat
-      setMessages(prev => [
-        ...prev, 
-        { role: 'assistant', content: response }
-      ]);
+      addMessage(activeThreadId, {
+        role: 'assistant',
+        content: reply.content,
+        status: reply.status,
+        citations: reply.citations,
+        anchorPassageId: currentPassage.id
+      });
     } catch (error) {
       console.error('Error getting AI response:', error);
-      setMessages(prev => [
-        ...prev, 
-        { 
-          role: 'assistant', 
-          content: 'I apologize, but I encountered an error while processing your question. Please try again.' 
-        }
-      ]);
+      addMessage(activeThreadId, {
+        role: 'assistant',
+        content: 'I apologize, but I encountered an error while processing your question. Please try again.',
+        status: 'failed'
+      });
     } finally {
+      abortControllerRef.current = null;
+      setIsCondensing(false);
+      setStreamingMessage(null);
       setIsLoading(false);
     }
   };
+  
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+  
+  const handleSelectThread = (id: string | undefined) => {
+    setThreadId(id);
+    if (id) setLastThreadId(bookId, id);
+    setShowThreads(false);
+  };
+  
+  const handleNewThread = () => {
+    handleSelectThread(createThread(bookId));
+  };
+  
+  const handleDeleteThread = (id: string) => {
+    if (!window.confirm('Delete this conversation?')) return;
+    deleteThread(id);
+    if (id === threadId) setThreadId(undefined);
+  };
+  
+  const handleAddFact = () => {
+    if (!factInput.trim()) return;
+    pinFact(threadId || createThread(bookId), factInput);
+    setFactInput('');
+  };
+  
+  const handleRenameSubmit = () => {
+    if (renamingThreadId) renameThread(renamingThreadId, renameValue);
+    setRenamingThreadId(null);
+  };
+  
+  // Download a thread as Markdown
+  const handleExportThread = (id: string) => {
+    const markdown = exportThread(id, bookTitle);
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(useChatStore.getState().threads[id]?.title || 'conversation').replace(/[^\w\- ]+/g, '')}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  // Render an answer with its passage citations as links into the book
+  const renderContent = (message: ChatMessage) => {
+    if (!message.citations?.length) return message.content;
+    
+    return splitCitations(message.content, new Set(message.citations)).map((segment, i) => {
+      if ('text' in segment) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+      
+      const passage = passagesById.get(segment.passageId);
+      const number = message.citations!.indexOf(segment.passageId) + 1;
+      return (
+        <button
+          key={i}
+          onClick={() => onCitationClick(segment.passageId)}
+          className="mx-0.5 px-1 rounded bg-blue-50 text-blue-700 text-xs font-medium align-super hover:bg-blue-100"
+          title={(passage && formatPageRange(passage)) || passage?.text.slice(0, 80) || segment.passageId}
+        >
+          {number}
+        </button>
+      );
+    });
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -88,24 +217,135 @@ export default function BookChat({ currentPassage, bookContent, isVisible, onClo
     <div className="fixed bottom-6 right-6 z-50 w-96 h-[500px] bg-white rounded-lg shadow-xl border border-gray-200 flex flex-col overflow-hidden">
       {/* Header */}
       <div className="p-3 border-b border-gray-200 bg-blue-50 flex justify-between items-center">
-        <h3 className="font-medium text-gray-800">Book Assistant</h3>
-        <button 
-          onClick={onClose}
-          className="text-black-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100"
-          aria-label="Close chat"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="gray" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
+        <div className="min-w-0">
+          <h3 className="font-medium text-gray-800">Book Assistant</h3>
+          <p className="text-xs text-gray-500 truncate">
+            {thread?.title || 'New conversation'}{currentChapter ? ` · ${currentChapter.title}` : ''}
+          </p>
+        </div>
+        <div className="flex items-center">
+          <button
+            onClick={() => { setShowMemory(!showMemory); setShowThreads(false); }}
+            className="text-xs text-blue-600 hover:text-blue-800 px-2 py-1 rounded hover:bg-blue-100"
+          >
+            Memory ({pinnedFacts.length})
+          </button>
+          <button
+            onClick={() => { setShowThreads(!showThreads); setShowMemory(false); }}
+            className="text-xs text-blue-600 hover:text-blue-800 px-2 py-1 rounded hover:bg-blue-100"
+          >
+            Threads ({bookThreads.length})
+          </button>
+          <button 
+            onClick={onClose}
+            className="text-black-500 hover:text-gray-700 p-1 rounded-full hover:bg-gray-100"
+            aria-label="Close chat"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="gray" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
       </div>
       
+      {/* Thread list */}
+      {showThreads && (
+        <div className="border-b border-gray-200 bg-white max-h-56 overflow-y-auto">
+          <button
+            onClick={handleNewThread}
+            className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50"
+          >
+            + New conversation
+          </button>
+          {bookThreads.map(t => (
+            <div
+              key={t.id}
+              className={`flex items-center px-3 py-2 text-sm border-t border-gray-100 ${t.id === threadId ? 'bg-blue-50' : ''}`}
+            >
+              {renamingThreadId === t.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={e => setRenameValue(e.target.value)}
+                  onBlur={handleRenameSubmit}
+                  onKeyDown={e => e.key === 'Enter' && handleRenameSubmit()}
+                  className="flex-1 min-w-0 border border-gray-300 rounded px-1 text-gray-700"
+                />
+              ) : (
+                <button onClick={() => handleSelectThread(t.id)} className="flex-1 min-w-0 text-left text-gray-700 truncate">
+                  {t.title}
+                  <span className="ml-1 text-xs text-gray-400">({t.messages.length})</span>
+                </button>
+              )}
+              <button
+                onClick={() => { setRenamingThreadId(t.id); setRenameValue(t.title); }}
+                className="ml-2 text-xs text-gray-500 hover:text-gray-800"
+              >
+                Rename
+              </button>
+              <button onClick={() => handleExportThread(t.id)} className="ml-2 text-xs text-gray-500 hover:text-gray-800">
+                Export
+              </button>
+              <button onClick={() => handleDeleteThread(t.id)} className="ml-2 text-xs text-red-500 hover:text-red-700">
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Pinned facts and the summary of condensed turns */}
+      {showMemory && (
+        <div className="border-b border-gray-200 bg-white max-h-56 overflow-y-auto p-3 text-sm">
+          <p className="text-xs text-gray-500 mb-2">
+            Pinned facts are sent with every question, even after older messages are condensed.
+          </p>
+          {pinnedFacts.map((fact, index) => (
+            <div key={index} className="flex items-start py-1 border-t border-gray-100">
+              <span className="flex-1 text-gray-700">{fact}</span>
+              <button
+                onClick={() => threadId && unpinFact(threadId, index)}
+                className="ml-2 text-xs text-red-500 hover:text-red-700"
+              >
+                Unpin
+              </button>
+            </div>
+          ))}
+          <div className="flex mt-2">
+            <input
+              value={factInput}
+              onChange={e => setFactInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAddFact()}
+              placeholder="e.g. I'm reading this for a seminar on ethics"
+              className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-gray-700"
+            />
+            <button onClick={handleAddFact} className="ml-2 text-xs text-blue-600 hover:text-blue-800">
+              Pin
+            </button>
+          </div>
+          {thread?.summary && (
+            <div className="mt-3 pt-2 border-t border-gray-100">
+              <div className="text-xs font-medium text-gray-500 mb-1">Summary of earlier messages</div>
+              <p className="text-gray-600 whitespace-pre-line">{thread.summary}</p>
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* Chat messages */}
       <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
-        {messages.map((message, index) => (
+        {[...messages, ...(streamingMessage ? [streamingMessage] : [])].map((message, index) => (message.content || message.status) && (
+          <React.Fragment key={index}>
+          {summarizedCount > 0 && index === summarizedCount + 1 && (
+            <button
+              onClick={() => { setShowMemory(true); setShowThreads(false); }}
+              className="w-full mb-4 text-xs text-gray-500 border-t border-dashed border-gray-300 pt-1 hover:text-blue-600"
+            >
+              Earlier messages condensed into a summary
+            </button>
+          )}
           <div 
-            key={index} 
-            className={`mb-4 ${message.role === 'user' ? 'text-right' : ''}`}
+            className={`mb-4 ${message.role === 'user' ? 'text-right' : ''} ${index <= summarizedCount ? 'opacity-60' : ''}`}
           >
             <div 
               className={`inline-block max-w-[85%] p-3 rounded-lg ${
@@ -114,14 +354,40 @@ export default function BookChat({ currentPassage, bookContent, isVisible, onClo
                   : 'bg-white text-gray-800 border border-gray-200 rounded-tl-none'
               }`}
             >
-              {message.content}
+              {renderContent(message) || (message.status === 'stopped' && (
+                <span className="italic text-gray-500">Stopped before any answer arrived.</span>
+              ))}
+              {message.content && message.status === 'stopped' && (
+                <div className="mt-1 text-xs italic text-gray-500">Stopped</div>
+              )}
+              {message.status === 'interrupted' && (
+                <div className="mt-1 text-xs italic text-amber-600">Connection lost; the answer may be incomplete.</div>
+              )}
             </div>
+            {message.role === 'user' && message.anchorPassageId && passagesById.has(message.anchorPassageId) && (
+              <button
+                onClick={() => onCitationClick(message.anchorPassageId!)}
+                className="block ml-auto mt-1 text-xs text-gray-400 hover:text-blue-600"
+              >
+                Asked while reading {formatPageRange(passagesById.get(message.anchorPassageId)!) || 'this passage'}
+              </button>
+            )}
+            {threadId && index > 0 && index < messages.length && message.content && (
+              <button
+                onClick={() => pinFact(threadId, message.content)}
+                className={`block mt-1 text-xs text-gray-400 hover:text-blue-600 ${message.role === 'user' ? 'ml-auto' : ''}`}
+              >
+                Pin to memory
+              </button>
+            )}
           </div>
+          </React.Fragment>
         ))}
         
-        {isLoading && (
+        {isLoading && !streamingMessage?.content && (
           <div className="mb-4">
             <div className="inline-block max-w-[85%] p-3 rounded-lg bg-white text-gray-800 border border-gray-200 rounded-tl-none">
+              {isCondensing && <div className="mb-1 text-xs italic text-gray-500">Condensing earlier messages...</div>}
               <div className="flex space-x-2">
                 <div className="w-2 h-2 bg-gray-300 rounded-full animate-pulse"></div>
                 <div className="w-2 h-2 bg-gray-300 rounded-full animate-pulse delay-150"></div>
@@ -149,20 +415,32 @@ export default function BookChat({ currentPassage, bookContent, isVisible, onClo
               height: 'auto'
             }}
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={isLoading || !input.trim()}
-            className={`p-2 rounded-full ${
-              isLoading || !input.trim() 
-                ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
-                : 'bg-blue-600 text-white hover:bg-blue-700'
-            }`}
-            aria-label="Send message"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              className="p-2 rounded-full bg-red-600 text-white hover:bg-red-700"
+              aria-label="Stop generating"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <rect x="6" y="6" width="12" height="12" rx="1" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!input.trim()}
+              className={`p-2 rounded-full ${
+                !input.trim() 
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed' 
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+              aria-label="Send message"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
     </div>
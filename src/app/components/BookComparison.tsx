@@ -1,32 +1,44 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useBookStore } from '@/store/bookStore';
 import { useComparisonStore } from '@/store/comparisonStore';
 import { Passage } from '@/lib/textProcessing';
-import { PassageRelation, passageComparisonService, RelationType } from '@/services/passageComparisonService';
+import { ComparisonEstimate, PassageRelation, passageComparisonService, RelationType, RunOptions } from '@/services/passageComparisonService';
+import { DEFAULT_HYBRID_SEARCH_OPTIONS, FusionMethod } from '@/services/hybridRetriever';
+import { embeddingService } from '@/services/embeddingService';
+import { apiKeyService } from '@/services/apiKeyService';
+import { usageLedger } from '@/services/usageLedger';
+import { useUsageStore, RunKind } from '@/store/usageStore';
+import { jobQueueService } from '@/services/jobQueueService';
+import { isAbortError } from '@/utils/abort';
+import RunEstimateTable from './RunEstimateTable';
 
-// Llama API key from environment variables
-const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_LLAMA_API_KEY || "LLM|24233636562905000|uj_EryBhhQK5JGIkJYaXt0_T2eY";
+const RUN_LABELS: Record<RunKind, string> = {
+  compareAllPassages: 'Analyze All Passages',
+  analyzeFullBooks: 'Analyze Full Books'
+};
+
+// Settings of the whole-book runs
+const ALL_PASSAGES_TOP_K = 3;
+const CHAPTERS_PER_BATCH = 1;
 
 export default function BookComparison() {
-  const { books, getBook, getPassages } = useBookStore();
+  const { books, getBook, getPassages, getPassage, loadBook } = useBookStore();
   const { 
     addComparison, 
     getComparison, 
-    isBookIndexed, 
-    addIndexedBook,
     addBulkComparisons,
     getBookComparisonStatus,
     setSimilarityThreshold,
     getSimilarityThreshold 
   } = useComparisonStore();
+  const { addRun, completeRun, getRun } = useUsageStore();
   
   const [sourceBookId, setSourceBookId] = useState<string>('');
   const [targetBookId, setTargetBookId] = useState<string>('');
   const [selectedPassageId, setSelectedPassageId] = useState<string>('');
-  const [apiKey, setApiKey] = useState<string>(DEFAULT_API_KEY);
-  const [openaiApiKey, setOpenaiApiKey] = useState<string>(process.env.NEXT_PUBLIC_OPENAI_API_KEY || '');
+  const [embeddingsReady, setEmbeddingsReady] = useState(embeddingService.isConfigured());
   const [isComparing, setIsComparing] = useState(false);
   const [isFullBookComparing, setIsFullBookComparing] = useState(false);
   const [isIndexing, setIsIndexing] = useState(false);
@@ -35,10 +47,21 @@ export default function BookComparison() {
   const [logs, setLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [showApiSettings, setShowApiSettings] = useState(false);
   const [similarityThreshold, setSimilarityThresholdState] = useState<number>(getSimilarityThreshold());
+  const [lexicalWeight, setLexicalWeight] = useState<number>(DEFAULT_HYBRID_SEARCH_OPTIONS.lexicalWeight);
+  const [fusion, setFusion] = useState<FusionMethod>(DEFAULT_HYBRID_SEARCH_OPTIONS.fusion);
   const [isShowingAllRelations, setIsShowingAllRelations] = useState(false);
   const [allRelations, setAllRelations] = useState<Map<string, PassageRelation[]>>(new Map());
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [pendingRun, setPendingRun] = useState<{ kind: RunKind, estimate: ComparisonEstimate } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const runControllerRef = useRef<AbortController | null>(null);
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  
+  // Embedding becomes available once the server reports its keys, or the reader adds one
+  useEffect(() => {
+    return apiKeyService.subscribe(() => setEmbeddingsReady(embeddingService.isConfigured()));
+  }, []);
   
   // Listen for changes to the selected passage
   useEffect(() => {
@@ -54,15 +77,23 @@ export default function BookComparison() {
     }
   }, [selectedPassageId, getComparison]);
   
-  // Set the passage to the first one when a source book is selected
+  // Load the source book and select its first passage
   useEffect(() => {
     if (sourceBookId) {
-      const passages = getPassages(sourceBookId);
-      if (passages.length > 0) {
-        setSelectedPassageId(passages[0].id);
-      }
+      loadBook(sourceBookId).then(book => {
+        if (book && book.passages.length > 0) {
+          setSelectedPassageId(book.passages[0].id);
+        }
+      });
     }
-  }, [sourceBookId, getPassages]);
+  }, [sourceBookId, loadBook]);
+  
+  // Load the target book so related passages can be shown
+  useEffect(() => {
+    if (targetBookId) {
+      loadBook(targetBookId);
+    }
+  }, [targetBookId, loadBook]);
   
   const handleSourceBookChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSourceBookId(e.target.value);
@@ -109,9 +140,6 @@ export default function BookComparison() {
     setProgress(0);
     
     try {
-      // Set both API keys
-      passageComparisonService.setApiKey(apiKey, openaiApiKey);
-      
       // Get the selected passage
       const passages = getPassages(sourceBookId);
       const selectedPassage = passages.find(p => p.id === selectedPassageId);
@@ -123,15 +151,18 @@ export default function BookComparison() {
       setLogs(prev => [...prev, `Starting comparison of passage from book ${sourceBookId} with book ${targetBookId}`]);
       
       // Check if target book is indexed
-      if (!isBookIndexed(targetBookId)) {
+      if (!(await passageComparisonService.isBookIndexed(targetBookId))) {
         setLogs(prev => [...prev, `Target book ${targetBookId} not indexed yet, indexing now...`]);
         setIsIndexing(true);
         
         // Index the target book
-        await passageComparisonService.indexBook(targetBookId);
+        const report = await passageComparisonService.indexBook(targetBookId);
         
-        setLogs(prev => [...prev, `Successfully indexed book ${targetBookId}`]);
-        addIndexedBook(targetBookId);
+        if (report.failed.length > 0) {
+          setLogs(prev => [...prev, `Indexed book ${targetBookId}; ${report.failed.length} passages could not be embedded and were left out`]);
+        } else {
+          setLogs(prev => [...prev, `Successfully indexed book ${targetBookId}`]);
+        }
         setIsIndexing(false);
       }
       
@@ -141,10 +172,15 @@ export default function BookComparison() {
       // Compare the passage with the target book
       const results = await passageComparisonService.compareWithBook(
         selectedPassage,
-        targetBookId
+        targetBookId,
+        5, // topK
+        { lexicalWeight, fusion }
       );
       
       setLogs(prev => [...prev, `Found ${results.length} related passages`]);
+      passageComparisonService.getLastFailures().forEach(failure => {
+        setLogs(prev => [...prev, `[WARN] No valid relation for ${failure.relatedPassageId}: ${failure.errors.join('; ')}`]);
+      });
       setProgress(100);
       
       // Store the results
@@ -165,7 +201,10 @@ export default function BookComparison() {
     }
   };
   
-  const handleCompareAllPassages = async () => {
+  /**
+   * Work out what a whole-book run will take and ask for confirmation before starting it
+   */
+  const handleEstimate = async (kind: RunKind) => {
     if (!sourceBookId || !targetBookId) {
       setError('Please select source book and target book');
       return;
@@ -176,6 +215,44 @@ export default function BookComparison() {
       return;
     }
     
+    setIsEstimating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const estimate = kind === 'compareAllPassages'
+        ? await passageComparisonService.estimateCompareAllPassages(sourceBookId, targetBookId, ALL_PASSAGES_TOP_K, { lexicalWeight, fusion })
+        : await passageComparisonService.estimateFullBooks(sourceBookId, targetBookId, CHAPTERS_PER_BATCH);
+      setPendingRun({ kind, estimate });
+    } catch (err) {
+      console.error('Error estimating comparison:', err);
+      setError(err instanceof Error ? err.message : 'Could not estimate the comparison');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+  
+  /**
+   * Queue the run on the job queue instead, where it survives closing the page
+   */
+  const handleRunInBackground = (kind: RunKind) => {
+    setPendingRun(null);
+    if (kind === 'compareAllPassages') {
+      jobQueueService.enqueue({
+        type: 'comparePair',
+        sourceBookId,
+        targetBookId,
+        topK: ALL_PASSAGES_TOP_K,
+        threshold: similarityThreshold,
+        retrievalOptions: { lexicalWeight, fusion }
+      });
+    } else {
+      jobQueueService.enqueue({ type: 'fullBookAnalysis', sourceBookId, targetBookId, chaptersPerBatch: CHAPTERS_PER_BATCH });
+    }
+    setNotice(`${RUN_LABELS[kind]} was queued. Follow it under Background Jobs; results are saved as they arrive.`);
+  };
+  
+  const handleRun = async (kind: RunKind, estimate: ComparisonEstimate) => {
+    setPendingRun(null);
     setIsFullBookComparing(true);
     setError(null);
     setRelations([]);
@@ -183,10 +260,28 @@ export default function BookComparison() {
     setProgress(0);
     setAllRelations(new Map());
     
+    // Keep the estimate so it can be set against what the run actually took
+    const startedAt = Date.now();
+    const bookIds = [sourceBookId, targetBookId];
+    const runId = addRun({ kind, bookIds, startedAt, estimate });
+    setLastRunId(runId);
+    
+    // Relations are saved as each step finishes, so a cancelled run keeps what it found
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    const saved = new Map<string, PassageRelation[]>();
+    const runOptions: RunOptions = {
+      signal: controller.signal,
+      onStepComplete: (_step, stepRelations) => {
+        stepRelations.forEach((relations, passageId) => {
+          const merged = [...(saved.get(passageId) || []), ...relations];
+          saved.set(passageId, merged);
+          addComparison(passageId, merged);
+        });
+      }
+    };
+    
     try {
-      // Set both API keys
-      passageComparisonService.setApiKey(apiKey, openaiApiKey);
-      
       const sourceBook = getBook(sourceBookId);
       const targetBook = getBook(targetBookId);
       
@@ -202,14 +297,17 @@ export default function BookComparison() {
         setLogs(prev => [...prev, `[${progress.toFixed(0)}%] ${message}`]);
       };
       
-      // Compare all passages
-      const results = await passageComparisonService.compareAllPassages(
-        sourceBookId,
-        targetBookId,
-        3, // topK
-        5, // batchSize
-        updateProgress
-      );
+      const results = kind === 'compareAllPassages'
+        ? await passageComparisonService.compareAllPassages(
+          sourceBookId,
+          targetBookId,
+          ALL_PASSAGES_TOP_K,
+          5, // batchSize
+          updateProgress,
+          { lexicalWeight, fusion },
+          runOptions
+        )
+        : await passageComparisonService.analyzeFullBooks(sourceBookId, targetBookId, CHAPTERS_PER_BATCH, updateProgress, runOptions);
       
       // Store the results
       addBulkComparisons(results, sourceBookId, targetBookId);
@@ -227,16 +325,44 @@ export default function BookComparison() {
       });
       
       setLogs(prev => [...prev, `Found ${relationCount} relations across ${results.size} passages`]);
+      
+      const failures = passageComparisonService.getLastFailures();
+      if (failures.length > 0) {
+        setLogs(prev => [
+          ...prev,
+          `[WARN] ${failures.length} relations could not be analyzed:`,
+          ...failures.map(failure => `  ${failure.focusPassageId} -> ${failure.relatedPassageId}: ${failure.errors.join('; ')}`)
+        ]);
+      }
+      
+      const failedSteps = passageComparisonService.getLastFailedSteps();
+      if (kind === 'analyzeFullBooks' && failedSteps.length > 0) {
+        const errorMessage = `${failedSteps.length} batches of chapters could not be analyzed, so their relations are missing`;
+        setError(errorMessage);
+        setLogs(prev => [...prev, `ERROR: ${errorMessage}`]);
+      }
     } catch (err) {
+      if (isAbortError(err)) {
+        setNotice(`${RUN_LABELS[kind]} was cancelled. Relations for ${saved.size} passages found before then were saved.`);
+        setAllRelations(saved);
+        setIsShowingAllRelations(saved.size > 0);
+        return;
+      }
       console.error('Error comparing all passages:', err);
       const errorMessage = err instanceof Error ? err.message : 'An error occurred during comparison';
       setError(errorMessage);
       setLogs(prev => [...prev, `ERROR: ${errorMessage}`]);
     } finally {
+      runControllerRef.current = null;
+      completeRun(runId, usageLedger.getTotalsSince(startedAt, 'comparison', bookIds));
       setIsFullBookComparing(false);
     }
   };
   
+  const handleCancelRun = () => {
+    runControllerRef.current?.abort();
+  };
+  
   // Get relevant data
   const selectedPassage = selectedPassageId ? 
     getPassages(sourceBookId).find(p => p.id === selectedPassageId) : 
@@ -247,11 +373,7 @@ export default function BookComparison() {
   
   // Helper to get a passage by ID
   const getPassageById = (passageId: string): Passage | undefined => {
-    for (const book of books) {
-      const passage = book.passages.find(p => p.id === passageId);
-      if (passage) return passage;
-    }
-    return undefined;
+    return getPassage(passageId);
   };
   
   // Get relation color
@@ -265,6 +387,9 @@ export default function BookComparison() {
     }
   };
   
+  const lastRun = lastRunId ? getRun(lastRunId) : undefined;
+  const isBusy = isComparing || isFullBookComparing || isEstimating || !!pendingRun;
+  
   // Check if the full book comparison has been done
   const isFullBookComparisonDone = sourceBookId && targetBookId && 
     getBookComparisonStatus(sourceBookId, targetBookId) !== undefined;
@@ -283,12 +408,12 @@ export default function BookComparison() {
               className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-gray-900 bg-white"
               value={sourceBookId}
               onChange={handleSourceBookChange}
-              disabled={isComparing || isFullBookComparing}
+              disabled={isBusy}
             >
               <option value="">Select a book...</option>
               {books.map((book) => (
                 <option key={book.id} value={book.id}>
-                  {book.title} ({book.passages.length} passages)
+                  {book.title} ({book.passageCount} passages)
                 </option>
               ))}
             </select>
@@ -302,7 +427,7 @@ export default function BookComparison() {
               className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-gray-900 bg-white"
               value={targetBookId}
               onChange={handleTargetBookChange}
-              disabled={isComparing || isFullBookComparing}
+              disabled={isBusy}
             >
               <option value="">Select a book...</option>
               {books.map((book) => (
@@ -311,7 +436,7 @@ export default function BookComparison() {
                   value={book.id}
                   disabled={book.id === sourceBookId}
                 >
-                  {book.title} ({book.passages.length} passages)
+                  {book.title} ({book.passageCount} passages)
                   {book.id === sourceBookId ? ' (Same as source)' : ''}
                 </option>
               ))}
@@ -334,7 +459,7 @@ export default function BookComparison() {
                 value={similarityThreshold}
                 onChange={handleThresholdChange}
                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer mt-1"
-                disabled={isComparing || isFullBookComparing}
+                disabled={isBusy}
               />
               <div className="flex justify-between text-xs text-gray-500">
                 <span>0</span>
@@ -343,11 +468,37 @@ export default function BookComparison() {
               </div>
             </div>
             
+            <div className="text-sm">
+              <label htmlFor="lexicalWeight" className="text-gray-700 font-medium">
+                Keyword Weight: {lexicalWeight.toFixed(2)}
+              </label>
+              <input
+                id="lexicalWeight"
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={lexicalWeight}
+                onChange={(e) => setLexicalWeight(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer mt-1"
+                disabled={isBusy}
+              />
+              <select
+                value={fusion}
+                onChange={(e) => setFusion(e.target.value as FusionMethod)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                disabled={isBusy}
+              >
+                <option value="weighted">Weighted scores</option>
+                <option value="rrf">Reciprocal rank fusion</option>
+              </select>
+            </div>
+            
             {isFullBookComparisonDone && (
               <button
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium"
                 onClick={() => setIsShowingAllRelations(!isShowingAllRelations)}
-                disabled={isComparing || isFullBookComparing}
+                disabled={isBusy}
               >
                 {isShowingAllRelations ? 'Hide Book Analysis' : 'Show Book Analysis'}
               </button>
@@ -365,7 +516,7 @@ export default function BookComparison() {
               className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-gray-900 bg-white"
               value={selectedPassageId}
               onChange={handlePassageChange}
-              disabled={isComparing || isFullBookComparing}
+              disabled={isBusy}
             >
               <option value="">Select a passage...</option>
               {getPassages(sourceBookId).map((passage, index) => (
@@ -395,84 +546,96 @@ export default function BookComparison() {
           </div>
         )}
         
-        {!openaiApiKey && (
+        {!embeddingsReady && (
           <div className="text-amber-600 text-sm font-medium p-3 border border-amber-200 bg-amber-50 rounded">
             <div className="font-bold mb-1">Warning:</div>
-            <p>OpenAI API key is required for embedding generation and passage similarity search.</p>
-            <p>Please provide your OpenAI API key in the API Settings section below.</p>
+            <p>Embeddings are required for passage similarity search, but the server has no key for the embedding provider.</p>
+            <p>Set one on the server or add your own under &quot;API keys&quot; on the home page.</p>
           </div>
         )}
         
-        {/* API Settings */}
-        <div>
-          <button
-            onClick={() => setShowApiSettings(!showApiSettings)}
-            className="text-sm text-blue-600 hover:text-blue-800 font-medium mb-2"
-          >
-            {showApiSettings ? 'Hide API Settings' : 'Show API Settings'}
-          </button>
-          
-          {showApiSettings && (
-            <div className="p-3 border rounded bg-gray-50 space-y-3">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Llama API Key
-                </label>
-                <input
-                  type="text"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="Enter your Llama API key"
-                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-gray-900 bg-white"
-                  disabled={isComparing || isFullBookComparing}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Used for analyzing the relationships between passages.
-                </p>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  OpenAI API Key
-                </label>
-                <input
-                  type="text"
-                  value={openaiApiKey}
-                  onChange={(e) => setOpenaiApiKey(e.target.value)}
-                  placeholder="Enter your OpenAI API key"
-                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-gray-900 bg-white"
-                  disabled={isComparing || isFullBookComparing}
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Used for generating embeddings to find similar passages.
-                </p>
-              </div>
-              
-              <div className="text-xs text-amber-600 mt-1">
-                Note: Your API keys are used client-side and not stored on any server. 
-                They are saved in your browser's local storage.
-              </div>
-            </div>
-          )}
-        </div>
-        
         <div className="flex flex-col md:flex-row gap-4">
           <button
             className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md transition-colors disabled:bg-gray-400 flex-1"
             onClick={handleCompare}
-            disabled={isComparing || isFullBookComparing || !sourceBookId || !targetBookId || !selectedPassageId || !openaiApiKey}
+            disabled={isBusy || !sourceBookId || !targetBookId || !selectedPassageId || !embeddingsReady}
           >
             {isComparing ? (isIndexing ? 'Indexing Target Book...' : 'Comparing...') : 'Compare Passage'}
           </button>
           
           <button
             className="py-2 px-4 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-md transition-colors disabled:bg-gray-400 flex-1"
-            onClick={handleCompareAllPassages}
-            disabled={isComparing || isFullBookComparing || !sourceBookId || !targetBookId || !openaiApiKey}
+            onClick={() => handleEstimate('compareAllPassages')}
+            disabled={isBusy || !sourceBookId || !targetBookId || !embeddingsReady}
+          >
+            {isFullBookComparing && lastRun?.kind === 'compareAllPassages' ? 'Analyzing All Passages...' : 'Analyze All Passages'}
+          </button>
+          
+          <button
+            className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-md transition-colors disabled:bg-gray-400 flex-1"
+            onClick={() => handleEstimate('analyzeFullBooks')}
+            disabled={isBusy || !sourceBookId || !targetBookId}
           >
-            {isFullBookComparing ? 'Analyzing All Passages...' : 'Analyze All Passages'}
+            {isFullBookComparing && lastRun?.kind === 'analyzeFullBooks' ? 'Analyzing Full Books...' : 'Analyze Full Books'}
           </button>
         </div>
+        
+        {isEstimating && (
+          <p className="text-sm text-gray-600 animate-pulse">Estimating the cost of the run...</p>
+        )}
+        
+        {pendingRun && (
+          <div className="p-4 border border-purple-200 bg-purple-50 rounded space-y-3">
+            <div className="text-sm font-medium text-gray-900">{RUN_LABELS[pendingRun.kind]}: estimated cost</div>
+            {pendingRun.estimate.path && (
+              <p className="text-sm text-gray-700">
+                {pendingRun.estimate.path === 'singleContext'
+                  ? 'Both books fit in one request to the model.'
+                  : `The books are too large for one request and will be compared in ${pendingRun.estimate.llmCalls} batches of chapters.`}
+              </p>
+            )}
+            {!pendingRun.estimate.exact && (
+              <p className="text-xs text-gray-600">
+                The books aren&apos;t fully indexed yet, so this assumes every passage finds {ALL_PASSAGES_TOP_K} matches above the threshold.
+              </p>
+            )}
+            <RunEstimateTable estimate={pendingRun.estimate} isUpperBound={!pendingRun.estimate.exact} />
+            {!pendingRun.estimate.priced && (
+              <p className="text-xs text-amber-700">A model in use has no known price, so its cost is counted as $0.</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRun(pendingRun.kind, pendingRun.estimate)}
+                className="py-1 px-3 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-md"
+              >
+                Start
+              </button>
+              <button
+                onClick={() => handleRunInBackground(pendingRun.kind)}
+                className="py-1 px-3 border border-purple-600 text-purple-700 hover:bg-purple-50 text-sm rounded-md"
+              >
+                Run in background
+              </button>
+              <button
+                onClick={() => setPendingRun(null)}
+                className="py-1 px-3 text-sm text-gray-700 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        
+        {notice && (
+          <p className="text-sm text-gray-700">{notice}</p>
+        )}
+        
+        {lastRun?.actual && !isFullBookComparing && (
+          <div className="p-4 border rounded bg-gray-50 space-y-2">
+            <div className="text-sm font-medium text-gray-900">{RUN_LABELS[lastRun.kind]}: estimate and actual</div>
+            <RunEstimateTable estimate={lastRun.estimate} actual={lastRun.actual} />
+          </div>
+        )}
       </div>
       
       {(isComparing || isFullBookComparing) && (
@@ -499,6 +662,15 @@ export default function BookComparison() {
             <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
           </div>
           
+          {isFullBookComparing && (
+            <button
+              onClick={handleCancelRun}
+              className="py-1 px-3 border border-red-300 text-red-600 hover:bg-red-50 text-sm rounded-md"
+            >
+              Cancel
+            </button>
+          )}
+          
           <div className="mt-4">
             <button 
               onClick={() => setShowLogs(!showLogs)}
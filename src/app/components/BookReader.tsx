@@ -3,12 +3,12 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useBookStore } from '@/store/bookStore';
 import { useComparisonStore } from '@/store/comparisonStore';
-import { Passage } from '@/lib/textProcessing';
+import { Passage, BookChapter, findChapter, flattenChapters, formatPageRange } from '@/lib/textProcessing';
 import BookChat from './BookChat';
 import BookCover from '@/components/BookCover';
 
 export default function BookReader({ bookId: initialBookId }: { bookId: string }) {
-  const { getBook, getPassages, books } = useBookStore();
+  const { getBook, getPassages, getPassage, loadBook, loadBooksForPassages, books, isHydrated } = useBookStore();
   const { getComparison } = useComparisonStore();
   
   const [bookId, setBookId] = useState<string>(initialBookId);
@@ -17,7 +17,9 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
   const [fontSize, setFontSize] = useState<number>(18);
   const [showBookSelector, setShowBookSelector] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const [showContents, setShowContents] = useState(false);
   const [expandedPassages, setExpandedPassages] = useState<Set<string>>(new Set());
+  const [highlightedPassageId, setHighlightedPassageId] = useState<string | null>(null);
   const bookContentRef = useRef<HTMLDivElement>(null);
   
   const book = getBook(bookId);
@@ -31,6 +33,25 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
   // Get relations for the current passage
   const currentRelations = activePassageId ? getComparison(activePassageId) || [] : [];
   
+  // Chapter of the passage currently in view
+  const activePassage = activePassageIndex >= 0 ? passages[activePassageIndex] : undefined;
+  const currentChapter = findChapter(book?.chapters, activePassage?.chapterId);
+  
+  // Load the book's text and passages
+  useEffect(() => {
+    if (bookId) {
+      loadBook(bookId);
+    }
+  }, [bookId, loadBook]);
+  
+  // Load the books that related passages come from
+  useEffect(() => {
+    const relations = activePassageId ? getComparison(activePassageId) || [] : [];
+    if (relations.length > 0) {
+      loadBooksForPassages(relations.map(relation => relation.relatedPassageId));
+    }
+  }, [activePassageId, getComparison, loadBooksForPassages]);
+  
   // Create intersection observer to detect which passage is currently in view
   useEffect(() => {
     if (!bookContentRef.current) return;
@@ -75,7 +96,12 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
   }, [bookId, getComparison, passages]);
   
   if (!book) {
-    return <div className="text-center my-8">Book not found</div>;
+    const isKnownBook = books.some(b => b.id === bookId);
+    return (
+      <div className="text-center my-8">
+        {!isHydrated || isKnownBook ? 'Loading book...' : 'Book not found'}
+      </div>
+    );
   }
   
   // Function to get relation type color
@@ -91,15 +117,13 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
   
   // Function to get related passage text and book information
   const getRelatedPassageInfo = (passageId: string): { text: string, bookTitle: string } => {
-    // Look through all books to find the passage
-    for (const book of books) {
-      const passage = book.passages.find(p => p.id === passageId);
-      if (passage) {
-        return {
-          text: passage.text,
-          bookTitle: book.title
-        };
-      }
+    // Look through the loaded books to find the passage
+    const passage = getPassage(passageId);
+    if (passage) {
+      return {
+        text: passage.text,
+        bookTitle: books.find(b => b.id === passage.bookId)?.title || 'Unknown Book'
+      };
     }
     
     // Default if passage not found
@@ -154,6 +178,26 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
     setShowChat(!showChat);
   };
   
+  // Scroll to the first passage of a chapter or any of its sub-chapters
+  const handleChapterSelect = (chapter: BookChapter) => {
+    const chapterIds = new Set(flattenChapters([chapter]).map(c => c.id));
+    const firstPassage = passages.find(p => p.chapterId && chapterIds.has(p.chapterId));
+    setShowContents(false);
+    
+    if (firstPassage) {
+      document.getElementById(`passage-${firstPassage.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  };
+  
+  // Scroll to a passage cited in the chat and briefly highlight it
+  const handleCitationClick = (passageId: string) => {
+    document.getElementById(`passage-${passageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedPassageId(passageId);
+    setTimeout(() => {
+      setHighlightedPassageId(current => current === passageId ? null : current);
+    }, 2000);
+  };
+  
   // Helper to toggle passage expansion
   const togglePassageExpand = useCallback((passageId: string) => {
     setExpandedPassages(prev => {
@@ -282,7 +326,7 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="font-medium truncate text-gray-800">{b.title}</div>
-                          <div className="text-xs text-gray-600 mt-1">{b.passages.length} passages</div>
+                          <div className="text-xs text-gray-600 mt-1">{b.passageCount} passages</div>
                         </div>
                       </button>
                     ))}
@@ -293,6 +337,56 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
           )}
         </div>
         
+        {/* Table of contents */}
+        {book.chapters && book.chapters.length > 0 && (
+          <div className="fixed top-15 left-32 z-10">
+            <button 
+              onClick={() => setShowContents(!showContents)}
+              className="flex items-center p-3 bg-white rounded-lg shadow-md hover:bg-gray-50 border border-gray-100 text-gray-800 max-w-xs"
+            >
+              <svg className="w-5 h-5 mr-2 text-gray-800 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+              </svg>
+              <span className="text-sm text-gray-800 font-medium truncate">
+                {currentChapter ? currentChapter.title : 'Contents'}
+              </span>
+            </button>
+            
+            {showContents && (
+              <div className="absolute top-full left-0 mt-2 w-72 bg-white shadow-xl rounded-lg border border-gray-200 max-h-96 overflow-y-auto">
+                <div className="p-3 border-b border-gray-100">
+                  <h3 className="text-sm font-medium text-gray-800">Contents</h3>
+                </div>
+                <div className="p-2 space-y-1">
+                  {book.chapters.map(chapter => (
+                    <div key={chapter.id}>
+                      <button
+                        onClick={() => handleChapterSelect(chapter)}
+                        className={`w-full text-left px-3 py-2 text-sm rounded-md hover:bg-gray-50 text-gray-800 ${
+                          chapter.kind === 'part' ? 'font-semibold' : ''
+                        } ${chapter.id === currentChapter?.id ? 'bg-blue-50 text-blue-700' : ''}`}
+                      >
+                        {chapter.title}
+                      </button>
+                      {chapter.children.map(child => (
+                        <button
+                          key={child.id}
+                          onClick={() => handleChapterSelect(child)}
+                          className={`w-full text-left pl-6 pr-3 py-2 text-sm rounded-md hover:bg-gray-50 text-gray-700 ${
+                            child.id === currentChapter?.id ? 'bg-blue-50 text-blue-700' : ''
+                          }`}
+                        >
+                          {child.title}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        
         {/* Main book content */}
         <div className="flex-1 overflow-y-auto px-8 py-20 bg-amber-50 scroll-smooth" ref={bookContentRef}>
           <div className="max-w-3xl mx-auto bg-white p-8 sm:p-10 rounded-lg shadow-md border border-amber-100" 
@@ -311,10 +405,17 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
               {passages.map((passage, index) => (
                 <div
                   key={passage.id}
-                  className="passage mb-6 leading-relaxed"
+                  className={`passage mb-6 leading-relaxed transition-colors duration-500 ${
+                    passage.id === highlightedPassageId ? 'bg-yellow-100 rounded' : ''
+                  }`}
                   data-passage-index={index}
                   id={`passage-${passage.id}`}
                 >
+                  {formatPageRange(passage) && (
+                    <div className="text-xs text-gray-400 text-right font-sans mb-1">
+                      {formatPageRange(passage)}
+                    </div>
+                  )}
                   <p 
                     className="text-gray-800" 
                     style={{ 
@@ -488,9 +589,12 @@ export default function BookReader({ bookId: initialBookId }: { bookId: string }
         {activePassageIndex >= 0 && passages.length > 0 && (
           <BookChat
             currentPassage={passages[activePassageIndex]}
-            bookContent={book.rawContent || ''}
+            passages={passages}
+            bookTitle={book.title}
+            currentChapter={currentChapter}
             isVisible={showChat}
             onClose={toggleChat}
+            onCitationClick={handleCitationClick}
           />
         )}
       </div>
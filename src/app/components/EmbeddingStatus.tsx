@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Book, Passage } from '@/lib/textProcessing';
+import { embeddingService } from '@/services/embeddingService';
+import { passageComparisonService } from '@/services/passageComparisonService';
+
+interface EmbeddingStatusProps {
+  book: Book;
+}
+
+// How many missing passages to list before summarizing the rest
+const MAX_LISTED = 10;
+
+export default function EmbeddingStatus({ book }: EmbeddingStatusProps) {
+  const [missing, setMissing] = useState<Passage[] | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  
+  const refresh = useCallback(async () => {
+    try {
+      const missingPassages = await embeddingService.getMissingPassages(book.passages);
+      const failures = embeddingService.getFailures(missingPassages);
+      setMissing(missingPassages);
+      setErrors(Object.fromEntries(failures.map(failure => [failure.passageId, failure.error])));
+    } catch (error) {
+      console.error('Error checking embeddings:', error);
+      setMissing(null);
+    }
+  }, [book]);
+  
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+  
+  // Passages the job worker embeds show up without a reload
+  useEffect(() => embeddingService.onVectorsChanged((change, elsewhere) => {
+    if (elsewhere && change.bookId === book.id) refresh();
+  }), [book.id, refresh]);
+  
+  const handleEmbedMissing = async () => {
+    setIsIndexing(true);
+    setMessage(null);
+    
+    try {
+      // Passages that already have a vector are skipped
+      const report = await passageComparisonService.indexBook(book.id);
+      setMessage(report.failed.length > 0
+        ? `Embedded ${report.embedded} passages; ${report.failed.length} still failed.`
+        : `Embedded ${report.embedded} passages.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Error embedding passages');
+    } finally {
+      setIsIndexing(false);
+      await refresh();
+    }
+  };
+  
+  if (missing === null) return null;
+  
+  const embeddedCount = book.passages.length - missing.length;
+  
+  return (
+    <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-100">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          Embeddings: {embeddedCount} of {book.passages.length} passages
+        </p>
+        {missing.length > 0 && (
+          <button
+            onClick={handleEmbedMissing}
+            disabled={isIndexing}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-md"
+          >
+            {isIndexing ? 'Embedding...' : embeddedCount > 0 ? 'Retry missing passages' : 'Embed passages'}
+          </button>
+        )}
+      </div>
+      
+      {message && (
+        <p className="mt-2 text-xs text-gray-600">{message}</p>
+      )}
+      
+      {missing.length > 0 && embeddedCount > 0 && (
+        <ul className="mt-3 space-y-1">
+          {missing.slice(0, MAX_LISTED).map(passage => (
+            <li key={passage.id} className="text-xs text-gray-600">
+              <span className="text-gray-800">{passage.text.substring(0, 80)}...</span>
+              {errors[passage.id] && (
+                <span className="ml-2 text-red-600">{errors[passage.id]}</span>
+              )}
+            </li>
+          ))}
+          {missing.length > MAX_LISTED && (
+            <li className="text-xs text-gray-500">and {missing.length - MAX_LISTED} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
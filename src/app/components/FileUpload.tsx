@@ -1,12 +1,17 @@
 'use client';
 
 import React, { useState } from 'react';
+import { Book, processTextFile } from '@/lib/textProcessing';
+import { processEpubFile } from '@/lib/epubProcessing';
+import { processPdfFile } from '@/lib/pdfProcessing';
+
+const SUPPORTED_EXTENSIONS = ['.txt', '.epub', '.pdf'];
 
 interface FileUploadProps {
-  onFileProcess: (text: string, fileName: string) => void;
+  onBookProcess: (book: Book) => void;
 }
 
-export default function FileUpload({ onFileProcess }: FileUploadProps) {
+export default function FileUpload({ onBookProcess }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,8 +28,9 @@ export default function FileUpload({ onFileProcess }: FileUploadProps) {
   };
 
   const processFile = async (file: File) => {
-    if (!file.name.endsWith('.txt')) {
-      setError('Only .txt files are supported');
+    const fileName = file.name.toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      setError('Only .txt, .epub and .pdf files are supported');
       setLoading(false);
       return;
     }
@@ -33,10 +39,18 @@ export default function FileUpload({ onFileProcess }: FileUploadProps) {
       setLoading(true);
       setError(null);
       
-      const text = await file.text();
-      onFileProcess(text, file.name);
+      if (fileName.endsWith('.epub')) {
+        const data = await file.arrayBuffer();
+        onBookProcess(await processEpubFile(data, file.name));
+      } else if (fileName.endsWith('.pdf')) {
+        const data = await file.arrayBuffer();
+        onBookProcess(await processPdfFile(data, file.name));
+      } else {
+        const text = await file.text();
+        onBookProcess(processTextFile(text, file.name));
+      }
     } catch (err) {
-      setError('Failed to read file content');
+      setError(err instanceof Error ? `Failed to read file content: ${err.message}` : 'Failed to read file content');
       console.error(err);
     } finally {
       setLoading(false);
@@ -74,7 +88,7 @@ export default function FileUpload({ onFileProcess }: FileUploadProps) {
       >
         <input
           type="file"
-          accept=".txt"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           onChange={handleChange}
           disabled={loading}
@@ -90,8 +104,8 @@ export default function FileUpload({ onFileProcess }: FileUploadProps) {
               <p className="text-sm text-gray-500">Processing...</p>
             ) : (
               <>
-                <p className="text-sm text-gray-500">Drag and drop your .txt file here or click to browse</p>
-                <p className="text-xs text-gray-400 mt-2">Only .txt files are supported</p>
+                <p className="text-sm text-gray-500">Drag and drop your .txt, .epub or .pdf file here or click to browse</p>
+                <p className="text-xs text-gray-400 mt-2">Plain text, EPUB and PDF files are supported</p>
               </>
             )}
           </div>
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { libraryChatService, LibraryChatReply } from '@/services/libraryChatService';
+import { useBookStore } from '@/store/bookStore';
+import { formatPageRange } from '@/lib/textProcessing';
+import { splitCitations } from '@/lib/citations';
+
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  status?: LibraryChatReply['status'];
+  citations?: LibraryChatReply['citations'];
+}
+
+export default function LibraryChat() {
+  const { books, getBook, getPassage } = useBookStore();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedBookIds, setSelectedBookIds] = useState<string[]>([]); // Empty means every book
+  const [openCitation, setOpenCitation] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | undefined>(); // Condensed form of the messages before summarizedCount
+  const [summarizedCount, setSummarizedCount] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  
+  // Stop generating if the panel goes away mid-answer
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+  
+  // Replace the answer being streamed into the last message
+  const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+  };
+  
+  const toggleBook = (bookId: string) => {
+    setSelectedBookIds(prev => prev.includes(bookId) ? prev.filter(id => id !== bookId) : [...prev, bookId]);
+  };
+  
+  const handleSendMessage = async () => {
+    if (!input.trim() || isLoading) return;
+    
+    const question = input;
+    let chatHistory = messages
+      .slice(summarizedCount)
+      .map(msg => ({ role: msg.role, content: msg.content }));
+    let currentSummary = summary;
+    setMessages(prev => [...prev, { role: 'user', content: question }, { role: 'assistant', content: '' }]);
+    setInput('');
+    setIsLoading(true);
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    try {
+      // Fold older turns into the summary once they outgrow the model's budget
+      const condensed = await libraryChatService.condenseHistory(chatHistory, currentSummary);
+      if (condensed) {
+        currentSummary = condensed.summary;
+        setSummary(currentSummary);
+        setSummarizedCount(summarizedCount + condensed.summarizedCount);
+        chatHistory = chatHistory.slice(condensed.summarizedCount);
+      }
+      
+      const reply = await libraryChatService.chat(
+        question,
+        chatHistory,
+        currentSummary,
+        selectedBookIds.length > 0 ? selectedBookIds : undefined,
+        {
+          signal: abortController.signal,
+          onToken: token => updateLastMessage(message => ({ ...message, content: message.content + token }))
+        }
+      );
+      
+      updateLastMessage(message => ({
+        ...message,
+        content: reply.content,
+        status: reply.status,
+        citations: reply.citations
+      }));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSendMessage();
+    }
+  };
+  
+  // Render an answer with each citation labelled by its book
+  const renderContent = (message: ChatMessage, messageIndex: number) => {
+    if (!message.citations?.length) return message.content;
+    
+    const citedIds = message.citations.map(citation => citation.passageId);
+    return splitCitations(message.content, new Set(citedIds)).map((segment, i) => {
+      if ('text' in segment) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+      
+      const citation = message.citations!.find(c => c.passageId === segment.passageId)!;
+      const key = `${messageIndex}:${segment.passageId}`;
+      return (
+        <button
+          key={i}
+          onClick={() => setOpenCitation(openCitation === key ? null : key)}
+          className="mx-0.5 px-1 rounded bg-blue-50 text-blue-700 text-xs font-medium hover:bg-blue-100"
+          title={getBook(citation.bookId)?.title}
+        >
+          {getBook(citation.bookId)?.title || 'Source'} {citedIds.indexOf(segment.passageId) + 1}
+        </button>
+      );
+    });
+  };
+  
+  // The passage behind the citation the reader opened under a message
+  const renderOpenCitation = (messageIndex: number) => {
+    if (!openCitation?.startsWith(`${messageIndex}:`)) return null;
+    
+    const passageId = openCitation.slice(openCitation.indexOf(':') + 1);
+    const passage = getPassage(passageId);
+    if (!passage) return null;
+    
+    const book = getBook(passage.bookId);
+    return (
+      <blockquote className="mt-2 p-2 border-l-4 border-blue-200 bg-gray-50 text-sm text-gray-700">
+        <div className="text-xs font-medium text-gray-500 mb-1">
+          {book?.title}{book?.author ? ` by ${book.author}` : ''}{formatPageRange(passage) ? `, ${formatPageRange(passage)}` : ''}
+        </div>
+        <p className="max-h-40 overflow-y-auto whitespace-pre-line">{passage.text}</p>
+      </blockquote>
+    );
+  };
+  
+  if (books.length === 0) return null;
+  
+  return (
+    <div className="mb-8 bg-white p-8 rounded-lg shadow-sm border border-gray-200">
+      <h2 className="text-xl font-semibold mb-2 text-gray-800">Ask Your Library</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Questions are answered from passages across your books, their comparisons and extracted concepts.
+      </p>
+      
+      <div className="flex flex-wrap gap-2 mb-4">
+        {books.map(book => (
+          <button
+            key={book.id}
+            onClick={() => toggleBook(book.id)}
+            className={`px-3 py-1 rounded-full text-xs border ${
+              selectedBookIds.includes(book.id)
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {book.title}
+          </button>
+        ))}
+        <span className="text-xs text-gray-500 self-center">
+          {selectedBookIds.length === 0 ? 'Searching all books' : `Searching ${selectedBookIds.length} selected`}
+        </span>
+      </div>
+      
+      {messages.length > 0 && (
+        <div className="max-h-[500px] overflow-y-auto p-4 mb-4 bg-gray-50 rounded-md border border-gray-100">
+          {messages.map((message, index) => (
+            <div key={index} className={`mb-4 ${message.role === 'user' ? 'text-right' : ''} ${index < summarizedCount ? 'opacity-60' : ''}`}>
+              <div
+                className={`inline-block max-w-[90%] p-3 rounded-lg text-left whitespace-pre-line ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white rounded-tr-none'
+                    : 'bg-white text-gray-800 border border-gray-200 rounded-tl-none'
+                }`}
+              >
+                {message.content ? renderContent(message, index) : (
+                  message.status === 'stopped'
+                    ? <span className="italic text-gray-500">Stopped before any answer arrived.</span>
+                    : <span className="animate-pulse text-gray-400">Searching your library...</span>
+                )}
+                {message.content && message.status === 'stopped' && (
+                  <div className="mt-1 text-xs italic text-gray-500">Stopped</div>
+                )}
+                {message.status === 'interrupted' && (
+                  <div className="mt-1 text-xs italic text-amber-600">Connection lost; the answer may be incomplete.</div>
+                )}
+                {renderOpenCitation(index)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      <div className="flex items-end space-x-2">
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g. How do these authors treat free will?"
+          className="flex-1 border border-gray-300 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-gray-700"
+          rows={2}
+        />
+        {isLoading ? (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="py-2 px-4 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-md"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleSendMessage}
+            disabled={!input.trim()}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-md disabled:bg-gray-400"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { completionClient, COMPLETION_TASKS, CompletionTask, ModelSelection } from '@/services/completionClient';
+
+/**
+ * Pick the completion provider and model used for each task
+ */
+export default function ModelSettings() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selections, setSelections] = useState<Record<string, ModelSelection>>(() =>
+    Object.fromEntries(COMPLETION_TASKS.map(({ task }) => [task, completionClient.getTaskModel(task)]))
+  );
+
+  const updateSelection = (task: CompletionTask, selection: ModelSelection) => {
+    completionClient.setTaskModel(task, selection);
+    setSelections(prev => ({ ...prev, [task]: selection }));
+  };
+
+  return (
+    <div className="mt-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+      >
+        {isOpen ? 'Hide model settings' : 'Model settings'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-100 space-y-3">
+          {COMPLETION_TASKS.map(({ task, label }) => (
+            <div key={task} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+              <span className="text-sm text-gray-700">{label}</span>
+              <select
+                value={selections[task].provider}
+                onChange={(e) => updateSelection(task, {
+                  provider: e.target.value,
+                  model: completionClient.getDefaultModel(e.target.value)
+                })}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              >
+                {completionClient.getProviderNames().map(provider => (
+                  <option key={provider} value={provider}>{provider}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={selections[task].model}
+                onChange={(e) => updateSelection(task, { ...selections[task], model: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
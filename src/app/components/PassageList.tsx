@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { Passage } from '@/lib/textProcessing';
+import { Passage, formatPageRange } from '@/lib/textProcessing';
 
 interface PassageListProps {
   passages: Passage[];
@@ -30,6 +30,7 @@ export default function PassageList({ passages, bookTitle }: PassageListProps) {
             <div className="flex justify-between mb-2">
               <h3 className="font-medium text-gray-900">Passage {index + 1}</h3>
               <span className="text-xs text-gray-500">
+                {formatPageRange(passage) && `${formatPageRange(passage)} · `}
                 Characters: {passage.end - passage.start}
               </span>
             </div>
@@ -0,0 +1,46 @@
+'use client';
+
+import { RunTotals } from '@/store/usageStore';
+import { formatCost, formatDuration } from '@/lib/usageSummary';
+
+interface RunEstimateTableProps {
+  estimate: RunTotals;
+  actual?: RunTotals;
+  isUpperBound?: boolean; // LLM calls and tokens are a ceiling rather than a count
+}
+
+const ROWS: { label: string, format: (totals: RunTotals) => string }[] = [
+  { label: 'Embedding requests', format: totals => totals.embeddingCalls.toLocaleString() },
+  { label: 'Tokens embedded', format: totals => Math.round(totals.embeddingTokens).toLocaleString() },
+  { label: 'LLM requests', format: totals => totals.llmCalls.toLocaleString() },
+  { label: 'Tokens in', format: totals => Math.round(totals.promptTokens).toLocaleString() },
+  { label: 'Tokens out', format: totals => Math.round(totals.completionTokens).toLocaleString() },
+  { label: 'Cost', format: totals => formatCost(totals.cost) },
+  { label: 'Time', format: totals => formatDuration(totals.durationMs) }
+];
+
+/**
+ * A comparison run's estimate, next to what it actually took once it has run
+ */
+export default function RunEstimateTable({ estimate, actual, isUpperBound = false }: RunEstimateTableProps) {
+  return (
+    <table className="w-full text-xs text-gray-700">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-normal py-1"></th>
+          <th className="font-normal py-1 text-right">{isUpperBound ? 'Estimate (at most)' : 'Estimate'}</th>
+          {actual && <th className="font-normal py-1 text-right">Actual</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {ROWS.map(({ label, format }) => (
+          <tr key={label} className="border-t border-gray-100">
+            <td className="py-1 pr-2">{label}</td>
+            <td className="py-1 text-right">{format(estimate)}</td>
+            {actual && <td className="py-1 text-right">{format(actual)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { SplitterOptions, DEFAULT_SPLITTER_OPTIONS } from '@/lib/textProcessing';
+
+interface SplitterSettingsProps {
+  options?: SplitterOptions;
+  onResplit: (options: SplitterOptions) => void;
+}
+
+const FIELDS: { key: keyof SplitterOptions, label: string }[] = [
+  { key: 'targetTokens', label: 'Target tokens' },
+  { key: 'maxTokens', label: 'Max tokens' },
+  { key: 'minTokens', label: 'Min tokens' },
+  { key: 'overlapTokens', label: 'Overlap tokens' }
+];
+
+export default function SplitterSettings({ options = DEFAULT_SPLITTER_OPTIONS, onResplit }: SplitterSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SplitterOptions>(options);
+
+  const isValid = draft.minTokens >= 0 &&
+    draft.overlapTokens >= 0 &&
+    draft.targetTokens > 0 &&
+    draft.maxTokens >= draft.targetTokens;
+
+  const handleResplit = () => {
+    if (!isValid) return;
+    if (!confirm('Re-splitting replaces all passages of this book. Existing comparisons will need to be run again. Continue?')) {
+      return;
+    }
+    onResplit(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => {
+          setDraft(options);
+          setIsOpen(!isOpen);
+        }}
+        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+      >
+        {isOpen ? 'Hide passage settings' : 'Passage settings'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-100">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {FIELDS.map(field => (
+              <label key={field.key} className="text-sm text-gray-700">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-gray-800"
+                />
+              </label>
+            ))}
+          </div>
+
+          {!isValid && (
+            <p className="mt-2 text-xs text-red-600">
+              Max tokens must be at least the target, and no value may be negative.
+            </p>
+          )}
+
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={handleResplit}
+              disabled={!isValid}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm rounded-md"
+            >
+              Re-split passages
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useUsageStore, BudgetPeriod } from '@/store/usageStore';
+import { useBookStore } from '@/store/bookStore';
+import { usageLedger, getPeriodStart, USAGE_FEATURES } from '@/services/usageLedger';
+import { summarizeByDay, summarizeByBook, summarizeByFeature, formatCost, formatDuration, toDayKey, UsageTotals } from '@/lib/usageSummary';
+
+// Days shown in the daily table
+const DAYS_SHOWN = 14;
+// Comparison runs listed with their estimates
+const RUNS_SHOWN = 5;
+
+/**
+ * Tokens, estimated cost and latency of AI calls per day, book and feature,
+ * with a spending cap that pauses jobs once it is reached
+ */
+export default function UsageDashboard() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { entries, runs, budget, setBudget, clearEntries } = useUsageStore();
+  const books = useBookStore(state => state.books);
+  const [pausedJobs, setPausedJobs] = useState(usageLedger.getPausedJobs());
+  const [limitDraft, setLimitDraft] = useState(budget.limit?.toString() ?? '');
+
+  useEffect(() => {
+    return usageLedger.subscribe(setPausedJobs);
+  }, []);
+
+  // The persisted budget loads after the first render
+  useEffect(() => {
+    setLimitDraft(budget.limit?.toString() ?? '');
+  }, [budget.limit]);
+
+  const periodStart = getPeriodStart(budget.period);
+  const periodSpend = useMemo(
+    () => entries.reduce((total, entry) => entry.timestamp >= periodStart ? total + entry.cost : total, 0),
+    [entries, periodStart]
+  );
+  const byDay = useMemo(() => {
+    const oldestDay = toDayKey(Date.now() - (DAYS_SHOWN - 1) * 24 * 60 * 60 * 1000);
+    return summarizeByDay(entries).filter(totals => totals.key >= oldestDay);
+  }, [entries]);
+  const byBook = useMemo(() => summarizeByBook(entries), [entries]);
+  const byFeature = useMemo(() => summarizeByFeature(entries), [entries]);
+
+  const bookTitle = (bookId: string) => {
+    if (!bookId) return 'No specific book';
+    return books.find(book => book.id === bookId)?.title || 'Deleted book';
+  };
+  const featureLabel = (feature: string) => USAGE_FEATURES.find(f => f.feature === feature)?.label || feature;
+
+  const handleSaveLimit = () => {
+    const limit = parseFloat(limitDraft);
+    setBudget({ limit: limitDraft.trim() && limit >= 0 ? limit : null });
+  };
+
+  const handleClear = () => {
+    if (confirm('Clear the usage history and comparison runs? The budget setting is kept.')) {
+      clearEntries();
+    }
+  };
+
+  const spentShare = budget.limit ? Math.min(1, periodSpend / budget.limit) : 0;
+
+  const renderTable = (title: string, rows: UsageTotals[], label: (key: string) => string) => (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-1">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500">No calls recorded yet.</p>
+      ) : (
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal py-1"></th>
+              <th className="font-normal py-1 text-right">Calls</th>
+              <th className="font-normal py-1 text-right">Tokens in</th>
+              <th className="font-normal py-1 text-right">Tokens out</th>
+              <th className="font-normal py-1 text-right">Avg. latency</th>
+              <th className="font-normal py-1 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-gray-100">
+                <td className="py-1 pr-2 truncate max-w-[12rem]">{label(row.key)}</td>
+                <td className="py-1 text-right">{row.calls}</td>
+                <td className="py-1 text-right">{Math.round(row.promptTokens).toLocaleString()}</td>
+                <td className="py-1 text-right">{Math.round(row.completionTokens).toLocaleString()}</td>
+                <td className="py-1 text-right">{(row.latencyMs / row.calls / 1000).toFixed(1)}s</td>
+                <td className="py-1 text-right">{formatCost(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+      >
+        {isOpen ? 'Hide usage' : 'Usage and budget'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-100 space-y-4">
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-700">Budget</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={limitDraft}
+                onChange={(e) => setLimitDraft(e.target.value)}
+                placeholder="No cap"
+                className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              />
+              <select
+                value={budget.period}
+                onChange={(e) => setBudget({ period: e.target.value as BudgetPeriod })}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-800"
+              >
+                <option value="day">per day</option>
+                <option value="month">per month</option>
+              </select>
+              <button
+                onClick={handleSaveLimit}
+                className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-sm text-gray-700">
+              {formatCost(periodSpend)} spent this {budget.period}
+              {budget.limit !== null && ` of ${formatCost(budget.limit)}`}
+            </p>
+            {budget.limit !== null && (
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${spentShare >= 1 ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${spentShare * 100}%` }}
+                />
+              </div>
+            )}
+            {pausedJobs > 0 && (
+              <p className="text-sm text-amber-700">
+                {pausedJobs} {pausedJobs === 1 ? 'request is' : 'requests are'} paused until the budget is raised or the next {budget.period} starts.
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Costs are estimated from list prices; calls to free and local models count as $0.
+            </p>
+          </div>
+
+          {renderTable(`Last ${DAYS_SHOWN} days`, byDay, key => key)}
+          {renderTable('By book', byBook, bookTitle)}
+          {renderTable('By feature', byFeature, featureLabel)}
+
+          {runs.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">Recent comparison runs</h4>
+              <table className="w-full text-xs text-gray-700">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-normal py-1"></th>
+                    <th className="font-normal py-1 text-right">LLM requests</th>
+                    <th className="font-normal py-1 text-right">Cost</th>
+                    <th className="font-normal py-1 text-right">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.slice(-RUNS_SHOWN).reverse().map(run => (
+                    <tr key={run.id} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 truncate max-w-[16rem]">
+                        {run.bookIds.map(bookTitle).join(' → ')}
+                        <span className="text-gray-500"> ({run.kind === 'analyzeFullBooks' ? 'full books' : 'all passages'})</span>
+                      </td>
+                      <td className="py-1 text-right">{run.estimate.llmCalls} est. / {run.actual?.llmCalls ?? '–'}</td>
+                      <td className="py-1 text-right">{formatCost(run.estimate.cost)} est. / {run.actual ? formatCost(run.actual.cost) : '–'}</td>
+                      <td className="py-1 text-right">
+                        {formatDuration(run.estimate.durationMs)} est. / {run.actual ? formatDuration(run.actual.durationMs) : '–'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Clear usage history
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
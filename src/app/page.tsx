@@ -5,70 +5,40 @@ import FileUpload from './components/FileUpload';
 import BookList from './components/BookList';
 import PassageList from './components/PassageList';
 import AutoComparisonProgress from './components/AutoComparisonProgress';
-import { processTextFile } from '@/lib/textProcessing';
+import SplitterSettings from './components/SplitterSettings';
+import EmbeddingStatus from './components/EmbeddingStatus';
+import ModelSettings from './components/ModelSettings';
+import ApiKeySettings from './components/ApiKeySettings';
+import UsageDashboard from './components/UsageDashboard';
+import LibraryChat from './components/LibraryChat';
+import { Book, SplitterOptions } from '@/lib/textProcessing';
 import { useBookStore } from '@/store/bookStore';
 import { autoComparisonService } from '@/services/autoComparisonService';
 
-// Default API keys
-const DEFAULT_LLAMA_API_KEY = process.env.NEXT_PUBLIC_LLAMA_API_KEY || "LLM|24233636562905000|uj_EryBhhQK5JGIkJYaXt0_T2eY";
-const DEFAULT_OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
-
 export default function Home() {
-  const { addBook, getBook, getPassages } = useBookStore();
+  const { books, addBook, getBook, getPassages, loadBook, resplitBook } = useBookStore();
   const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
-  const [apiKeys, setApiKeys] = useState({
-    llamaApiKey: DEFAULT_LLAMA_API_KEY,
-    openaiApiKey: DEFAULT_OPENAI_API_KEY,
-  });
 
-  // Initialize auto comparison service with API keys
+  // Use a fixed 50% threshold for automatic comparisons
   useEffect(() => {
-    // Try to load API keys from localStorage
-    const savedLlamaKey = localStorage.getItem('llamaApiKey');
-    const savedOpenAiKey = localStorage.getItem('openaiApiKey');
-    
-    if (savedLlamaKey && savedOpenAiKey) {
-      setApiKeys({
-        llamaApiKey: savedLlamaKey,
-        openaiApiKey: savedOpenAiKey,
-      });
-      
-      // Initialize auto comparison service with API keys and fixed 50% threshold
-      autoComparisonService.setApiKeys(savedLlamaKey, savedOpenAiKey);
-      autoComparisonService.setAutoSimilarityThreshold(0.5);
-    }
+    autoComparisonService.setAutoSimilarityThreshold(0.5);
   }, []);
 
-  // Save API keys when they change
-  useEffect(() => {
-    localStorage.setItem('llamaApiKey', apiKeys.llamaApiKey);
-    localStorage.setItem('openaiApiKey', apiKeys.openaiApiKey);
-    
-    // Update the auto comparison service
-    autoComparisonService.setApiKeys(apiKeys.llamaApiKey, apiKeys.openaiApiKey);
-  }, [apiKeys]);
-
-  const handleFileProcess = async (text: string, fileName: string) => {
+  const handleBookProcess = async (book: Book) => {
     setProcessing(true);
     
     try {
-      // Process the text file into a book with passages
-      const book = processTextFile(text, fileName);
-      
       // Add the book to our store
-      addBook(book);
+      await addBook(book);
       
       // Select the newly added book
       setSelectedBookId(book.id);
       
       // Start automatic comparison with existing books
-      if (apiKeys.openaiApiKey) {
+      if (autoComparisonService.isConfigured()) {
         console.log('Starting automatic comparison for new book:', book.title);
-        autoComparisonService.compareWithAllBooks(book)
-          .catch(error => {
-            console.error('Error during automatic comparison:', error);
-          });
+        autoComparisonService.compareWithAllBooks(book);
       }
     } catch (err) {
       console.error('Error processing file:', err);
@@ -78,11 +48,23 @@ export default function Home() {
     }
   };
 
+  const handleResplit = async (bookId: string, options: SplitterOptions) => {
+    await resplitBook(bookId, options);
+  };
+
   const handleSelectBook = (bookId: string) => {
     setSelectedBookId(bookId);
   };
 
+  // Load the selected book's text and passages
+  useEffect(() => {
+    if (selectedBookId) {
+      loadBook(selectedBookId);
+    }
+  }, [selectedBookId, loadBook]);
+
   const selectedBook = selectedBookId ? getBook(selectedBookId) : null;
+  const isLoadingBook = !!selectedBookId && !selectedBook && books.some(book => book.id === selectedBookId);
   const passages = selectedBookId ? getPassages(selectedBookId) : [];
 
   return (
@@ -104,7 +86,7 @@ export default function Home() {
 
       <div className="mb-12 bg-white p-8 rounded-lg shadow-sm border border-gray-200">
         <h2 className="text-xl font-semibold mb-4 text-gray-800">Upload a Book</h2>
-        <FileUpload onFileProcess={handleFileProcess} />
+        <FileUpload onBookProcess={handleBookProcess} />
         {processing && (
           <div className="mt-4 text-center text-blue-600 flex items-center justify-center">
             <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-blue-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -114,6 +96,9 @@ export default function Home() {
             Processing your book... This may take a moment.
           </div>
         )}
+        <ModelSettings />
+        <ApiKeySettings />
+        <UsageDashboard />
       </div>
 
       {selectedBook ? (
@@ -133,6 +118,9 @@ export default function Home() {
           
           <div className="bg-gray-50 p-5 rounded-lg mb-6 border border-gray-100">
             <h3 className="font-medium text-lg text-gray-800">{selectedBook.title}</h3>
+            {selectedBook.author && (
+              <p className="text-sm text-gray-600">by {selectedBook.author}</p>
+            )}
             <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-4">
               <p className="text-sm text-gray-600 flex items-center">
                 <svg className="w-4 h-4 mr-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -155,13 +143,26 @@ export default function Home() {
             </div>
           </div>
           
+          <SplitterSettings
+            key={selectedBook.id}
+            options={selectedBook.splitterOptions}
+            onResplit={(options) => handleResplit(selectedBook.id, options)}
+          />
+          
+          <EmbeddingStatus book={selectedBook} />
+          
           <PassageList 
             passages={passages} 
             bookTitle={selectedBook.title} 
           />
         </div>
+      ) : isLoadingBook ? (
+        <div className="mb-8 text-center text-gray-500">Loading book...</div>
       ) : (
-        <BookList onSelectBook={handleSelectBook} />
+        <>
+          <LibraryChat />
+          <BookList onSelectBook={handleSelectBook} />
+        </>
       )}
       
       {/* Progress component for auto-comparison */}
@@ -86,7 +86,7 @@ export default function ReaderPage() {
                   </div>
                   <div className="p-4 flex-1 text-left">
                     <h3 className="font-medium text-lg text-gray-800 mb-1">{book.title}</h3>
-                    <p className="text-sm text-gray-600">{book.passages.length} passages</p>
+                    <p className="text-sm text-gray-600">{book.passageCount} passages</p>
                   </div>
                 </button>
               ))}
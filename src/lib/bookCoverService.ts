@@ -4,23 +4,6 @@ interface CacheEntry {
   timestamp: number;
 }
 
-interface OpenLibraryResponse {
-  docs?: {
-    cover_i?: number;
-    title?: string;
-  }[];
-}
-
-interface GoogleBooksResponse {
-  items?: {
-    volumeInfo?: {
-      imageLinks?: {
-        thumbnail?: string;
-      };
-    };
-  }[];
-}
-
 // Cache implementation - using both memory and localStorage
 const coverCache = new Map<string, CacheEntry>();
 const CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days cache duration
@@ -67,49 +50,16 @@ function initCacheFromStorage() {
 // Initialize cache on module load
 initCacheFromStorage();
 
-// Try Open Library API
-async function tryOpenLibrary(bookTitle: string): Promise<string | null> {
+// Look the cover up through the app's covers route
+async function fetchCoverUrl(bookTitle: string): Promise<string | null> {
   try {
-    const query = encodeURIComponent(bookTitle);
-    const searchUrl = `https://openlibrary.org/search.json?q=${query}&limit=1`;
-    
-    const response = await fetch(searchUrl);
+    const response = await fetch(`/api/covers?title=${encodeURIComponent(bookTitle)}`);
     if (!response.ok) return null;
     
-    const data: OpenLibraryResponse = await response.json();
-    
-    if (data.docs && data.docs.length > 0) {
-      const book = data.docs[0];
-      if (book.cover_i) {
-        return `https://covers.openlibrary.org/b/id/${book.cover_i}-L.jpg`;
-      }
-    }
-    return null;
+    const data: { url: string | null } = await response.json();
+    return data.url;
   } catch (error) {
-    console.error('Open Library API error:', error);
-    return null;
-  }
-}
-
-// Try Google Books API
-async function tryGoogleBooks(bookTitle: string): Promise<string | null> {
-  try {
-    const query = encodeURIComponent(bookTitle);
-    const url = `https://www.googleapis.com/books/v1/volumes?q=${query}&maxResults=1`;
-    
-    const response = await fetch(url);
-    if (!response.ok) return null;
-    
-    const data: GoogleBooksResponse = await response.json();
-    
-    if (data.items?.[0]?.volumeInfo?.imageLinks?.thumbnail) {
-      return data.items[0].volumeInfo.imageLinks.thumbnail
-        .replace('http://', 'https://')
-        .replace('zoom=1', 'zoom=3');
-    }
-    return null;
-  } catch (error) {
-    console.error('Google Books API error:', error);
+    console.error('Cover lookup error:', error);
     return null;
   }
 }
@@ -152,26 +102,13 @@ export async function getBookCoverUrl(bookTitle: string): Promise<string | null>
     }
   }
   
-  // Try Open Library first
-  const openLibraryCover = await tryOpenLibrary(normalizedTitle);
-  if (openLibraryCover) {
-    const cacheEntry = {
-      url: openLibraryCover,
-      timestamp: Date.now()
-    };
-    coverCache.set(normalizedTitle, cacheEntry);
-    saveCacheToStorage(normalizedTitle, cacheEntry);
-    return openLibraryCover;
-  }
-  
-  // Try Google Books as fallback
-  const googleBooksCover = await tryGoogleBooks(normalizedTitle);
+  const coverUrl = await fetchCoverUrl(normalizedTitle);
   const cacheEntry = {
-    url: googleBooksCover,
+    url: coverUrl,
     timestamp: Date.now()
   };
   coverCache.set(normalizedTitle, cacheEntry);
   saveCacheToStorage(normalizedTitle, cacheEntry);
   
-  return googleBooksCover;
-} 
\ No newline at end of file
+  return coverUrl;
+}
\ No newline at end of file
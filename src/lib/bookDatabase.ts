@@ -0,0 +1,332 @@
+import { StateStorage } from 'zustand/middleware';
+import { Book, BookMetadata, Passage } from './textProcessing';
+import { LexicalIndex, buildLexicalIndex } from './lexicalIndex';
+
+const DB_NAME = 'bookbond';
+const DB_VERSION = 6;
+
+/**
+ * Object stores in the database. Books are split into metadata, raw text and
+ * passages so the library list can load without reading every book's full text.
+ */
+export const STORES = {
+  books: 'books', // bookId -> BookMetadata
+  rawText: 'rawText', // bookId -> string
+  passages: 'passages', // bookId -> Passage[]
+  lexicalIndexes: 'lexicalIndexes', // bookId -> LexicalIndex
+  summaries: 'summaries', // persisted concept store state
+  comparisons: 'comparisons', // persisted comparison store state
+  chats: 'chats', // persisted chat store state
+  usage: 'usage', // persisted usage ledger
+  jobs: 'jobs', // persisted job queue
+  vectors: 'vectors' // `${namespace}|${passageId}` -> StoredVector
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * An embedding of one passage, stored as raw float32 data
+ */
+export interface StoredVector {
+  passageId: string;
+  bookId: string;
+  namespace: string; // Identifies the provider, model and dimension the vector came from
+  vector: Float32Array;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Set in the job worker, which reads persisted store state but leaves writing it to the page
+let persistedStateReadOnly = false;
+
+/**
+ * Stop persisted stores from saving their state in this context
+ */
+export const setPersistedStateReadOnly = (readOnly: boolean) => {
+  persistedStateReadOnly = readOnly;
+};
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolve once a transaction has committed
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Load a book's lexical index. Books saved before indexes existed get one built now.
+ */
+export const loadLexicalIndex = async (bookId: string): Promise<LexicalIndex | undefined> => {
+  const stored = await getItem<LexicalIndex>(STORES.lexicalIndexes, bookId);
+  if (stored) return stored;
+  
+  const passages = await getItem<Passage[]>(STORES.passages, bookId);
+  if (!passages) return undefined;
+  
+  const lexicalIndex = buildLexicalIndex(passages);
+  await setItem(STORES.lexicalIndexes, bookId, lexicalIndex);
+  return lexicalIndex;
+};
+
+/**
+ * Vectors are keyed by namespace and passage ID. Passage IDs start with their
+ * book's ID, so one book's vectors in a namespace form a contiguous key range.
+ */
+const vectorKey = (namespace: string, passageId: string): string => `${namespace}|${passageId}`;
+
+/**
+ * Version 1 namespaced vectors by model name alone. They all came from OpenAI,
+ * so move them to the "provider:model:dimension" namespace.
+ */
+const migrateVectorNamespaces = (store: IDBObjectStore): void => {
+  const request = store.openCursor();
+  
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    
+    const vector = cursor.value as StoredVector;
+    if (!vector.namespace.includes(':')) {
+      const namespace = `openai:${vector.namespace}:${vector.vector.length}`;
+      store.put({ ...vector, namespace }, vectorKey(namespace, vector.passageId));
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+};
+
+/**
+ * Open the database, creating the object stores on first use
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        Object.values(STORES).forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        });
+        
+        if (event.oldVersion === 1 && request.transaction) {
+          migrateVectorNamespaces(request.transaction.objectStore(STORES.vectors));
+        }
+      };
+      
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  
+  return dbPromise;
+};
+
+/**
+ * Read a single value
+ */
+export const getItem = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+};
+
+/**
+ * Write a single value
+ */
+export const setItem = async (storeName: StoreName, key: IDBValidKey, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).put(value, key);
+  return transactionDone(transaction);
+};
+
+/**
+ * Delete a single value
+ */
+export const removeItem = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).delete(key);
+  return transactionDone(transaction);
+};
+
+/**
+ * Read the metadata of every stored book
+ */
+export const getAllBookMetadata = async (): Promise<BookMetadata[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.books, 'readonly').objectStore(STORES.books);
+  return promisifyRequest(store.getAll() as IDBRequest<BookMetadata[]>);
+};
+
+/**
+ * Split a book into the records stored for it
+ */
+export const toBookMetadata = (book: Book): BookMetadata => {
+  const metadata: BookMetadata & Partial<Book> = { ...book, passageCount: book.passages.length };
+  delete metadata.rawContent;
+  delete metadata.passages;
+  return metadata;
+};
+
+/**
+ * Load a full book: metadata, raw text and passages
+ */
+export const loadBook = async (bookId: string): Promise<Book | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.books, STORES.rawText, STORES.passages], 'readonly');
+  
+  const [metadata, rawContent, passages] = await Promise.all([
+    promisifyRequest(transaction.objectStore(STORES.books).get(bookId) as IDBRequest<BookMetadata | undefined>),
+    promisifyRequest(transaction.objectStore(STORES.rawText).get(bookId) as IDBRequest<string | undefined>),
+    promisifyRequest(transaction.objectStore(STORES.passages).get(bookId) as IDBRequest<Passage[] | undefined>)
+  ]);
+  
+  if (!metadata) return undefined;
+  
+  const book: Book & Partial<BookMetadata> = { ...metadata, rawContent: rawContent ?? '', passages: passages ?? [] };
+  delete book.passageCount;
+  return book;
+};
+
+/**
+ * Save a full book in a single transaction, along with a fresh lexical index of its passages
+ */
+export const saveBook = async (book: Book): Promise<void> => {
+  const lexicalIndex = buildLexicalIndex(book.passages);
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.books, STORES.rawText, STORES.passages, STORES.lexicalIndexes], 'readwrite');
+  
+  transaction.objectStore(STORES.books).put(toBookMetadata(book), book.id);
+  transaction.objectStore(STORES.rawText).put(book.rawContent, book.id);
+  transaction.objectStore(STORES.passages).put(book.passages, book.id);
+  transaction.objectStore(STORES.lexicalIndexes).put(lexicalIndex, book.id);
+  
+  return transactionDone(transaction);
+};
+
+/**
+ * Delete a book with its text, passages and lexical index, and any vectors stored for it locally
+ */
+export const deleteBook = async (bookId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.books, STORES.rawText, STORES.passages, STORES.lexicalIndexes], 'readwrite');
+  
+  transaction.objectStore(STORES.books).delete(bookId);
+  transaction.objectStore(STORES.rawText).delete(bookId);
+  transaction.objectStore(STORES.passages).delete(bookId);
+  transaction.objectStore(STORES.lexicalIndexes).delete(bookId);
+  
+  await transactionDone(transaction);
+  await deleteVectors(vector => vector.bookId === bookId);
+};
+
+/**
+ * Save passage embeddings
+ */
+export const saveVectors = async (vectors: StoredVector[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vectors, 'readwrite');
+  const store = transaction.objectStore(STORES.vectors);
+  
+  vectors.forEach(vector => store.put(vector, vectorKey(vector.namespace, vector.passageId)));
+  
+  return transactionDone(transaction);
+};
+
+/**
+ * Read the stored embeddings in a namespace, optionally only those of one book
+ */
+export const getVectors = async (namespace: string, bookId?: string): Promise<StoredVector[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.vectors, 'readonly').objectStore(STORES.vectors);
+  const prefix = bookId ? vectorKey(namespace, `${bookId}-`) : vectorKey(namespace, '');
+  const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  return promisifyRequest(store.getAll(range) as IDBRequest<StoredVector[]>);
+};
+
+/**
+ * Read the stored embeddings of specific passages; passages without one are left out
+ */
+export const getVectorsById = async (namespace: string, passageIds: string[]): Promise<StoredVector[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.vectors, 'readonly').objectStore(STORES.vectors);
+  const vectors = await Promise.all(passageIds.map(passageId =>
+    promisifyRequest(store.get(vectorKey(namespace, passageId)) as IDBRequest<StoredVector | undefined>)
+  ));
+  return vectors.filter((vector): vector is StoredVector => vector !== undefined);
+};
+
+/**
+ * Delete the stored embeddings that match a condition, in any namespace
+ */
+export const deleteVectors = async (shouldDelete: (vector: StoredVector) => boolean): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.vectors, 'readwrite');
+  const request = transaction.objectStore(STORES.vectors).openCursor();
+  
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (shouldDelete(cursor.value as StoredVector)) {
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+  
+  return transactionDone(transaction);
+};
+
+/**
+ * Storage for zustand's persist middleware, keeping each store's state in an
+ * IndexedDB object store. State still in localStorage from older versions is
+ * read once and removed after the first write.
+ */
+export const createIndexedDbStorage = (storeName: StoreName): StateStorage => ({
+  getItem: async (name) => {
+    try {
+      const value = await getItem<string>(storeName, name);
+      if (value !== undefined) return value;
+    } catch (error) {
+      console.error(`Error reading ${name} from IndexedDB:`, error);
+    }
+    // Workers have no localStorage
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(name) : null;
+  },
+  
+  setItem: async (name, value) => {
+    if (persistedStateReadOnly) return;
+    await setItem(storeName, name, value);
+    localStorage.removeItem(name);
+  },
+  
+  removeItem: async (name) => {
+    if (persistedStateReadOnly) return;
+    await removeItem(storeName, name);
+    localStorage.removeItem(name);
+  }
+});
@@ -0,0 +1,42 @@
+/**
+ * Chat answers cite passages by ID in square brackets, e.g. [book-1a2b3c-1200-1850]
+ */
+const CITATION_PATTERN = /\[(book-[^\]\s]+)\]/g;
+
+/**
+ * A piece of an answer: plain text or a citation of a passage
+ */
+export type AnswerSegment = { text: string } | { passageId: string };
+
+/**
+ * The known passage IDs an answer cites, in order of first mention
+ */
+export const extractCitations = (content: string, knownIds: Set<string>): string[] => {
+  const cited = Array.from(content.matchAll(CITATION_PATTERN), match => match[1]);
+  return Array.from(new Set(cited.filter(id => knownIds.has(id))));
+};
+
+/**
+ * Split an answer into text and citations, so citations can be rendered as links.
+ * Bracketed IDs that aren't known passages stay as text.
+ */
+export const splitCitations = (content: string, knownIds: Set<string>): AnswerSegment[] => {
+  const segments: AnswerSegment[] = [];
+  let lastIndex = 0;
+  
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    if (!knownIds.has(match[1])) continue;
+    
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, index) });
+    }
+    segments.push({ passageId: match[1] });
+    lastIndex = index + match[0].length;
+  }
+  
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex) });
+  }
+  return segments;
+};
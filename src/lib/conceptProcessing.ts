@@ -1,4 +1,5 @@
 import { Passage } from './textProcessing';
+import { Schema } from './structuredOutput';
 
 /**
  * Types for concept modeling
@@ -26,17 +27,31 @@ export interface ConceptRelation {
 }
 
 /**
- * Interface for raw LLM response items
+ * A passage analysis item as the LLM returns it
  */
-interface LLMResponseItem {
+export interface LLMPassageAnalysis {
   passageId: string;
   summary: string;
   concepts: string[];
   keyPoints: string[];
   potentialRelations?: string;
-  [key: string]: any; // Allow for additional properties
 }
 
+/**
+ * Schema each item of a passage analysis response must match
+ */
+export const PASSAGE_ANALYSIS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    passageId: { type: 'string', minLength: 1 },
+    summary: { type: 'string', minLength: 1 },
+    concepts: { type: 'array', items: { type: 'string' } },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+    potentialRelations: { type: 'string' }
+  },
+  required: ['passageId', 'summary', 'concepts', 'keyPoints']
+};
+
 /**
  * Formats passages for LLM processing
  */
@@ -87,136 +102,14 @@ function stripMarkdownCodeBlocks(text: string): string {
 }
 
 /**
- * Parses LLM response into structured passage summaries
+ * Convert a validated LLM analysis item into a passage summary
  */
-export function parsePassageSummariesFromLLM(llmResponse: string): PassageSummary[] {
-  console.log('===== PARSING LLM RESPONSE =====');
-  console.log('Response length:', llmResponse.length, 'characters');
-  
-  // First, check if the response is wrapped in markdown code blocks
-  const markdownMatch = llmResponse.match(/```(?:json)?\s+([\s\S]+?)\s+```/);
-  if (markdownMatch) {
-    console.log('Detected markdown code blocks in the response');
-    // Extract the content inside the code blocks
-    llmResponse = markdownMatch[1];
-    console.log('Extracted code block content of length:', llmResponse.length);
-  } else {
-    console.log('No markdown code blocks detected');
-  }
-  
-  try {
-    console.log('Attempting to parse response as JSON...');
-    // Try to parse the response as JSON
-    const parsedData = JSON.parse(llmResponse);
-    
-    if (Array.isArray(parsedData)) {
-      console.log('Success! Response is a valid JSON array with', parsedData.length, 'items');
-      
-      // Map to our internal structure
-      const result = parsedData.map((item: LLMResponseItem) => {
-        console.log('Processing item with passageId:', item.passageId);
-        console.log('Item has summary:', !!item.summary);
-        console.log('Item has concepts:', Array.isArray(item.concepts) ? item.concepts.length : 'not an array');
-        console.log('Item has keyPoints:', Array.isArray(item.keyPoints) ? item.keyPoints.length : 'not an array');
-        
-        return {
-          passageId: item.passageId,
-          bookId: '', // This will need to be filled in from the original passage data
-          summary: item.summary,
-          concepts: item.concepts || [], // Ensure concepts is always an array
-          keyPoints: item.keyPoints || []
-        };
-      });
-      
-      console.log('Successfully mapped', result.length, 'passages');
-      return result;
-    } else {
-      console.warn('Parsed data is not an array, but a', typeof parsedData);
-    }
-  } catch (error: any) {
-    console.error('Failed to parse response as JSON:', error.message);
-    
-    // Try more aggressive extraction methods
-    
-    // Method 1: Try to find anything that looks like a JSON array
-    const arrayMatch = llmResponse.match(/\[\s*\{[\s\S]*\}\s*\]/);
-    if (arrayMatch) {
-      console.log('Found potential JSON array');
-      try {
-        const extractedJson = arrayMatch[0];
-        console.log('Extracted JSON array of length:', extractedJson.length);
-        
-        const parsedData = JSON.parse(extractedJson);
-        console.log('Successfully parsed extracted JSON array');
-        
-        if (Array.isArray(parsedData)) {
-          console.log('Extracted JSON is an array with', parsedData.length, 'items');
-          
-          const result = parsedData.map((item: LLMResponseItem) => {
-            // Log details about each item
-            console.log('Extracted item with passageId:', item.passageId);
-            
-            return {
-              passageId: item.passageId,
-              bookId: '',
-              summary: item.summary,
-              concepts: item.concepts || [],
-              keyPoints: item.keyPoints || []
-            };
-          });
-          
-          console.log('Successfully mapped', result.length, 'passages from extracted JSON');
-          return result;
-        }
-      } catch (e: any) {
-        console.error('Failed to parse extracted JSON array:', e.message);
-      }
-    }
-    
-    // Method 2: Try a more lenient approach to find individual JSON objects
-    console.log('Attempting to extract individual JSON objects...');
-    const objectMatches = Array.from(llmResponse.matchAll(/\{\s*"passageId"\s*:\s*"([^"]+)"[\s\S]*?\}/g));
-    
-    if (objectMatches.length > 0) {
-      console.log('Found', objectMatches.length, 'potential JSON objects');
-      
-      const results: PassageSummary[] = [];
-      
-      for (const match of objectMatches) {
-        try {
-          const objectStr = match[0];
-          console.log('Processing object:', objectStr.substring(0, 50) + '...');
-          
-          // Try to parse each object
-          const item = JSON.parse(objectStr);
-          
-          results.push({
-            passageId: item.passageId,
-            bookId: '',
-            summary: item.summary || '',
-            concepts: item.concepts || [],
-            keyPoints: item.keyPoints || []
-          });
-          
-          console.log('Successfully parsed object for passage:', item.passageId);
-        } catch (e: any) {
-          console.error('Failed to parse individual object:', e.message);
-        }
-      }
-      
-      if (results.length > 0) {
-        console.log('Successfully extracted', results.length, 'passages using regex');
-        return results;
-      }
-    }
-    
-    // If we're still here, show the full response for debugging
-    console.log('All parsing methods failed. Full response:');
-    console.log(llmResponse);
-  }
-  
-  console.warn('All parsing attempts failed, returning empty array');
-  console.log('================================');
-  // Return empty array if all parsing attempts fail
-  return [];
-} 
\ No newline at end of file
+export function toPassageSummary(item: LLMPassageAnalysis, bookId: string = ''): PassageSummary {
+  return {
+    passageId: item.passageId,
+    bookId,
+    summary: item.summary,
+    concepts: item.concepts,
+    keyPoints: item.keyPoints
+  };
+}
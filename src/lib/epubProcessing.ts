@@ -0,0 +1,306 @@
+import JSZip from 'jszip';
+import {
+  Book,
+  BookChapter,
+  Passage,
+  SplitterOptions,
+  DEFAULT_SPLITTER_OPTIONS,
+  createBookId,
+  createChapterId,
+  extractTitleFromFileName,
+  splitChaptersIntoPassages
+} from './textProcessing';
+
+/**
+ * Metadata read from the OPF package document
+ */
+interface EpubMetadata {
+  title: string;
+  author?: string;
+}
+
+/**
+ * A spine entry resolved to its text content
+ */
+interface EpubChapter {
+  href: string;
+  title?: string;
+  text: string;
+}
+
+// Elements that start a new paragraph when flattening XHTML to text
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'blockquote',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol', 'pre', 'table', 'tr',
+  'figure', 'figcaption', 'hr', 'br', 'dt', 'dd'
+]);
+
+// Elements whose content should never end up in the book text
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'head', 'title', 'nav']);
+
+/**
+ * Parse an XML document, throwing if the parser reports an error
+ */
+const parseXml = (xml: string, source: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${source}`);
+  }
+  return doc;
+};
+
+/**
+ * Resolve an href relative to the directory of the file that references it
+ */
+const resolvePath = (baseDir: string, href: string): string => {
+  const segments = (baseDir ? `${baseDir}/${href}` : href).split('/');
+  const resolved: string[] = [];
+
+  for (const segment of segments) {
+    if (segment === '..') {
+      resolved.pop();
+    } else if (segment && segment !== '.') {
+      resolved.push(segment);
+    }
+  }
+
+  return decodeURIComponent(resolved.join('/'));
+};
+
+/**
+ * Read a file from the archive as text
+ */
+const readZipText = async (zip: JSZip, path: string): Promise<string> => {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing file in EPUB archive: ${path}`);
+  }
+  return file.async('string');
+};
+
+/**
+ * Get the text of the first element with the given local name in any namespace
+ */
+const getFirstText = (doc: Document, localName: string): string | undefined => {
+  const element = doc.getElementsByTagNameNS('*', localName)[0];
+  const text = element?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+/**
+ * Flatten an XHTML document to plain text, keeping one paragraph per block element
+ */
+export const extractTextFromXhtml = (xhtml: string): string => {
+  let doc = new DOMParser().parseFromString(xhtml, 'application/xhtml+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    // Many EPUBs ship sloppy XHTML, so fall back to the forgiving HTML parser
+    doc = new DOMParser().parseFromString(xhtml, 'text/html');
+  }
+
+  const paragraphs: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const paragraph = current.replace(/\s+/g, ' ').trim();
+    if (paragraph) {
+      paragraphs.push(paragraph);
+    }
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      current += node.textContent || '';
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tagName = (node as Element).localName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tagName)) return;
+
+    const isBlock = BLOCK_ELEMENTS.has(tagName);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  const body = doc.getElementsByTagName('body')[0] || doc.documentElement;
+  walk(body);
+  flush();
+
+  return paragraphs.join('\n\n');
+};
+
+/**
+ * Locate the OPF package document via META-INF/container.xml
+ */
+const findPackagePath = async (zip: JSZip): Promise<string> => {
+  const containerXml = await readZipText(zip, 'META-INF/container.xml');
+  const container = parseXml(containerXml, 'META-INF/container.xml');
+  const rootfile = container.getElementsByTagNameNS('*', 'rootfile')[0];
+  const fullPath = rootfile?.getAttribute('full-path');
+
+  if (!fullPath) {
+    throw new Error('EPUB container does not reference a package document');
+  }
+
+  return fullPath;
+};
+
+/**
+ * Read chapter titles from the table of contents, keyed by document path.
+ * Uses the EPUB 3 navigation document, falling back to the EPUB 2 NCX.
+ */
+const readTocLabels = async (
+  zip: JSZip,
+  opf: Document,
+  manifest: Map<string, { href: string, mediaType: string, properties: string }>
+): Promise<Map<string, string>> => {
+  const labels = new Map<string, string>();
+  const addLabel = (baseDir: string, href: string | null, label: string | null | undefined) => {
+    const text = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !text) return;
+    const path = resolvePath(baseDir, href.split('#')[0]);
+    if (!labels.has(path)) {
+      labels.set(path, text);
+    }
+  };
+  const dirOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+  try {
+    const navItem = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'));
+    if (navItem) {
+      const nav = new DOMParser().parseFromString(await readZipText(zip, navItem.href), 'application/xhtml+xml');
+      Array.from(nav.getElementsByTagNameNS('*', 'a')).forEach(link => {
+        addLabel(dirOf(navItem.href), link.getAttribute('href'), link.textContent);
+      });
+      return labels;
+    }
+
+    const ncxId = opf.getElementsByTagNameNS('*', 'spine')[0]?.getAttribute('toc');
+    const ncxItem = ncxId ? manifest.get(ncxId) : undefined;
+    if (ncxItem) {
+      const ncx = parseXml(await readZipText(zip, ncxItem.href), ncxItem.href);
+      Array.from(ncx.getElementsByTagNameNS('*', 'navPoint')).forEach(navPoint => {
+        const label = navPoint.getElementsByTagNameNS('*', 'text')[0]?.textContent;
+        const src = navPoint.getElementsByTagNameNS('*', 'content')[0]?.getAttribute('src') ?? null;
+        addLabel(dirOf(ncxItem.href), src, label);
+      });
+    }
+  } catch (error) {
+    // A broken table of contents shouldn't prevent importing the book
+    console.warn('Could not read EPUB table of contents:', error);
+  }
+
+  return labels;
+};
+
+/**
+ * Read the metadata and spine-ordered chapters from an EPUB archive
+ */
+const readEpub = async (data: ArrayBuffer): Promise<{ metadata: EpubMetadata, chapters: EpubChapter[] }> => {
+  const zip = await JSZip.loadAsync(data);
+  const packagePath = await findPackagePath(zip);
+  const packageDir = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/')) : '';
+  const opf = parseXml(await readZipText(zip, packagePath), packagePath);
+
+  const metadata: EpubMetadata = {
+    title: getFirstText(opf, 'title') || '',
+    author: getFirstText(opf, 'creator')
+  };
+
+  // Map manifest IDs to archive paths
+  const manifest = new Map<string, { href: string, mediaType: string, properties: string }>();
+  Array.from(opf.getElementsByTagNameNS('*', 'item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, {
+        href: resolvePath(packageDir, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || ''
+      });
+    }
+  });
+
+  const tocLabels = await readTocLabels(zip, opf, manifest);
+  const chapters: EpubChapter[] = [];
+  const itemrefs = Array.from(opf.getElementsByTagNameNS('*', 'itemref'));
+
+  for (const itemref of itemrefs) {
+    // Non-linear items (footnotes, pop-ups) are not part of the reading order
+    if (itemref.getAttribute('linear') === 'no') continue;
+
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || !/html|xml/.test(item.mediaType)) continue;
+
+    const text = extractTextFromXhtml(await readZipText(zip, item.href));
+    if (text) {
+      chapters.push({ href: item.href, title: tocLabels.get(item.href), text });
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('No readable chapters found in EPUB spine');
+  }
+
+  return { metadata, chapters };
+};
+
+/**
+ * Pick a title for a spine document without a table-of-contents entry
+ */
+const fallbackChapterTitle = (chapter: EpubChapter, index: number): string => {
+  const firstParagraph = chapter.text.split('\n\n')[0];
+  return firstParagraph.length <= 100 ? firstParagraph : `Section ${index + 1}`;
+};
+
+/**
+ * Process an EPUB file into a Book object with passages.
+ * Each spine document becomes a chapter, and no passage spans two chapters.
+ */
+export const processEpubFile = async (
+  data: ArrayBuffer,
+  fileName: string,
+  options: SplitterOptions = DEFAULT_SPLITTER_OPTIONS
+): Promise<Book> => {
+  const { metadata, chapters } = await readEpub(data);
+
+  let rawContent = '';
+  const bookChapters: BookChapter[] = [];
+
+  chapters.forEach((chapter, index) => {
+    if (rawContent.length > 0) {
+      rawContent += '\n\n';
+    }
+    const start = rawContent.length;
+    rawContent += chapter.text;
+
+    bookChapters.push({
+      id: createChapterId('chapter', start),
+      title: chapter.title || fallbackChapterTitle(chapter, index),
+      kind: 'chapter',
+      start,
+      end: rawContent.length,
+      children: []
+    });
+  });
+
+  const bookId = createBookId(rawContent);
+  const passages: Passage[] = splitChaptersIntoPassages(
+    rawContent, bookId, bookChapters, { start: 0, end: rawContent.length }, options
+  );
+
+  return {
+    id: bookId,
+    title: metadata.title || extractTitleFromFileName(fileName),
+    author: metadata.author,
+    fileName,
+    rawContent,
+    passages,
+    chapters: bookChapters,
+    splitterOptions: options,
+    uploadedAt: new Date()
+  };
+};
@@ -0,0 +1,89 @@
+import { Book, Passage, createBookId, createPassageId } from './textProcessing';
+
+/**
+ * Old random IDs mapped to their content-addressed replacements
+ */
+export interface LegacyIdMap {
+  books: Record<string, string>;
+  passages: Record<string, string>;
+}
+
+// Where the map is kept once computed, so every store can migrate after book-storage is gone
+const LEGACY_ID_MAP_KEY = 'legacy-id-map';
+const BOOK_STORAGE_KEY = 'book-storage';
+
+/**
+ * Give legacy books content-addressed IDs.
+ * Passage offsets are re-located with a cursor, since older versions gave
+ * repeated paragraphs the offset of their first occurrence.
+ */
+export const migrateLegacyBooks = (books: Book[]): { books: Book[], map: LegacyIdMap } => {
+  const map: LegacyIdMap = { books: {}, passages: {} };
+  const migrated = new Map<string, Book>();
+  
+  books.forEach(book => {
+    const bookId = createBookId(book.rawContent);
+    const usedIds = new Set<string>();
+    let cursor = 0;
+    
+    const passages: Passage[] = book.passages.map((passage, index) => {
+      let { start, end } = passage;
+      const found = book.rawContent.indexOf(passage.text, cursor);
+      if (found >= 0) {
+        start = found;
+        end = found + passage.text.length;
+        cursor = start + 1;
+      }
+      
+      let id = createPassageId(bookId, start, end);
+      if (usedIds.has(id)) {
+        id = `${id}-${index}`;
+      }
+      usedIds.add(id);
+      map.passages[passage.id] = id;
+      
+      return { ...passage, id, bookId, start, end };
+    });
+    
+    map.books[book.id] = bookId;
+    // Identical uploads collapse into a single book
+    migrated.set(bookId, { ...book, id: bookId, passages });
+  });
+  
+  return { books: Array.from(migrated.values()), map };
+};
+
+/**
+ * Get the legacy ID map, computing it from the stored books the first time
+ */
+export const getLegacyIdMap = (): LegacyIdMap => {
+  const empty: LegacyIdMap = { books: {}, passages: {} };
+  if (typeof window === 'undefined') return empty;
+  
+  try {
+    const saved = localStorage.getItem(LEGACY_ID_MAP_KEY);
+    if (saved) {
+      return JSON.parse(saved) as LegacyIdMap;
+    }
+    
+    const stored = localStorage.getItem(BOOK_STORAGE_KEY);
+    if (!stored) return empty;
+    
+    const { state, version } = JSON.parse(stored) as { state?: { books?: Book[] }, version?: number };
+    if ((version ?? 0) >= 1 || !state?.books) return empty;
+    
+    const { map } = migrateLegacyBooks(state.books);
+    localStorage.setItem(LEGACY_ID_MAP_KEY, JSON.stringify(map));
+    return map;
+  } catch (error) {
+    console.error('Error reading legacy book IDs:', error);
+    return empty;
+  }
+};
+
+/**
+ * Translate a legacy book or passage ID; IDs that aren't legacy pass through unchanged
+ */
+export const remapLegacyId = (map: LegacyIdMap, id: string): string => {
+  return map.passages[id] ?? map.books[id] ?? id;
+};
@@ -0,0 +1,98 @@
+import type { PassageSummary } from './conceptProcessing';
+import type { PassageRelation } from '@/services/passageComparisonService';
+import type { HybridSearchOptions } from '@/services/hybridRetriever';
+import type { CompletionTask, ModelSelection } from '@/services/completionClient';
+import type { PeriodSpend } from '@/services/usageLedger';
+import type { VectorChange } from '@/services/embeddingService';
+import type { BudgetSettings, UsageEntry, UsageFeature } from '@/store/usageStore';
+
+/**
+ * Long-running work the job queue can run in the background
+ */
+export type JobType = 'index' | 'analyze' | 'comparePair' | 'fullBookAnalysis';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export const JOB_TYPES: { type: JobType, label: string }[] = [
+  { type: 'index', label: 'Indexing' },
+  { type: 'analyze', label: 'Analysis' },
+  { type: 'comparePair', label: 'Passage comparison' },
+  { type: 'fullBookAnalysis', label: 'Full book comparison' }
+];
+
+/**
+ * What a job does, by type
+ */
+export type JobParams =
+  | { type: 'index', bookId: string }
+  | { type: 'analyze', bookId: string }
+  | {
+      type: 'comparePair',
+      sourceBookId: string,
+      targetBookId: string,
+      topK: number,
+      threshold: number,
+      retrievalOptions?: Partial<HybridSearchOptions>
+    }
+  | { type: 'fullBookAnalysis', sourceBookId: string, targetBookId: string, chaptersPerBatch: number };
+
+/**
+ * The steps a job has finished, so a restarted job picks up where it stopped
+ */
+export interface JobCheckpoint {
+  completedSteps: string[];
+  relations?: Record<string, PassageRelation[]>; // Full book relations gathered so far, by focus passage
+}
+
+export interface Job {
+  id: string;
+  params: JobParams;
+  feature: UsageFeature; // What the job's AI calls are attributed to
+  priority: number; // Higher runs first; equal priorities run in the order queued
+  status: JobStatus;
+  progress: number; // 0-100
+  message: string;
+  checkpoint: JobCheckpoint;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Priorities jobs are queued with; prioritizing a job moves it above all others
+export const BACKGROUND_PRIORITY = 0;
+export const USER_PRIORITY = 1;
+
+export const isJobFinished = (job: Job): boolean => {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+};
+
+/**
+ * The books a job reads
+ */
+export const getJobBookIds = (params: JobParams): string[] => {
+  return 'bookId' in params ? [params.bookId] : [params.sourceBookId, params.targetBookId];
+};
+
+/**
+ * Messages from the page to the job worker
+ */
+export type JobWorkerRequest =
+  | { type: 'configure', taskModels: Record<CompletionTask, ModelSelection>, budget: BudgetSettings, spend: PeriodSpend }
+  | { type: 'restore', jobs: Job[] }
+  | { type: 'enqueue', job: Job }
+  | { type: 'pause' | 'resume' | 'cancel', jobId: string }
+  | { type: 'prioritize', jobId: string, priority: number }
+  | { type: 'bookChanged' | 'bookRemoved', bookId: string } // The worker's copy of the book is out of date
+  | { type: 'vectorsChanged', change: VectorChange }; // So is its cache of the book's vectors
+
+/**
+ * Messages from the job worker to the page, which saves the results
+ */
+export type JobWorkerEvent =
+  | { type: 'job', job: Job }
+  | { type: 'usage', entry: Omit<UsageEntry, 'id'> }
+  | { type: 'pausedForBudget', count: number }
+  | { type: 'relations', relations: [string, PassageRelation[]][] }
+  | { type: 'bookCompared', sourceBookId: string, targetBookId: string }
+  | { type: 'summaries', summaries: PassageSummary[] }
+  | { type: 'vectorsChanged', change: VectorChange };
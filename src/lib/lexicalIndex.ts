@@ -0,0 +1,100 @@
+import { Passage } from './textProcessing';
+
+/**
+ * BM25 inverted index over the passages of one book.
+ * Maps survive IndexedDB's structured clone, so the index is stored as-is.
+ */
+export interface LexicalIndex {
+  postings: Map<string, [string, number][]>; // term -> [passageId, term frequency]
+  lengths: Map<string, number>; // passageId -> number of indexed terms
+  averageLength: number;
+  passageCount: number;
+}
+
+export interface LexicalMatch {
+  id: string; // Passage ID
+  score: number; // BM25 score; only comparable within one query
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common to say anything about a passage
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'him', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'one', 'or',
+  'our', 'out', 'she', 'so', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will',
+  'with', 'would', 'you', 'your'
+]);
+
+/**
+ * Split text into lowercase index terms, dropping stopwords and possessive endings
+ */
+export const tokenize = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
+  return words
+    .map(word => word.replace(/['’]s$/, ''))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+};
+
+/**
+ * Build the index for a book's passages
+ */
+export const buildLexicalIndex = (passages: Passage[]): LexicalIndex => {
+  const postings = new Map<string, [string, number][]>();
+  const lengths = new Map<string, number>();
+  let totalLength = 0;
+  
+  passages.forEach(passage => {
+    const terms = tokenize(passage.text);
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    
+    counts.forEach((count, term) => {
+      const list = postings.get(term);
+      if (list) {
+        list.push([passage.id, count]);
+      } else {
+        postings.set(term, [[passage.id, count]]);
+      }
+    });
+    
+    lengths.set(passage.id, terms.length);
+    totalLength += terms.length;
+  });
+  
+  return {
+    postings,
+    lengths,
+    averageLength: passages.length > 0 ? totalLength / passages.length : 0,
+    passageCount: passages.length
+  };
+};
+
+/**
+ * Rank the indexed passages against query text with BM25
+ */
+export const searchLexicalIndex = (index: LexicalIndex, query: string, topK: number): LexicalMatch[] => {
+  const scores = new Map<string, number>();
+  
+  // Each distinct query term counts once, so long query passages aren't dominated by repetition
+  new Set(tokenize(query)).forEach(term => {
+    const list = index.postings.get(term);
+    if (!list) return;
+    
+    const idf = Math.log(1 + (index.passageCount - list.length + 0.5) / (list.length + 0.5));
+    list.forEach(([passageId, frequency]) => {
+      const length = index.lengths.get(passageId) || 0;
+      const norm = frequency + K1 * (1 - B + B * length / (index.averageLength || 1));
+      const score = idf * frequency * (K1 + 1) / norm;
+      scores.set(passageId, (scores.get(passageId) || 0) + score);
+    });
+  });
+  
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
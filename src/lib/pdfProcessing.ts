@@ -0,0 +1,247 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import {
+  Book,
+  SplitterOptions,
+  DEFAULT_SPLITTER_OPTIONS,
+  createBookId,
+  extractTitleFromFileName,
+  detectStructure,
+  splitChaptersIntoPassages,
+  assignPageRanges
+} from './textProcessing';
+
+/**
+ * A single line of text on a PDF page, with its vertical position
+ */
+interface PdfLine {
+  text: string;
+  y: number;
+}
+
+/**
+ * Extracted text for one page, already cleaned of headers and footers
+ */
+interface PdfPage {
+  pageNumber: number;
+  lines: PdfLine[];
+}
+
+// How many lines at the top and bottom of a page are checked for running headers/footers
+const EDGE_LINES_CHECKED = 2;
+
+// A line must repeat on at least this share of pages to count as a header or footer
+const REPEATED_LINE_RATIO = 0.5;
+
+/**
+ * Load pdf.js lazily so it never runs during server rendering.
+ * Parsing and text extraction happen in the pdf.js web worker.
+ */
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString();
+  }
+  return pdfjs;
+};
+
+/**
+ * Group positioned text items into lines, top to bottom
+ */
+const groupItemsIntoLines = (items: TextItem[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  items.forEach(item => {
+    const y = item.transform[5] as number;
+
+    // Items on the same baseline belong to the same line
+    if (!current || Math.abs(current.y - y) > Math.max(item.height, 1) / 2) {
+      if (current && current.text.trim()) {
+        lines.push(current);
+      }
+      current = { text: '', y };
+    }
+
+    current.text += item.str;
+    if (item.hasEOL) {
+      if (current.text.trim()) {
+        lines.push(current);
+      }
+      current = null;
+    }
+  });
+
+  if (current && (current as PdfLine).text.trim()) {
+    lines.push(current);
+  }
+
+  return lines.map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }));
+};
+
+/**
+ * Normalize a header/footer candidate so page numbers don't prevent a match
+ */
+const normalizeEdgeLine = (text: string): string => {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Remove running headers, footers and bare page numbers that repeat across pages
+ */
+export const removeRepeatedHeadersAndFooters = (pages: PdfPage[]): PdfPage[] => {
+  const counts = new Map<string, number>();
+
+  pages.forEach(page => {
+    const edgeLines = new Set([
+      ...page.lines.slice(0, EDGE_LINES_CHECKED),
+      ...page.lines.slice(-EDGE_LINES_CHECKED)
+    ].map(line => normalizeEdgeLine(line.text)));
+
+    edgeLines.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+
+  const minOccurrences = Math.max(2, Math.ceil(pages.length * REPEATED_LINE_RATIO));
+  const repeated = new Set(
+    Array.from(counts.entries())
+      .filter(([, count]) => pages.length >= 3 && count >= minOccurrences)
+      .map(([key]) => key)
+  );
+
+  return pages.map(page => {
+    const lastEdgeIndex = page.lines.length - EDGE_LINES_CHECKED;
+    const lines = page.lines.filter((line, index) => {
+      const isEdge = index < EDGE_LINES_CHECKED || index >= lastEdgeIndex;
+      if (!isEdge) return true;
+
+      const key = normalizeEdgeLine(line.text);
+      return !repeated.has(key) && !/^[#\s\-–—|.]*$/.test(key) && !/^page #( of #)?$/.test(key);
+    });
+
+    return { ...page, lines };
+  });
+};
+
+/**
+ * Join two pieces of text that were separated by a line break,
+ * undoing end-of-line hyphenation ("knowl-\nedge" -> "knowledge")
+ */
+const joinAcrossLineBreak = (left: string, right: string): string => {
+  if (/[A-Za-z]-$/.test(left) && /^[a-z]/.test(right)) {
+    return left.slice(0, -1) + right;
+  }
+  return `${left} ${right}`;
+};
+
+/**
+ * Turn the lines of a page into paragraphs, using vertical gaps as paragraph breaks
+ */
+const linesToParagraphs = (lines: PdfLine[]): string[] => {
+  if (lines.length === 0) return [];
+
+  // The most common gap between consecutive lines is the normal line spacing
+  const gaps = lines.slice(1).map((line, i) => Math.abs(lines[i].y - line.y)).filter(gap => gap > 0);
+  const sortedGaps = [...gaps].sort((a, b) => a - b);
+  const lineSpacing = sortedGaps[Math.floor(sortedGaps.length / 2)] || 0;
+
+  const paragraphs: string[] = [];
+  let current = lines[0].text;
+
+  for (let i = 1; i < lines.length; i++) {
+    const gap = Math.abs(lines[i - 1].y - lines[i].y);
+    if (lineSpacing > 0 && gap > lineSpacing * 1.5) {
+      paragraphs.push(current);
+      current = lines[i].text;
+    } else {
+      current = joinAcrossLineBreak(current, lines[i].text);
+    }
+  }
+
+  paragraphs.push(current);
+  return paragraphs;
+};
+
+/**
+ * Assemble cleaned pages into one text, recording where each page starts.
+ * A paragraph that runs over a page break is joined back together.
+ */
+export const assemblePdfText = (pages: PdfPage[]): { text: string, pageOffsets: number[] } => {
+  let text = '';
+  const pageOffsets: number[] = [];
+
+  pages.forEach(page => {
+    const paragraphs = linesToParagraphs(page.lines);
+    pageOffsets.push(text.length);
+
+    paragraphs.forEach((paragraph, index) => {
+      if (text.length === 0) {
+        text = paragraph;
+      } else if (index === 0 && !/[.!?:"'”’)]$/.test(text) && /^[a-z]/.test(paragraph)) {
+        // Continuation of the previous page's last paragraph
+        const joined = joinAcrossLineBreak(text, paragraph);
+        pageOffsets[pageOffsets.length - 1] = joined.length - paragraph.length;
+        text = joined;
+      } else {
+        text += `\n\n${paragraph}`;
+      }
+    });
+  });
+
+  return { text, pageOffsets };
+};
+
+/**
+ * Process a PDF file into a Book object with passages.
+ * Each passage records the page range it was taken from.
+ */
+export const processPdfFile = async (
+  data: ArrayBuffer,
+  fileName: string,
+  options: SplitterOptions = DEFAULT_SPLITTER_OPTIONS
+): Promise<Book> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: PdfPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      pages.push({ pageNumber, lines: groupItemsIntoLines(items) });
+      page.cleanup();
+    }
+
+    const { text, pageOffsets } = assemblePdfText(removeRepeatedHeadersAndFooters(pages));
+    if (!text.trim()) {
+      throw new Error('No extractable text found in PDF. Scanned PDFs need OCR first.');
+    }
+
+    const { info } = await pdf.getMetadata();
+    const pdfInfo = info as { Title?: string, Author?: string };
+
+    const bookId = createBookId(text);
+    const chapters = detectStructure(text);
+    const passages = assignPageRanges(
+      splitChaptersIntoPassages(text, bookId, chapters, { start: 0, end: text.length }, options),
+      pageOffsets
+    );
+
+    return {
+      id: bookId,
+      title: pdfInfo.Title?.trim() || extractTitleFromFileName(fileName),
+      author: pdfInfo.Author?.trim() || undefined,
+      fileName,
+      rawContent: text,
+      passages,
+      chapters,
+      splitterOptions: options,
+      pageOffsets,
+      uploadedAt: new Date()
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Providers whose API key a reader can supply in place of the server's
+ */
+export const KEYED_PROVIDERS = [
+  { provider: 'llama', label: 'Llama API' },
+  { provider: 'openai', label: 'OpenAI' },
+  { provider: 'anthropic', label: 'Anthropic' }
+] as const;
+
+export type KeyedProvider = typeof KEYED_PROVIDERS[number]['provider'];
+
+/**
+ * Where a provider's key would come from. Keys themselves never reach the browser.
+ */
+export interface KeyStatus {
+  server: boolean; // Set in the server's environment
+  user: boolean; // Saved by this reader, and used in place of the server's
+}
+
+export interface ApiKeyStatus {
+  keys: Record<KeyedProvider, KeyStatus>;
+  embeddingsConfigured: boolean; // The server can reach the configured embedding provider
+}
+
+export const isKeyedProvider = (name: string): name is KeyedProvider => {
+  return KEYED_PROVIDERS.some(entry => entry.provider === name);
+};
@@ -0,0 +1,75 @@
+// Optional; raises Google Books' quota for anonymous requests
+const GOOGLE_BOOKS_API_KEY = process.env.GOOGLE_BOOKS_API_KEY || '';
+
+interface OpenLibraryResponse {
+  docs?: {
+    cover_i?: number;
+    title?: string;
+  }[];
+}
+
+interface GoogleBooksResponse {
+  items?: {
+    volumeInfo?: {
+      imageLinks?: {
+        thumbnail?: string;
+      };
+    };
+  }[];
+}
+
+// Try Open Library API
+async function tryOpenLibrary(bookTitle: string): Promise<string | null> {
+  try {
+    const query = encodeURIComponent(bookTitle);
+    const searchUrl = `https://openlibrary.org/search.json?q=${query}&limit=1`;
+    
+    const response = await fetch(searchUrl);
+    if (!response.ok) return null;
+    
+    const data: OpenLibraryResponse = await response.json();
+    
+    if (data.docs && data.docs.length > 0) {
+      const book = data.docs[0];
+      if (book.cover_i) {
+        return `https://covers.openlibrary.org/b/id/${book.cover_i}-L.jpg`;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.error('Open Library API error:', error);
+    return null;
+  }
+}
+
+// Try Google Books API
+async function tryGoogleBooks(bookTitle: string): Promise<string | null> {
+  try {
+    const query = encodeURIComponent(bookTitle);
+    const key = GOOGLE_BOOKS_API_KEY ? `&key=${encodeURIComponent(GOOGLE_BOOKS_API_KEY)}` : '';
+    const url = `https://www.googleapis.com/books/v1/volumes?q=${query}&maxResults=1${key}`;
+    
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    
+    const data: GoogleBooksResponse = await response.json();
+    
+    if (data.items?.[0]?.volumeInfo?.imageLinks?.thumbnail) {
+      return data.items[0].volumeInfo.imageLinks.thumbnail
+        .replace('http://', 'https://')
+        .replace('zoom=1', 'zoom=3');
+    }
+    return null;
+  } catch (error) {
+    console.error('Google Books API error:', error);
+    return null;
+  }
+}
+
+/**
+ * Find a cover image for a book title on Open Library, then Google Books
+ */
+export async function lookUpCoverUrl(bookTitle: string): Promise<string | null> {
+  const normalizedTitle = bookTitle.trim().toLowerCase();
+  return (await tryOpenLibrary(normalizedTitle)) || (await tryGoogleBooks(normalizedTitle));
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AnthropicCompletionProvider,
+  CompletionProvider,
+  DEFAULT_COMPLETION_MODELS,
+  OpenAICompatibleCompletionProvider
+} from '@/services/completionProviders';
+import { EmbeddingProvider, OpenAIEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from '@/services/embeddingProviders';
+import { PineconeVectorStore } from '@/services/pineconeVectorStore';
+import { ApiKeyStatus, KEYED_PROVIDERS, KeyedProvider, KeyStatus, isKeyedProvider } from '@/lib/providerKeys';
+import { getErrorStatus } from '@/utils/retry';
+import { getUserKeys } from './userKeys';
+
+// API keys and endpoints from the server's environment; none of them reach the browser
+const SERVER_KEYS: Record<KeyedProvider, string> = {
+  llama: process.env.LLAMA_API_KEY || '',
+  openai: process.env.OPENAI_API_KEY || '',
+  anthropic: process.env.ANTHROPIC_API_KEY || ''
+};
+const COMPLETION_BASE_URL = process.env.COMPLETION_BASE_URL || 'http://localhost:11434/v1';
+const COMPLETION_API_KEY = process.env.COMPLETION_API_KEY || '';
+
+const EMBEDDING_PROVIDER = process.env.NEXT_PUBLIC_EMBEDDING_PROVIDER || 'openai';
+const EMBEDDING_BASE_URL = process.env.EMBEDDING_BASE_URL || '';
+const EMBEDDING_API_KEY = process.env.EMBEDDING_API_KEY || '';
+
+const PINECONE_API_KEY = process.env.PINECONE_API_KEY || '';
+const PINECONE_INDEX = process.env.NEXT_PUBLIC_PINECONE_INDEX || '';
+const PINECONE_INDEX_HOST = process.env.PINECONE_INDEX_HOST || undefined;
+
+/**
+ * Neither the reader nor the server has a key for the provider
+ */
+export class MissingApiKeyError extends Error {
+  status = 401;
+  
+  constructor(provider: string) {
+    super(`No API key for ${provider}. Add one under "API keys" or set it in the server's environment.`);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/**
+ * Relay an error to the browser with its HTTP status, so rate limits and server errors are still retried
+ */
+export const errorResponse = (error: unknown): NextResponse => {
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ error: message }, { status: getErrorStatus(error) || 502 });
+};
+
+/**
+ * Reject a request whose body is not valid JSON, or not the shape the route expects
+ */
+export const invalidBodyResponse = (): NextResponse => {
+  return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+};
+
+/**
+ * Parse a request's JSON body, or resolve to null when it isn't valid JSON or fails isValid
+ */
+export const readJsonBody = async <T>(request: NextRequest, isValid: (body: unknown) => body is T): Promise<T | null> => {
+  try {
+    const body: unknown = await request.json();
+    return isValid(body) ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+// Checks for the fields of request bodies
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isArrayOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] => {
+  return Array.isArray(value) && value.every(isItem);
+};
+
+/**
+ * A provider's key for a session: the reader's own if they saved one, otherwise the server's
+ */
+const resolveKey = async (provider: KeyedProvider, sessionId?: string): Promise<string> => {
+  const apiKey = (await getUserKeys(sessionId))[provider] || SERVER_KEYS[provider];
+  if (!apiKey) {
+    throw new MissingApiKeyError(provider);
+  }
+  return apiKey;
+};
+
+/**
+ * The completion provider with the given name, holding the key for the session
+ */
+export const createCompletionProvider = async (name: string, sessionId?: string): Promise<CompletionProvider | undefined> => {
+  if (name === 'openai-compatible') {
+    return new OpenAICompatibleCompletionProvider(name, COMPLETION_BASE_URL, DEFAULT_COMPLETION_MODELS[name], COMPLETION_API_KEY);
+  }
+  if (!isKeyedProvider(name)) return undefined;
+  
+  const apiKey = await resolveKey(name, sessionId);
+  switch (name) {
+    case 'llama':
+      return new OpenAICompatibleCompletionProvider(name, 'https://api.llama.com/compat/v1', DEFAULT_COMPLETION_MODELS[name], apiKey);
+    case 'openai':
+      return new OpenAICompatibleCompletionProvider(name, 'https://api.openai.com/v1', DEFAULT_COMPLETION_MODELS[name], apiKey);
+    case 'anthropic':
+      return new AnthropicCompletionProvider(apiKey);
+  }
+};
+
+/**
+ * The embedding provider with the given name and model, holding the key for the session
+ */
+export const createEmbeddingProvider = async (name: string, model: string, sessionId?: string): Promise<EmbeddingProvider | undefined> => {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(await resolveKey('openai', sessionId), model || undefined);
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingProvider({ baseUrl: EMBEDDING_BASE_URL, model, apiKey: EMBEDDING_API_KEY });
+    default:
+      return undefined;
+  }
+};
+
+let vectorStore: PineconeVectorStore | undefined;
+
+/**
+ * The Pinecone index passage vectors are kept in, when one is configured
+ */
+export const getVectorStore = (): PineconeVectorStore | undefined => {
+  if (!vectorStore && PINECONE_API_KEY && PINECONE_INDEX) {
+    vectorStore = new PineconeVectorStore({
+      apiKey: PINECONE_API_KEY,
+      indexName: PINECONE_INDEX,
+      indexHost: PINECONE_INDEX_HOST
+    });
+  }
+  return vectorStore;
+};
+
+/**
+ * Which keys the server and the reader have, without revealing any of them
+ */
+export const getKeyStatus = async (sessionId?: string): Promise<ApiKeyStatus> => {
+  const userKeys = await getUserKeys(sessionId);
+  const keys = Object.fromEntries(KEYED_PROVIDERS.map(({ provider }) => [
+    provider,
+    { server: !!SERVER_KEYS[provider], user: !!userKeys[provider] }
+  ])) as Record<KeyedProvider, KeyStatus>;
+  
+  const embeddingsConfigured = EMBEDDING_PROVIDER === 'local' ||
+    (EMBEDDING_PROVIDER === 'openai-compatible' ? !!EMBEDDING_BASE_URL : keys.openai.server || keys.openai.user);
+  return { keys, embeddingsConfigured };
+};
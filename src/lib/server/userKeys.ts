@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { KeyedProvider } from '@/lib/providerKeys';
+
+// Cookie naming the reader whose saved keys apply to a request
+const SESSION_COOKIE = 'bookbond-session';
+const SESSION_MAX_AGE = 365 * 24 * 60 * 60; // One year, in seconds
+
+// Keys readers saved, by session. The default location is ignored by git.
+const KEY_STORE_PATH = process.env.USER_KEY_STORE_PATH || path.join(process.cwd(), '.data', 'user-keys.json');
+
+type UserKeys = Partial<Record<KeyedProvider, string>>;
+
+let savedKeys: Record<string, UserKeys> | null = null; // sessionId -> keys
+
+const loadSavedKeys = async (): Promise<Record<string, UserKeys>> => {
+  if (savedKeys) return savedKeys;
+  
+  try {
+    savedKeys = JSON.parse(await fs.readFile(KEY_STORE_PATH, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading saved API keys:', error);
+    }
+    savedKeys = {};
+  }
+  return savedKeys || {};
+};
+
+const updateSessionKeys = async (sessionId: string, update: (keys: UserKeys) => UserKeys): Promise<void> => {
+  const allKeys = await loadSavedKeys();
+  savedKeys = { ...allKeys, [sessionId]: update({ ...allKeys[sessionId] }) };
+  
+  await fs.mkdir(path.dirname(KEY_STORE_PATH), { recursive: true });
+  await fs.writeFile(KEY_STORE_PATH, JSON.stringify(savedKeys), { mode: 0o600 });
+};
+
+export const getSessionId = (request: NextRequest): string | undefined => {
+  return request.cookies.get(SESSION_COOKIE)?.value;
+};
+
+/**
+ * The request's session, or a new one to be set on the response with setSessionCookie
+ */
+export const ensureSessionId = (request: NextRequest): string => {
+  return getSessionId(request) || randomUUID();
+};
+
+export const setSessionCookie = (response: NextResponse, sessionId: string) => {
+  response.cookies.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE,
+    path: '/'
+  });
+};
+
+/**
+ * The keys a reader saved to use in place of the server's
+ */
+export const getUserKeys = async (sessionId?: string): Promise<UserKeys> => {
+  if (!sessionId) return {};
+  return (await loadSavedKeys())[sessionId] || {};
+};
+
+export const setUserKey = async (sessionId: string, provider: KeyedProvider, apiKey: string): Promise<void> => {
+  await updateSessionKeys(sessionId, keys => ({ ...keys, [provider]: apiKey }));
+};
+
+export const clearUserKey = async (sessionId: string, provider: KeyedProvider): Promise<void> => {
+  await updateSessionKeys(sessionId, keys => {
+    delete keys[provider];
+    return keys;
+  });
+};
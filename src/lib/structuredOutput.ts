@@ -0,0 +1,84 @@
+/**
+ * A small JSON schema for validating LLM output
+ */
+export type Schema =
+  | { type: 'string', enum?: readonly string[], minLength?: number }
+  | { type: 'array', items: Schema, minItems?: number }
+  | { type: 'object', properties: Record<string, Schema>, required?: string[] };
+
+/**
+ * Check a value against a schema, returning one message per problem
+ */
+export const validateSchema = (value: unknown, schema: Schema, path: string = '$'): string[] => {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')}, got "${value}"`];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [`${path} must not be empty`];
+      }
+      return [];
+    }
+    
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      const errors = value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      return errors;
+    }
+    
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required || [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+      Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      });
+      return errors;
+    }
+  }
+};
+
+/**
+ * Render a schema as JSON Schema, for prompts
+ */
+export const describeSchema = (schema: Schema): string => {
+  const toJsonSchema = (s: Schema): object => {
+    switch (s.type) {
+      case 'string':
+        return s.enum ? { type: 'string', enum: s.enum } : { type: 'string' };
+      case 'array':
+        return { type: 'array', items: toJsonSchema(s.items) };
+      case 'object':
+        return {
+          type: 'object',
+          properties: Object.fromEntries(Object.entries(s.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+          required: s.required || []
+        };
+    }
+  };
+  return JSON.stringify(toJsonSchema(schema), null, 2);
+};
+
+/**
+ * Parse JSON from an LLM response, allowing for a surrounding markdown code block.
+ * Throws a SyntaxError describing the problem when the response isn't JSON.
+ */
+export const parseJsonResponse = (response: string): unknown => {
+  const codeBlock = response.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  return JSON.parse((codeBlock ? codeBlock[1] : response).trim());
+};
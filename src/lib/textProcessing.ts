@@ -7,31 +7,108 @@ export interface Passage {
   start: number;
   end: number;
   bookId: string;
+  chapterId?: string; // Innermost chapter (or part) the passage belongs to
+  pageStart?: number; // First source page, for books imported from PDF
+  pageEnd?: number; // Last source page, for books imported from PDF
+}
+
+export type ChapterKind = 'part' | 'chapter' | 'section';
+
+/**
+ * A node in a book's table of contents, covering rawContent[start, end)
+ */
+export interface BookChapter {
+  id: string;
+  title: string;
+  kind: ChapterKind;
+  start: number;
+  end: number;
+  children: BookChapter[];
 }
 
 export interface Book {
   id: string;
   title: string;
+  author?: string;
   fileName: string;
   rawContent: string;
   passages: Passage[];
+  chapters?: BookChapter[]; // Structure detected at ingestion; missing for older books
+  splitterOptions?: SplitterOptions; // Settings the passages were split with; missing for older books
+  pageOffsets?: number[]; // Offset in rawContent where each source page starts, for PDFs
   uploadedAt: Date;
 }
 
 /**
- * Generate a unique ID for books and passages
+ * Everything about a book except its text and passages, for listing the library
+ */
+export type BookMetadata = Omit<Book, 'rawContent' | 'passages'> & {
+  passageCount: number;
+};
+
+/**
+ * A character range within a book's raw content
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Generate a random unique ID (for records that aren't derived from book content)
  */
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 15) + 
          Math.random().toString(36).substring(2, 15);
 };
 
+/**
+ * Hash a string into a short, stable identifier (53-bit cyrb53, base 36)
+ */
+export const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Book IDs are derived from the text, so re-importing an unchanged book
+ * keeps every summary, comparison and embedding attached to it
+ */
+export const createBookId = (rawContent: string): string => {
+  return `book-${hashString(rawContent)}`;
+};
+
+/**
+ * Passage IDs are derived from the book ID and the passage's offsets
+ */
+export const createPassageId = (bookId: string, start: number, end: number): string => {
+  return `${bookId}-${start}-${end}`;
+};
+
+/**
+ * Chapter IDs are unique within a book: no two chapters of a kind start at the same offset
+ */
+export const createChapterId = (kind: ChapterKind, start: number): string => {
+  return `${kind}-${start}`;
+};
+
 /**
  * Extract a title from the file name
  */
 export const extractTitleFromFileName = (fileName: string): string => {
-  // Remove the .txt extension
-  let title = fileName.replace(/\.txt$/, '');
+  // Remove the file extension
+  let title = fileName.replace(/\.(txt|epub|pdf)$/i, '');
   
   // Replace underscores and hyphens with spaces
   title = title.replace(/[_-]/g, ' ');
@@ -40,80 +117,532 @@ export const extractTitleFromFileName = (fileName: string): string => {
   title = title.split(' ')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
-    
+  
   return title;
 };
 
 /**
- * Split text into passages of reasonable size
- * This is a simple implementation that splits by paragraphs and then
- * combines them to create passages of around 1000-1500 characters
+ * Format the source page range of a passage, e.g. "p. 4" or "pp. 4–5"
+ */
+export const formatPageRange = (passage: Passage): string | null => {
+  if (passage.pageStart === undefined) return null;
+  
+  const pageEnd = passage.pageEnd ?? passage.pageStart;
+  return pageEnd > passage.pageStart
+    ? `pp. ${passage.pageStart}–${pageEnd}`
+    : `p. ${passage.pageStart}`;
+};
+
+/**
+ * Settings for splitting text into passages. Sizes are in estimated tokens.
+ */
+export interface SplitterOptions {
+  targetTokens: number; // Passages are filled up to about this size
+  maxTokens: number; // Paragraphs larger than this are split at sentence boundaries
+  minTokens: number; // Fragments smaller than this are merged into a neighbour
+  overlapTokens: number; // Trailing sentences repeated at the start of the next passage
+}
+
+export const DEFAULT_SPLITTER_OPTIONS: SplitterOptions = {
+  targetTokens: 350,
+  maxTokens: 500,
+  minTokens: 40,
+  overlapTokens: 0
+};
+
+/**
+ * Rough token estimate: 1 token ≈ 4 characters for English text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+/**
+ * A piece of text with its position in the source, used while splitting
+ */
+interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Abbreviations that end with a period but don't end a sentence
+const ABBREVIATIONS = /(?:^|\s)(?:mr|mrs|ms|dr|prof|st|sr|jr|vs|etc|e\.g|i\.e|cf|no|vol|ch|fig)\.$/i;
+
+/**
+ * Locate the non-empty paragraphs of the text.
+ * Offsets come from the match position, so repeated paragraphs
+ * (refrains, "* * *" dividers) each get their own location.
  */
-export const splitIntoPassages = (text: string, bookId: string): Passage[] => {
-  // First split by paragraphs
-  const paragraphs = text.split(/\n\s*\n/);
+const locateParagraphs = (text: string): TextSpan[] => {
+  const paragraphs: TextSpan[] = [];
+  const paragraphPattern = /\S[\s\S]*?(?=\s*\n\s*\n|\s*$)/g;
+  let match: RegExpExecArray | null;
   
-  const passages: Passage[] = [];
-  let currentPassage = '';
-  let currentStart = 0;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    paragraphs.push({
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  
+  return paragraphs;
+};
+
+/**
+ * Split a paragraph into sentences, keeping their offsets
+ */
+const splitSentences = (span: TextSpan): TextSpan[] => {
+  const sentences: TextSpan[] = [];
+  const sentencePattern = /\S[\s\S]*?(?:[.!?]+["'”’)\]]*(?=\s|$)|$)/g;
+  let match: RegExpExecArray | null;
   
-  for (let i = 0; i < paragraphs.length; i++) {
-    const paragraph = paragraphs[i].trim();
-    if (!paragraph) continue;
+  while ((match = sentencePattern.exec(span.text)) !== null && match[0].length > 0) {
+    const previous = sentences[sentences.length - 1];
+    const start = span.start + match.index;
+    const end = start + match[0].length;
     
-    // If adding this paragraph would make the passage too long, save the current one
-    if (currentPassage.length > 0 && currentPassage.length + paragraph.length > 1500) {
-      passages.push({
-        id: generateId(),
-        text: currentPassage,
-        start: currentStart,
-        end: currentStart + currentPassage.length,
-        bookId
-      });
-      
-      currentPassage = paragraph;
-      currentStart = text.indexOf(paragraph);
+    if (previous && ABBREVIATIONS.test(previous.text)) {
+      // "Dr." didn't really end the sentence, so glue the next one on
+      previous.text = span.text.slice(previous.start - span.start, end - span.start);
+      previous.end = end;
     } else {
-      // Add this paragraph to the current passage
-      if (currentPassage.length > 0) {
-        currentPassage += '\n\n';
-      }
-      currentPassage += paragraph;
-      
-      // Set the start position if this is the first paragraph in the passage
-      if (currentPassage.length === paragraph.length) {
-        currentStart = text.indexOf(paragraph);
-      }
+      sentences.push({ text: match[0], start, end });
+    }
+  }
+  
+  return sentences;
+};
+
+/**
+ * Cut a span that has no usable sentence breaks into word-aligned chunks
+ */
+const splitAtWords = (span: TextSpan, maxTokens: number): TextSpan[] => {
+  const maxChars = maxTokens * 4;
+  const chunks: TextSpan[] = [];
+  let offset = 0;
+  
+  while (offset < span.text.length) {
+    let end = Math.min(offset + maxChars, span.text.length);
+    if (end < span.text.length) {
+      const lastSpace = span.text.lastIndexOf(' ', end);
+      if (lastSpace > offset) end = lastSpace;
+    }
+    
+    const chunk = span.text.slice(offset, end).trim();
+    if (chunk) {
+      const chunkStart = span.start + span.text.indexOf(chunk, offset);
+      chunks.push({ text: chunk, start: chunkStart, end: chunkStart + chunk.length });
+    }
+    offset = end;
+  }
+  
+  return chunks;
+};
+
+/**
+ * Break the text into units no larger than maxTokens:
+ * whole paragraphs where possible, sentences or word chunks otherwise
+ */
+const splitIntoUnits = (text: string, options: SplitterOptions): TextSpan[] => {
+  return locateParagraphs(text).flatMap(paragraph => {
+    if (estimateTokens(paragraph.text) <= options.maxTokens) {
+      return [paragraph];
+    }
+    
+    return splitSentences(paragraph).flatMap(sentence =>
+      estimateTokens(sentence.text) <= options.maxTokens
+        ? [sentence]
+        : splitAtWords(sentence, options.maxTokens)
+    );
+  });
+};
+
+/**
+ * Count the estimated tokens in a list of spans
+ */
+const countTokens = (spans: TextSpan[]): number => {
+  return spans.reduce((total, span) => total + estimateTokens(span.text), 0);
+};
+
+/**
+ * Take the trailing sentences of a passage, up to the overlap budget
+ */
+const takeOverlap = (spans: TextSpan[], overlapTokens: number): TextSpan[] => {
+  if (overlapTokens <= 0) return [];
+  
+  const overlap: TextSpan[] = [];
+  let tokens = 0;
+  
+  for (let i = spans.length - 1; i >= 0; i--) {
+    const sentences = splitSentences(spans[i]);
+    for (let j = sentences.length - 1; j >= 0; j--) {
+      const sentenceTokens = estimateTokens(sentences[j].text);
+      if (tokens + sentenceTokens > overlapTokens) return overlap;
+      overlap.unshift(sentences[j]);
+      tokens += sentenceTokens;
+    }
+  }
+  
+  return overlap;
+};
+
+/**
+ * Merge two groups of spans, dropping spans shared through overlap
+ */
+const mergeSpans = (first: TextSpan[], second: TextSpan[]): TextSpan[] => {
+  const lastEnd = first[first.length - 1]?.end ?? -1;
+  return [...first, ...second.filter(span => span.start >= lastEnd)];
+};
+
+/**
+ * Split text into passages of roughly options.targetTokens tokens.
+ * Paragraphs are kept whole when they fit; oversized ones are split at
+ * sentence boundaries, and tiny fragments such as headings are merged
+ * into a neighbouring passage.
+ */
+export const splitIntoPassages = (
+  text: string,
+  bookId: string,
+  options: SplitterOptions = DEFAULT_SPLITTER_OPTIONS
+): Passage[] => {
+  const overlapTokens = Math.min(options.overlapTokens, Math.floor(options.targetTokens / 2));
+  const groups: TextSpan[][] = [];
+  let current: TextSpan[] = [];
+  let currentTokens = 0;
+  let overlapSize = 0;
+  
+  splitIntoUnits(text, options).forEach(unit => {
+    const unitTokens = estimateTokens(unit.text);
+    
+    // Start a new passage once this one is full (overlap alone doesn't count as content)
+    if (current.length > overlapSize && currentTokens + unitTokens > options.targetTokens) {
+      groups.push(current);
+      current = takeOverlap(current, Math.min(overlapTokens, options.maxTokens - unitTokens));
+      currentTokens = countTokens(current);
+      overlapSize = current.length;
+    }
+    
+    current.push(unit);
+    currentTokens += unitTokens;
+  });
+  
+  if (current.length > overlapSize) {
+    groups.push(current);
+  }
+  
+  // Merge fragments that are too small to stand on their own
+  for (let i = 0; i < groups.length; i++) {
+    if (groups.length === 1 || countTokens(groups[i]) >= options.minTokens) continue;
+    
+    const next = groups[i + 1];
+    const previous = groups[i - 1];
+    
+    if (next && countTokens(mergeSpans(groups[i], next)) <= options.maxTokens) {
+      groups.splice(i, 2, mergeSpans(groups[i], next));
+      i--;
+    } else if (previous && countTokens(mergeSpans(previous, groups[i])) <= options.maxTokens) {
+      groups.splice(i - 1, 2, mergeSpans(previous, groups[i]));
+      i -= 2;
+    }
+  }
+  
+  return groups.map(spans => {
+    const start = spans[0].start;
+    const end = spans[spans.length - 1].end;
+    return { id: createPassageId(bookId, start, end), text: text.slice(start, end), start, end, bookId };
+  });
+};
+
+/**
+ * A passage whose offsets don't match the book text
+ */
+export interface PassageOffsetMismatch {
+  passageId: string;
+  index: number;
+  expected: string; // The passage text
+  actual: string; // rawContent.slice(start, end)
+}
+
+/**
+ * Check that rawContent.slice(start, end) reproduces every passage of a book.
+ * Returns the passages that don't match; an empty list means all offsets are right.
+ */
+export const validatePassageOffsets = (book: Book): PassageOffsetMismatch[] => {
+  return book.passages.flatMap((passage, index) => {
+    const actual = book.rawContent.slice(passage.start, passage.end);
+    return actual === passage.text
+      ? []
+      : [{ passageId: passage.id, index, expected: passage.text, actual }];
+  });
+};
+
+// Number words used in headings like "Chapter Twelve" or "Part the First"
+const NUMBER_WORD = '(?:the\\s+)?(?:(?:twenty|thirty|forty|fifty)(?:[-\\s](?:one|two|three|four|five|six|seven|eight|nine))?|' +
+  'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|' +
+  'seventeen|eighteen|nineteen|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last)';
+const HEADING_NUMBER = `(?:\\d+|${NUMBER_WORD})`;
+
+/**
+ * Match a keyword followed by a number. Roman numerals are matched case-sensitively,
+ * so words like "did" or "mid" don't count, and must not run on into a lower-case
+ * word, so a line like "Letter I wrote her" isn't taken for a heading.
+ */
+const numberedHeading = (keywords: string[]): RegExp[] => {
+  const anyCase = keywords.flatMap(word => [word, word[0].toUpperCase() + word.slice(1), word.toUpperCase()]);
+  return [
+    new RegExp(`^(?:${keywords.join('|')})\\s+${HEADING_NUMBER}\\b`, 'i'),
+    new RegExp(`^(?:${anyCase.join('|')})\\s+[IVXLCDM]+\\b(?![ \\t]+[a-z])`)
+  ];
+};
+
+const PART_HEADINGS = numberedHeading(['part', 'book', 'volume']);
+const CHAPTER_HEADINGS = numberedHeading(['chapter', 'stave', 'letter']);
+const ROMAN_HEADING = /^(?=[IVXLCDM])M{0,3}(?:CM|CD|D?C{0,3})(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})\.?$/;
+const NAMED_HEADING = /^(?:prologue|epilogue|preface|introduction|foreword|afterword|appendix(?:\s+\w+)?)\b[.:]?[^.!?]{0,60}$/i;
+
+// Project Gutenberg wraps the actual book in license boilerplate
+const GUTENBERG_START = /^\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG E?BOOK.*$/im;
+const GUTENBERG_END = /^\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG E?BOOK.*$/im;
+
+// A heading whose next heading follows within this many characters is a table-of-contents entry
+const MIN_CHAPTER_CONTENT = 80;
+
+/**
+ * Find the range holding the book itself, excluding Project Gutenberg boilerplate
+ */
+export const findBodyRange = (text: string): TextRange => {
+  const startMatch = GUTENBERG_START.exec(text);
+  const endMatch = GUTENBERG_END.exec(text);
+  
+  const start = startMatch ? startMatch.index + startMatch[0].length : 0;
+  const end = endMatch && endMatch.index > start ? endMatch.index : text.length;
+  
+  return { start, end };
+};
+
+/**
+ * Classify a short block of text as a structural heading, if it is one
+ */
+const classifyHeading = (block: string): ChapterKind | null => {
+  const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0 || lines.length > 2 || block.length > 100) return null;
+  
+  const firstLine = lines[0];
+  if (PART_HEADINGS.some(pattern => pattern.test(firstLine))) return 'part';
+  if (CHAPTER_HEADINGS.some(pattern => pattern.test(firstLine)) || ROMAN_HEADING.test(firstLine)) return 'chapter';
+  if (lines.length === 1 && NAMED_HEADING.test(firstLine)) return 'chapter';
+  
+  return null;
+};
+
+/**
+ * Detect parts and chapters in the text, returning them as a tree.
+ * Returns an empty array when the text has no recognizable structure.
+ */
+export const detectStructure = (text: string, body: TextRange = findBodyRange(text)): BookChapter[] => {
+  const headings: { kind: ChapterKind, title: string, start: number }[] = [];
+  const blockPattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  blockPattern.lastIndex = body.start;
+  
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(text)) !== null && match.index < body.end) {
+    const block = match[0].trimEnd();
+    const kind = classifyHeading(block);
+    if (kind) {
+      headings.push({
+        kind,
+        title: block.split('\n').map(line => line.trim()).filter(Boolean).join(' '),
+        start: match.index
+      });
     }
   }
   
-  // Add the last passage if there's anything left
-  if (currentPassage.length > 0) {
-    passages.push({
-      id: generateId(),
-      text: currentPassage,
-      start: currentStart,
-      end: currentStart + currentPassage.length,
-      bookId
+  // Drop table-of-contents entries: headings immediately followed by a heading of the same or
+  // higher rank. Repeat until stable, since dropping chapters can leave empty parts behind.
+  let contentHeadings = headings;
+  let previousCount = -1;
+  while (contentHeadings.length !== previousCount) {
+    previousCount = contentHeadings.length;
+    contentHeadings = contentHeadings.filter((heading, index, list) => {
+      const next = list[index + 1];
+      if (!next || (heading.kind === 'part' && next.kind !== 'part')) return true;
+      const between = text.slice(heading.start + heading.title.length, next.start);
+      return between.replace(/\s+/g, '').length >= MIN_CHAPTER_CONTENT;
     });
   }
   
-  return passages;
+  if (contentHeadings.length === 0) return [];
+  
+  const chapters: BookChapter[] = [];
+  let currentPart: BookChapter | null = null;
+  
+  // Text before the first heading (preface, dedication, ...) gets its own section
+  const firstStart = contentHeadings[0].start;
+  if (text.slice(body.start, firstStart).trim().length > 0) {
+    chapters.push({
+      id: createChapterId('section', body.start),
+      title: 'Front Matter',
+      kind: 'section',
+      start: body.start,
+      end: firstStart,
+      children: []
+    });
+  }
+  
+  contentHeadings.forEach((heading, index) => {
+    const nextSameOrHigher = contentHeadings
+      .slice(index + 1)
+      .find(next => heading.kind === 'chapter' || next.kind === 'part');
+    
+    const node: BookChapter = {
+      id: createChapterId(heading.kind, heading.start),
+      title: heading.title,
+      kind: heading.kind,
+      start: heading.start,
+      end: nextSameOrHigher ? nextSameOrHigher.start : body.end,
+      children: []
+    };
+    
+    if (node.kind === 'part') {
+      currentPart = node;
+      chapters.push(node);
+    } else if (currentPart) {
+      currentPart.children.push(node);
+    } else {
+      chapters.push(node);
+    }
+  });
+  
+  return chapters;
+};
+
+/**
+ * Flatten a chapter tree into reading order (parents before their children)
+ */
+export const flattenChapters = (chapters: BookChapter[]): BookChapter[] => {
+  return chapters.flatMap(chapter => [chapter, ...flattenChapters(chapter.children)]);
+};
+
+/**
+ * Find a chapter anywhere in the tree by its ID
+ */
+export const findChapter = (chapters: BookChapter[] | undefined, chapterId: string | undefined): BookChapter | undefined => {
+  if (!chapters || !chapterId) return undefined;
+  return flattenChapters(chapters).find(chapter => chapter.id === chapterId);
+};
+
+/**
+ * Split text into passages chapter by chapter, so that no passage crosses a
+ * chapter boundary. Each passage records the innermost chapter it belongs to.
+ */
+export const splitChaptersIntoPassages = (
+  text: string,
+  bookId: string,
+  chapters: BookChapter[],
+  body: TextRange = { start: 0, end: text.length },
+  options: SplitterOptions = DEFAULT_SPLITTER_OPTIONS
+): Passage[] => {
+  if (chapters.length === 0) {
+    return splitRangeIntoPassages(text, bookId, body, options);
+  }
+  
+  // Every chapter start is a boundary; a part's own text runs until its first child
+  const segments: (TextRange & { chapterId: string })[] = [];
+  flattenChapters(chapters).forEach(chapter => {
+    const end = chapter.children.length > 0 ? chapter.children[0].start : chapter.end;
+    if (end > chapter.start) {
+      segments.push({ start: chapter.start, end, chapterId: chapter.id });
+    }
+  });
+  
+  return segments.flatMap(segment =>
+    splitRangeIntoPassages(text, bookId, segment, options).map(passage => ({
+      ...passage,
+      chapterId: segment.chapterId
+    }))
+  );
+};
+
+/**
+ * Split a range of the text into passages with offsets relative to the whole text
+ */
+const splitRangeIntoPassages = (
+  text: string,
+  bookId: string,
+  range: TextRange,
+  options: SplitterOptions
+): Passage[] => {
+  return splitIntoPassages(text.slice(range.start, range.end), bookId, options).map(passage => {
+    const start = passage.start + range.start;
+    const end = passage.end + range.start;
+    return { ...passage, id: createPassageId(bookId, start, end), start, end };
+  });
+};
+
+/**
+ * Find the 1-based page number containing a character offset
+ */
+const pageAtOffset = (pageOffsets: number[], offset: number): number => {
+  let page = 0;
+  while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= offset) {
+    page++;
+  }
+  return page + 1;
+};
+
+/**
+ * Record the source page range of each passage, given where each page starts
+ */
+export const assignPageRanges = (passages: Passage[], pageOffsets: number[]): Passage[] => {
+  return passages.map(passage => ({
+    ...passage,
+    pageStart: pageAtOffset(pageOffsets, passage.start),
+    pageEnd: pageAtOffset(pageOffsets, Math.max(passage.start, passage.end - 1))
+  }));
+};
+
+/**
+ * Split a book's passages again with different settings.
+ * The book keeps its id, text and chapters; only the passages change.
+ */
+export const resplitBook = (book: Book, options: SplitterOptions): Book => {
+  const chapters = book.chapters || [];
+  const body = chapters.length > 0
+    ? { start: 0, end: book.rawContent.length }
+    : findBodyRange(book.rawContent);
+  
+  const passages = splitChaptersIntoPassages(book.rawContent, book.id, chapters, body, options);
+  
+  return {
+    ...book,
+    passages: book.pageOffsets ? assignPageRanges(passages, book.pageOffsets) : passages,
+    splitterOptions: options
+  };
 };
 
 /**
  * Process a text file into a Book object with passages
  */
-export const processTextFile = (text: string, fileName: string): Book => {
-  const bookId = generateId();
+export const processTextFile = (
+  text: string,
+  fileName: string,
+  options: SplitterOptions = DEFAULT_SPLITTER_OPTIONS
+): Book => {
+  const bookId = createBookId(text);
   const title = extractTitleFromFileName(fileName);
+  const body = findBodyRange(text);
+  const chapters = detectStructure(text, body);
   
   const book: Book = {
     id: bookId,
     title,
     fileName,
     rawContent: text,
-    passages: splitIntoPassages(text, bookId),
+    passages: splitChaptersIntoPassages(text, bookId, chapters, body, options),
+    chapters,
+    splitterOptions: options,
     uploadedAt: new Date()
   };
   
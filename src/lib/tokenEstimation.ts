@@ -0,0 +1,42 @@
+/**
+ * How a model family tokenizes text and how much context it accepts
+ */
+export interface ModelProfile {
+  charsPerToken: number; // Average characters per token for English prose
+  contextWindow: number; // Tokens the model accepts, prompt and answer together
+}
+
+// Checked in order; the first pattern matching the model name wins
+const MODEL_PROFILES: { pattern: RegExp, profile: ModelProfile }[] = [
+  { pattern: /claude/i, profile: { charsPerToken: 3.5, contextWindow: 200000 } },
+  { pattern: /gpt-4o|gpt-4\.1|^o\d/i, profile: { charsPerToken: 4, contextWindow: 128000 } },
+  { pattern: /gpt-3\.5/i, profile: { charsPerToken: 4, contextWindow: 16385 } },
+  { pattern: /llama-4/i, profile: { charsPerToken: 3.8, contextWindow: 1000000 } },
+  { pattern: /llama-?3\.[1-3]/i, profile: { charsPerToken: 3.8, contextWindow: 128000 } },
+  { pattern: /llama/i, profile: { charsPerToken: 3.8, contextWindow: 8192 } }
+];
+
+// Conservative defaults for models we don't know, such as arbitrary local ones
+const DEFAULT_PROFILE: ModelProfile = { charsPerToken: 4, contextWindow: 8192 };
+
+// Role markers and separators each message adds on top of its content
+const TOKENS_PER_MESSAGE = 4;
+
+export const getModelProfile = (model?: string): ModelProfile => {
+  if (!model) return DEFAULT_PROFILE;
+  return MODEL_PROFILES.find(entry => entry.pattern.test(model))?.profile || DEFAULT_PROFILE;
+};
+
+/**
+ * Estimate the tokens a model would split text into
+ */
+export const estimateTokens = (text: string, model?: string): number => {
+  return Math.ceil(text.length / getModelProfile(model).charsPerToken);
+};
+
+/**
+ * Estimate the tokens a list of chat messages takes up in a request
+ */
+export const estimateMessageTokens = (messages: { content: string }[], model?: string): number => {
+  return messages.reduce((total, message) => total + estimateTokens(message.content, model) + TOKENS_PER_MESSAGE, 0);
+};
@@ -0,0 +1,45 @@
+/**
+ * A model's list price in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Checked in order; the first pattern matching the model name wins, so cheaper variants come first
+const MODEL_PRICES: { pattern: RegExp, price: ModelPrice }[] = [
+  { pattern: /claude.*opus/i, price: { input: 15, output: 75 } },
+  { pattern: /claude.*sonnet/i, price: { input: 3, output: 15 } },
+  { pattern: /claude.*haiku/i, price: { input: 0.8, output: 4 } },
+  { pattern: /gpt-4o-mini/i, price: { input: 0.15, output: 0.6 } },
+  { pattern: /gpt-4o/i, price: { input: 2.5, output: 10 } },
+  { pattern: /gpt-4\.1-nano/i, price: { input: 0.1, output: 0.4 } },
+  { pattern: /gpt-4\.1-mini/i, price: { input: 0.4, output: 1.6 } },
+  { pattern: /gpt-4\.1/i, price: { input: 2, output: 8 } },
+  { pattern: /gpt-3\.5/i, price: { input: 0.5, output: 1.5 } },
+  { pattern: /^o\d-mini/i, price: { input: 1.1, output: 4.4 } },
+  { pattern: /^o\d/i, price: { input: 2, output: 8 } },
+  { pattern: /text-embedding-3-large/i, price: { input: 0.13, output: 0 } },
+  { pattern: /text-embedding-3-small/i, price: { input: 0.02, output: 0 } },
+  { pattern: /text-embedding-ada-002/i, price: { input: 0.1, output: 0 } }
+];
+
+// The Llama API is free during its preview, and local servers cost nothing per token
+const FREE_PROVIDERS = new Set(['llama', 'openai-compatible', 'local']);
+
+/**
+ * The price of a model, or undefined when we don't know it
+ */
+export const getModelPrice = (provider: string, model: string): ModelPrice | undefined => {
+  if (FREE_PROVIDERS.has(provider)) return { input: 0, output: 0 };
+  return MODEL_PRICES.find(entry => entry.pattern.test(model))?.price;
+};
+
+/**
+ * Estimated cost in US dollars of a call; unknown models are counted as free
+ */
+export const estimateCost = (provider: string, model: string, promptTokens: number, completionTokens: number): number => {
+  const price = getModelPrice(provider, model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
@@ -0,0 +1,89 @@
+import type { UsageEntry } from '@/store/usageStore';
+
+/**
+ * Totals of a group of ledger entries
+ */
+export interface UsageTotals {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  latencyMs: number; // Summed; divide by calls for the average
+}
+
+const emptyTotals = (key: string): UsageTotals => ({
+  key,
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  latencyMs: 0
+});
+
+/**
+ * Sum entries by key. An entry with several keys counts fully towards each, except
+ * for its tokens and cost, which are split evenly between them.
+ */
+export const summarizeUsage = (entries: UsageEntry[], getKeys: (entry: UsageEntry) => string[]): UsageTotals[] => {
+  const totals = new Map<string, UsageTotals>();
+  
+  entries.forEach(entry => {
+    const keys = getKeys(entry);
+    keys.forEach(key => {
+      const current = totals.get(key) || emptyTotals(key);
+      totals.set(key, {
+        key,
+        calls: current.calls + 1,
+        promptTokens: current.promptTokens + entry.promptTokens / keys.length,
+        completionTokens: current.completionTokens + entry.completionTokens / keys.length,
+        cost: current.cost + entry.cost / keys.length,
+        latencyMs: current.latencyMs + entry.latencyMs
+      });
+    });
+  });
+  return Array.from(totals.values());
+};
+
+/**
+ * The local calendar day of a time, e.g. "2025-03-14"
+ */
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const summarizeByDay = (entries: UsageEntry[]): UsageTotals[] => {
+  return summarizeUsage(entries, entry => [toDayKey(entry.timestamp)])
+    .sort((a, b) => b.key.localeCompare(a.key));
+};
+
+/**
+ * Totals per book; calls not about any book are grouped under an empty key
+ */
+export const summarizeByBook = (entries: UsageEntry[]): UsageTotals[] => {
+  return summarizeUsage(entries, entry => entry.bookIds.length > 0 ? entry.bookIds : [''])
+    .sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+};
+
+export const summarizeByFeature = (entries: UsageEntry[]): UsageTotals[] => {
+  return summarizeUsage(entries, entry => [entry.feature]);
+};
+
+/**
+ * Format a cost in US dollars, keeping small amounts readable
+ */
+export const formatCost = (cost: number): string => {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+/**
+ * Format a duration such as "45s", "12 min" or "2.5 h"
+ */
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
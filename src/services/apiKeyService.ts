@@ -0,0 +1,107 @@
+import { ApiKeyStatus, KeyedProvider } from '@/lib/providerKeys';
+
+// Route that reports and stores keys; keys are sent to it but never returned
+const KEYS_ROUTE = '/api/keys';
+
+// Keys older versions kept in localStorage, in plain text
+const LEGACY_KEY_STORAGE: [KeyedProvider, string][] = [
+  ['llama', 'llamaApiKey'],
+  ['openai', 'openaiApiKey']
+];
+
+/**
+ * Knows which providers the server can reach with a key, and saves
+ * or forgets the reader's own keys on the server
+ */
+class ApiKeyService {
+  private status: ApiKeyStatus | null = null;
+  private listeners: ((status: ApiKeyStatus) => void)[] = [];
+  
+  constructor() {
+    if (typeof window !== 'undefined') {
+      this.importLegacyKeys()
+        .catch(error => console.error('Error moving API keys to the server:', error))
+        .then(() => this.loadStatus())
+        .catch(error => console.error('Error loading API key status:', error));
+    }
+  }
+  
+  /**
+   * Move keys saved in localStorage by older versions to the server, then forget them here
+   */
+  private async importLegacyKeys(): Promise<void> {
+    for (const [provider, storageKey] of LEGACY_KEY_STORAGE) {
+      const apiKey = localStorage.getItem(storageKey)?.trim();
+      if (apiKey) {
+        await this.saveKey(provider, apiKey);
+        console.log(`Moved the ${provider} API key from localStorage to the server`);
+      }
+      localStorage.removeItem(storageKey);
+    }
+  }
+  
+  /**
+   * The last status loaded from the server, or null before the first load
+   */
+  getStatus(): ApiKeyStatus | null {
+    return this.status;
+  }
+  
+  /**
+   * Whether requests to a provider will carry a key, from the server or the reader
+   */
+  hasKey(provider: KeyedProvider): boolean {
+    const keyStatus = this.status?.keys[provider];
+    return !!keyStatus && (keyStatus.server || keyStatus.user);
+  }
+  
+  isEmbeddingConfigured(): boolean {
+    return this.status?.embeddingsConfigured ?? false;
+  }
+  
+  /**
+   * Call listener whenever the status changes; returns a function that removes it
+   */
+  subscribe(listener: (status: ApiKeyStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+  
+  async loadStatus(): Promise<ApiKeyStatus> {
+    return this.request('GET');
+  }
+  
+  /**
+   * Save the reader's own key for a provider, used in place of the server's
+   */
+  async saveKey(provider: KeyedProvider, apiKey: string): Promise<ApiKeyStatus> {
+    return this.request('PUT', { provider, apiKey });
+  }
+  
+  /**
+   * Forget the reader's key for a provider, going back to the server's
+   */
+  async clearKey(provider: KeyedProvider): Promise<ApiKeyStatus> {
+    return this.request('DELETE', { provider });
+  }
+  
+  private async request(method: string, body?: object): Promise<ApiKeyStatus> {
+    const response = await fetch(KEYS_ROUTE, {
+      method,
+      ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {})
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `HTTP error: ${response.status} ${response.statusText}`);
+    }
+    
+    this.status = await response.json();
+    this.listeners.forEach(listener => listener(this.status!));
+    return this.status!;
+  }
+}
+
+// Singleton instance
+export const apiKeyService = new ApiKeyService();
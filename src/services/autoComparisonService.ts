@@ -1,37 +1,17 @@
 'use client';
 
 import { Book } from '@/lib/textProcessing';
+import { BACKGROUND_PRIORITY } from '@/lib/jobs';
 import { useBookStore } from '@/store/bookStore';
-import { useComparisonStore } from '@/store/comparisonStore';
-import { passageComparisonService } from './passageComparisonService';
+import { embeddingService } from './embeddingService';
+import { jobQueueService } from './jobQueueService';
 
-interface ComparisonProgress {
-  sourceBookId: string;
-  targetBookId: string;
-  progress: number;
-  message: string;
-  status: 'pending' | 'running' | 'complete' | 'error';
-  error?: string;
-}
+// Related passages kept per passage, fewer than a manual comparison to limit noise
+const AUTO_TOP_K = 2;
 
 class AutoComparisonService {
-  private apiKeysSet = false;
-  private llamaApiKey: string = '';
-  private openaiApiKey: string = '';
-  private progressCallbacks: ((progress: ComparisonProgress) => void)[] = [];
-  private currentComparisons: Map<string, ComparisonProgress> = new Map();
   private autoSimilarityThreshold: number = 0.5; // Higher default threshold for auto-comparison
   
-  /**
-   * Set API keys for the comparison service
-   */
-  setApiKeys(llamaApiKey: string, openaiApiKey: string) {
-    this.llamaApiKey = llamaApiKey;
-    this.openaiApiKey = openaiApiKey;
-    this.apiKeysSet = true;
-    passageComparisonService.setApiKey(llamaApiKey, openaiApiKey);
-  }
-  
   /**
    * Set the similarity threshold specifically for auto-comparison
    */
@@ -49,182 +29,40 @@ class AutoComparisonService {
   }
   
   /**
-   * Add a progress callback function
+   * Check whether passages can be embedded, through the server's keys, the reader's own or a local provider
    */
-  addProgressCallback(callback: (progress: ComparisonProgress) => void) {
-    this.progressCallbacks.push(callback);
+  isConfigured(): boolean {
+    return embeddingService.isConfigured();
   }
   
   /**
-   * Remove a progress callback function
+   * Queue the indexing of a newly uploaded book and its comparison with all existing
+   * books, in both directions. The jobs run in the background behind any the reader started.
    */
-  removeProgressCallback(callback: (progress: ComparisonProgress) => void) {
-    this.progressCallbacks = this.progressCallbacks.filter(cb => cb !== callback);
-  }
-  
-  /**
-   * Check if API keys are set
-   */
-  areApiKeysSet(): boolean {
-    return this.apiKeysSet && !!this.openaiApiKey;
-  }
-  
-  /**
-   * Compare a newly uploaded book with all existing books
-   */
-  async compareWithAllBooks(newBook: Book): Promise<void> {
-    if (!this.areApiKeysSet()) {
-      console.warn('API keys not set for automatic comparison. Skipping comparison.');
+  compareWithAllBooks(newBook: Book) {
+    if (!this.isConfigured()) {
+      console.warn('Embeddings are not configured for automatic comparison. Skipping comparison.');
       return;
     }
     
-    const bookStore = useBookStore.getState();
-    const comparisonStore = useComparisonStore.getState();
-    
-    // Get all existing books except the new one
-    const existingBooks = bookStore.books.filter(book => book.id !== newBook.id);
-    
-    if (existingBooks.length === 0) {
-      console.log('No existing books to compare with.');
-      return;
-    }
-    
-    // Use a higher threshold specifically for automatic comparisons to reduce noise
-    console.log(`Using similarity threshold of ${this.autoSimilarityThreshold} for automatic comparison`);
-    passageComparisonService.setSimilarityThreshold(this.autoSimilarityThreshold);
-    
-    // Set API keys
-    passageComparisonService.setApiKey(this.llamaApiKey, this.openaiApiKey);
+    const existingBooks = useBookStore.getState().books.filter(book => book.id !== newBook.id);
+    const options = { priority: BACKGROUND_PRIORITY, feature: 'autoComparison' as const };
     
-    // First index the new book
-    try {
-      await passageComparisonService.indexBook(newBook.id);
-      comparisonStore.addIndexedBook(newBook.id);
-    } catch (error) {
-      console.error(`Error indexing new book ${newBook.title}:`, error);
-      return;
-    }
+    jobQueueService.enqueue({ type: 'index', bookId: newBook.id }, options);
     
-    // Compare with each existing book
-    for (const existingBook of existingBooks) {
-      const comparisonKey = `${newBook.id}_${existingBook.id}`;
-      
-      // Update progress state
-      this.currentComparisons.set(comparisonKey, {
-        sourceBookId: newBook.id,
-        targetBookId: existingBook.id,
-        progress: 0,
-        message: `Starting comparison of "${newBook.title}" with "${existingBook.title}"`,
-        status: 'running'
+    existingBooks.forEach(existingBook => {
+      [[newBook.id, existingBook.id], [existingBook.id, newBook.id]].forEach(([sourceBookId, targetBookId]) => {
+        jobQueueService.enqueue({
+          type: 'comparePair',
+          sourceBookId,
+          targetBookId,
+          topK: AUTO_TOP_K,
+          threshold: this.autoSimilarityThreshold
+        }, options);
       });
-      this.updateProgress(comparisonKey);
-      
-      try {
-        // Check if target book is already indexed
-        if (!comparisonStore.isBookIndexed(existingBook.id)) {
-          this.updateComparisonProgress(comparisonKey, 5, `Indexing target book: ${existingBook.title}`, 'running');
-          await passageComparisonService.indexBook(existingBook.id);
-          comparisonStore.addIndexedBook(existingBook.id);
-        }
-        
-        // Custom progress callback for this comparison
-        const progressCallback = (progress: number, message: string) => {
-          this.updateComparisonProgress(comparisonKey, progress, message, 'running');
-        };
-        
-        // Compare all passages between the two books at once
-        // Using topK=2 to limit the number of relationships
-        const results = await passageComparisonService.compareAllPassages(
-          newBook.id,
-          existingBook.id,
-          2, // topK - reduced from 3 to 2 to limit relationships
-          undefined, // batchSize is no longer used
-          progressCallback
-        );
-        
-        // Save the results
-        comparisonStore.addBulkComparisons(results, newBook.id, existingBook.id);
-        
-        // Also compare in the reverse direction
-        const reverseComparisonKey = `${existingBook.id}_${newBook.id}`;
-        this.currentComparisons.set(reverseComparisonKey, {
-          sourceBookId: existingBook.id,
-          targetBookId: newBook.id,
-          progress: 0,
-          message: `Starting comparison of "${existingBook.title}" with "${newBook.title}"`,
-          status: 'running'
-        });
-        this.updateProgress(reverseComparisonKey);
-        
-        // Using the same higher threshold and topK=2 for reverse comparison
-        const reverseResults = await passageComparisonService.compareAllPassages(
-          existingBook.id,
-          newBook.id,
-          2, // topK - reduced from 3 to 2 to limit relationships
-          undefined, // batchSize is no longer used
-          (progress, message) => {
-            this.updateComparisonProgress(reverseComparisonKey, progress, message, 'running');
-          }
-        );
-        
-        // Save the reverse results
-        comparisonStore.addBulkComparisons(reverseResults, existingBook.id, newBook.id);
-        
-        // Mark both comparisons as complete
-        this.updateComparisonProgress(comparisonKey, 100, `Completed comparison of "${newBook.title}" with "${existingBook.title}"`, 'complete');
-        this.updateComparisonProgress(reverseComparisonKey, 100, `Completed comparison of "${existingBook.title}" with "${newBook.title}"`, 'complete');
-        
-      } catch (error) {
-        console.error(`Error comparing books ${newBook.title} and ${existingBook.title}:`, error);
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.updateComparisonProgress(comparisonKey, 0, errorMessage, 'error', errorMessage);
-      }
-    }
-    
-    // Restore the user's chosen threshold after automatic comparison
-    const userThreshold = comparisonStore.getSimilarityThreshold();
-    passageComparisonService.setSimilarityThreshold(userThreshold);
-  }
-  
-  /**
-   * Update progress for a specific comparison
-   */
-  private updateComparisonProgress(
-    comparisonKey: string, 
-    progress: number, 
-    message: string, 
-    status: ComparisonProgress['status'], 
-    error?: string
-  ) {
-    const comparison = this.currentComparisons.get(comparisonKey);
-    if (comparison) {
-      comparison.progress = progress;
-      comparison.message = message;
-      comparison.status = status;
-      comparison.error = error;
-      this.updateProgress(comparisonKey);
-    }
-  }
-  
-  /**
-   * Trigger progress callbacks
-   */
-  private updateProgress(comparisonKey: string) {
-    const comparison = this.currentComparisons.get(comparisonKey);
-    if (comparison) {
-      this.progressCallbacks.forEach(callback => {
-        callback(comparison);
-      });
-    }
-  }
-  
-  /**
-   * Get current comparisons
-   */
-  getCurrentComparisons(): ComparisonProgress[] {
-    return Array.from(this.currentComparisons.values());
+    });
   }
 }
 
 // Singleton instance
-export const autoComparisonService = new AutoComparisonService(); 
\ No newline at end of file
+export const autoComparisonService = new AutoComparisonService();
@@ -0,0 +1,310 @@
+import { TimeoutController } from '@/utils/timeoutController';
+import { withRetry } from '@/utils/retry';
+import { CompletionProvider, DEFAULT_COMPLETION_MODELS, ProxyCompletionProvider, estimateUsage } from './completionProviders';
+import { usageLedger, UsageContext } from './usageLedger';
+import type { UsageFeature } from '@/store/usageStore';
+
+/**
+ * Types for chat completions
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: string;
+  model: string;
+  usage: CompletionUsage;
+}
+
+/**
+ * The jobs we use completions for; each can run on its own provider and model
+ */
+export type CompletionTask = 'analysis' | 'comparison' | 'bookComparison' | 'chat' | 'summarization';
+
+export const COMPLETION_TASKS: { task: CompletionTask, label: string }[] = [
+  { task: 'analysis', label: 'Passage analysis' },
+  { task: 'comparison', label: 'Passage comparison' },
+  { task: 'bookComparison', label: 'Full book comparison' },
+  { task: 'chat', label: 'Chat' },
+  { task: 'summarization', label: 'Chat history summaries' }
+];
+
+/**
+ * How a streamed completion ended
+ * - complete: the model finished its answer
+ * - stopped: the caller aborted it
+ * - interrupted: the connection dropped or went idle after part of the answer arrived
+ */
+export type StreamStatus = 'complete' | 'stopped' | 'interrupted';
+
+export interface StreamResult extends CompletionResult {
+  status: StreamStatus;
+}
+
+export interface StreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal; // Aborting stops generation, keeping what arrived so far
+}
+
+export interface ModelSelection {
+  provider: string;
+  model: string;
+}
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  timeoutMs?: number; // When streaming, how long the response may go without new tokens
+  usage?: Partial<UsageContext>; // What to attribute the cost to; the feature defaults by task
+  signal?: AbortSignal; // Aborting cancels complete() with an AbortError; stream() takes its own in StreamOptions
+}
+
+/**
+ * A request as sent to a provider, with the model resolved
+ */
+export interface ProviderRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens: number;
+  topP?: number;
+}
+
+const LLAMA_MODEL = DEFAULT_COMPLETION_MODELS.llama;
+
+// Every task runs on the Llama API unless configured otherwise
+const DEFAULT_TASK_MODELS: Record<CompletionTask, ModelSelection> = {
+  analysis: { provider: 'llama', model: LLAMA_MODEL },
+  comparison: { provider: 'llama', model: LLAMA_MODEL },
+  bookComparison: { provider: 'llama', model: LLAMA_MODEL },
+  chat: { provider: 'llama', model: LLAMA_MODEL },
+  summarization: { provider: 'llama', model: LLAMA_MODEL }
+};
+
+// The feature each task's cost is attributed to unless the request says otherwise
+const TASK_FEATURES: Record<CompletionTask, UsageFeature> = {
+  analysis: 'analysis',
+  comparison: 'comparison',
+  bookComparison: 'comparison',
+  chat: 'chat',
+  summarization: 'chat'
+};
+
+// Where per-task model choices are remembered
+const TASK_MODELS_STORAGE_KEY = 'completion-task-models';
+
+const DEFAULT_TIMEOUT_MS = 180000; // 3 minutes
+const DEFAULT_MAX_TOKENS = 4000;
+const MAX_RETRIES = 2;
+
+/**
+ * Sends chat completions to the provider and model chosen for each task,
+ * with timeouts, retries on rate limits and server errors, and a usage ledger
+ */
+class CompletionClient {
+  private providers: Map<string, CompletionProvider> = new Map();
+  private taskModels: Record<CompletionTask, ModelSelection> = { ...DEFAULT_TASK_MODELS };
+  
+  constructor() {
+    // Requests go through the server, which holds the API keys
+    Object.keys(DEFAULT_COMPLETION_MODELS).forEach(name => this.registerProvider(new ProxyCompletionProvider(name)));
+    this.loadTaskModels();
+  }
+  
+  /**
+   * Add a provider, replacing any with the same name
+   */
+  registerProvider(provider: CompletionProvider) {
+    this.providers.set(provider.name, provider);
+  }
+  
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+  
+  getDefaultModel(providerName: string): string {
+    return this.providers.get(providerName)?.defaultModel || '';
+  }
+  
+  getTaskModel(task: CompletionTask): ModelSelection {
+    return this.taskModels[task];
+  }
+  
+  /**
+   * The model a task's requests go to, falling back to its provider's default
+   */
+  getTaskModelName(task: CompletionTask): string {
+    const selection = this.taskModels[task];
+    return selection.model || this.getDefaultModel(selection.provider);
+  }
+  
+  /**
+   * Choose the provider and model for a task
+   */
+  setTaskModel(task: CompletionTask, selection: ModelSelection) {
+    this.taskModels = { ...this.taskModels, [task]: selection };
+    
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(TASK_MODELS_STORAGE_KEY, JSON.stringify(this.taskModels));
+    }
+  }
+  
+  private loadTaskModels() {
+    if (typeof window === 'undefined') return;
+    
+    try {
+      const saved = localStorage.getItem(TASK_MODELS_STORAGE_KEY);
+      if (saved) {
+        this.taskModels = { ...DEFAULT_TASK_MODELS, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.error('Error loading model settings:', error);
+    }
+  }
+  
+  /**
+   * Run a chat completion for a task
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { provider, providerRequest, timeoutMs } = this.resolve(request);
+    const { signal } = request;
+    const usage = this.getUsageContext(request);
+    await usageLedger.checkBudget(usage, signal);
+    
+    const startedAt = Date.now();
+    const result = await withRetry(async () => {
+      const timeoutController = new TimeoutController(timeoutMs);
+      const stop = () => timeoutController.controller.abort();
+      signal?.addEventListener('abort', stop);
+      if (signal?.aborted) stop();
+      
+      try {
+        return await provider.complete(providerRequest, timeoutController.controller.signal);
+      } catch (error) {
+        // Cancelled by the caller rather than timed out
+        signal?.throwIfAborted();
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new Error(`Request timed out after ${timeoutMs}ms. The API might be overloaded.`);
+        }
+        throw error;
+      } finally {
+        timeoutController.clear();
+        signal?.removeEventListener('abort', stop);
+      }
+    }, { maxRetries: MAX_RETRIES, signal });
+    
+    this.recordUsage(result, usage, Date.now() - startedAt);
+    return result;
+  }
+  
+  /**
+   * Run a chat completion for a task, passing tokens to onToken as they arrive.
+   * A stopped or dropped stream resolves with the partial answer instead of failing.
+   */
+  async stream(request: CompletionRequest, options: StreamOptions = {}): Promise<StreamResult> {
+    const { provider, providerRequest, timeoutMs } = this.resolve(request);
+    const { onToken, signal } = options;
+    const usage = this.getUsageContext(request);
+    await usageLedger.checkBudget(usage);
+    
+    const startedAt = Date.now();
+    const result = await withRetry(async (): Promise<StreamResult> => {
+      let content = '';
+      const timeoutController = new TimeoutController(timeoutMs);
+      const stop = () => timeoutController.controller.abort();
+      signal?.addEventListener('abort', stop);
+      if (signal?.aborted) stop();
+      
+      try {
+        const streamed = await provider.stream(providerRequest, timeoutController.controller.signal, token => {
+          timeoutController.restart();
+          content += token;
+          onToken?.(token);
+        });
+        return { ...streamed, status: 'complete' };
+      } catch (error) {
+        // Keep whatever arrived; only a request that produced nothing is an error
+        if (signal?.aborted || content) {
+          return {
+            content,
+            provider: provider.name,
+            model: providerRequest.model,
+            usage: estimateUsage(providerRequest, content),
+            status: signal?.aborted ? 'stopped' : 'interrupted'
+          };
+        }
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new Error(`Request timed out after ${timeoutMs}ms. The API might be overloaded.`);
+        }
+        throw error;
+      } finally {
+        timeoutController.clear();
+        signal?.removeEventListener('abort', stop);
+      }
+    }, { maxRetries: MAX_RETRIES });
+    
+    if (result.status !== 'complete') {
+      console.warn(`Completion stream ${result.status} after ${result.content.length} characters`);
+    }
+    this.recordUsage(result, usage, Date.now() - startedAt);
+    return result;
+  }
+  
+  /**
+   * Find the provider and model for a request
+   */
+  private resolve(request: CompletionRequest): { provider: CompletionProvider, providerRequest: ProviderRequest, timeoutMs: number } {
+    const selection = this.taskModels[request.task];
+    const provider = this.providers.get(selection.provider);
+    if (!provider) {
+      throw new Error(`Unknown completion provider: ${selection.provider}`);
+    }
+    
+    return {
+      provider,
+      providerRequest: {
+        model: selection.model || provider.defaultModel,
+        messages: request.messages,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        topP: request.topP
+      },
+      timeoutMs: request.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    };
+  }
+  
+  private getUsageContext(request: CompletionRequest): UsageContext {
+    return {
+      feature: request.usage?.feature ?? TASK_FEATURES[request.task],
+      bookIds: request.usage?.bookIds ?? []
+    };
+  }
+  
+  private recordUsage(result: CompletionResult, usage: UsageContext, latencyMs: number) {
+    usageLedger.record({
+      kind: 'completion',
+      provider: result.provider,
+      model: result.model,
+      feature: usage.feature,
+      bookIds: usage.bookIds,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      latencyMs
+    });
+  }
+}
+
+// Singleton instance
+export const completionClient = new CompletionClient();
@@ -0,0 +1,318 @@
+import type { CompletionResult, CompletionUsage, ProviderRequest } from './completionClient';
+import { estimateTokens, estimateMessageTokens } from '@/lib/tokenEstimation';
+
+// Models used when a task doesn't name one
+export const DEFAULT_COMPLETION_MODELS: Record<string, string> = {
+  llama: 'Llama-4-Maverick-17B-128E-Instruct-FP8',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-5',
+  'openai-compatible': process.env.NEXT_PUBLIC_COMPLETION_MODEL || 'llama3.1'
+};
+
+// Route that forwards completions to the providers with the server's API keys
+const COMPLETIONS_ROUTE = '/api/completions';
+
+/**
+ * A chat completion API
+ */
+export interface CompletionProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult>;
+  stream(request: ProviderRequest, signal: AbortSignal, onToken: (token: string) => void): Promise<CompletionResult>;
+}
+
+/**
+ * A completion endpoint answered with an HTTP error
+ */
+export class CompletionRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CompletionRequestError';
+  }
+}
+
+/**
+ * Throw a CompletionRequestError for failed responses, including error pages served as HTML
+ */
+const checkResponse = async (response: Response): Promise<void> => {
+  const contentType = response.headers.get('content-type');
+  if (contentType && contentType.includes('text/html')) {
+    throw new CompletionRequestError(
+      'Received HTML response instead of JSON. The API might be down or returning an error page.',
+      response.status
+    );
+  }
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new CompletionRequestError(
+      `HTTP error: ${response.status} ${response.statusText}. Details: ${errorText}`,
+      response.status
+    );
+  }
+};
+
+/**
+ * Read a server-sent event stream, passing the payload of each data line to onData
+ */
+const readEventStream = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new CompletionRequestError('Response has no body to stream', response.status);
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+    
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) onData(data);
+    }
+  }
+};
+
+/**
+ * Estimated token counts for streams that don't report usage
+ */
+export const estimateUsage = (request: ProviderRequest, content: string): CompletionUsage => {
+  const promptTokens = estimateMessageTokens(request.messages, request.model);
+  const completionTokens = estimateTokens(content, request.model);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+/**
+ * Any API that speaks OpenAI's /chat/completions format: the Llama API,
+ * OpenAI itself, or a local model server
+ */
+export class OpenAICompatibleCompletionProvider implements CompletionProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey: string;
+  
+  constructor(name: string, baseUrl: string, defaultModel: string, apiKey: string = '') {
+    this.name = name;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.defaultModel = defaultModel;
+    this.apiKey = apiKey;
+  }
+  
+  async complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.post(request, false, signal);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content || '';
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: data.usage ? {
+        promptTokens: data.usage.prompt_tokens ?? 0,
+        completionTokens: data.usage.completion_tokens ?? 0,
+        totalTokens: data.usage.total_tokens ?? 0
+      } : estimateUsage(request, content)
+    };
+  }
+  
+  async stream(request: ProviderRequest, signal: AbortSignal, onToken: (token: string) => void): Promise<CompletionResult> {
+    const response = await this.post(request, true, signal);
+    let content = '';
+    let usage: CompletionUsage | undefined;
+    
+    await readEventStream(response, data => {
+      const chunk = JSON.parse(data);
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      // Some servers report usage in the final chunk
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens ?? 0,
+          completionTokens: chunk.usage.completion_tokens ?? 0,
+          totalTokens: chunk.usage.total_tokens ?? 0
+        };
+      }
+    });
+    
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: usage || estimateUsage(request, content)
+    };
+  }
+  
+  private async post(request: ProviderRequest, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        stream
+      }),
+      signal
+    });
+    await checkResponse(response);
+    return response;
+  }
+}
+
+/**
+ * Anthropic's Messages API
+ */
+export class AnthropicCompletionProvider implements CompletionProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private apiKey: string;
+  
+  constructor(apiKey: string = '', defaultModel: string = DEFAULT_COMPLETION_MODELS.anthropic) {
+    this.apiKey = apiKey;
+    this.defaultModel = defaultModel;
+  }
+  
+  async complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.post(request, false, signal);
+    const data = await response.json();
+    const content = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    const promptTokens = data.usage?.input_tokens ?? 0;
+    const completionTokens = data.usage?.output_tokens ?? 0;
+    
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+  
+  async stream(request: ProviderRequest, signal: AbortSignal, onToken: (token: string) => void): Promise<CompletionResult> {
+    const response = await this.post(request, true, signal);
+    let content = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    
+    await readEventStream(response, data => {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        content += event.delta.text;
+        onToken(event.delta.text);
+      } else if (event.type === 'message_start') {
+        promptTokens = event.message?.usage?.input_tokens ?? 0;
+      } else if (event.type === 'message_delta') {
+        completionTokens = event.usage?.output_tokens ?? completionTokens;
+      } else if (event.type === 'error') {
+        throw new CompletionRequestError(event.error?.message || 'Stream error', 500);
+      }
+    });
+    
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+  
+  private async post(request: ProviderRequest, stream: boolean, signal: AbortSignal): Promise<Response> {
+    // System prompts go in their own field rather than the message list
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter(message => message.role !== 'system');
+    
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: request.model,
+        ...(system ? { system } : {}),
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: request.topP,
+        ...(stream ? { stream } : {})
+      }),
+      signal
+    });
+    await checkResponse(response);
+    return response;
+  }
+}
+
+/**
+ * A provider reached through the app's completions route, so its API key stays on the server.
+ * Streams arrive as server-sent events carrying tokens, then the final result or an error.
+ */
+export class ProxyCompletionProvider implements CompletionProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  
+  constructor(name: string, defaultModel: string = DEFAULT_COMPLETION_MODELS[name] || '') {
+    this.name = name;
+    this.defaultModel = defaultModel;
+  }
+  
+  async complete(request: ProviderRequest, signal: AbortSignal): Promise<CompletionResult> {
+    const response = await this.post(request, false, signal);
+    return response.json();
+  }
+  
+  async stream(request: ProviderRequest, signal: AbortSignal, onToken: (token: string) => void): Promise<CompletionResult> {
+    const response = await this.post(request, true, signal);
+    let result: CompletionResult | undefined;
+    
+    await readEventStream(response, data => {
+      const event = JSON.parse(data);
+      if (event.token) {
+        onToken(event.token);
+      } else if (event.result) {
+        result = event.result;
+      } else if (event.error) {
+        throw new CompletionRequestError(event.error, event.status ?? 502);
+      }
+    });
+    
+    if (!result) {
+      throw new CompletionRequestError('Completion stream ended without a result', 502);
+    }
+    return result;
+  }
+  
+  private async post(request: ProviderRequest, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(COMPLETIONS_ROUTE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider: this.name, request, stream }),
+      signal
+    });
+    await checkResponse(response);
+    return response;
+  }
+}
@@ -0,0 +1,280 @@
+import OpenAI from 'openai';
+
+/**
+ * Something that turns text into embedding vectors. Vectors are only comparable
+ * with vectors from the same provider, model and dimension.
+ */
+export interface EmbeddingProvider {
+  readonly name: string; // e.g. "openai", "openai-compatible", "local"
+  readonly model: string;
+  isConfigured(): boolean;
+  getDimension(): Promise<number>;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>; // Aborting cancels the request
+}
+
+/**
+ * An embeddings endpoint answered with an HTTP error
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+  }
+}
+
+// Dimensions of OpenAI's embedding models, so they don't need to be probed
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-large': 3072,
+  'text-embedding-3-small': 1536,
+  'text-embedding-ada-002': 1536,
+};
+
+/**
+ * Find a provider's dimension by embedding a short text
+ */
+const probeDimension = async (provider: EmbeddingProvider): Promise<number> => {
+  const [embedding] = await provider.embed(['dimension probe']);
+  return embedding.length;
+};
+
+/**
+ * Sort an OpenAI-style embeddings response back into input order
+ */
+const toEmbeddings = (data: { index: number, embedding: number[] }[]): number[][] => {
+  return data
+    .slice()
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.embedding);
+};
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private apiKey: string;
+  private openai: OpenAI;
+  private dimension: number | undefined;
+  
+  constructor(apiKey: string, model: string = 'text-embedding-3-large') {
+    this.model = model;
+    this.apiKey = apiKey;
+    this.dimension = OPENAI_DIMENSIONS[model];
+    this.openai = this.createClient();
+  }
+  
+  private createClient(): OpenAI {
+    return new OpenAI({
+      apiKey: this.apiKey || '',
+      maxRetries: 0 // Retries are handled by the embedding service
+    });
+  }
+  
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+  
+  async getDimension(): Promise<number> {
+    if (this.dimension === undefined) {
+      this.dimension = await probeDimension(this);
+    }
+    return this.dimension;
+  }
+  
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key is required. Please set OPENAI_API_KEY on the server or add your own key under "API keys".');
+    }
+    
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+    }, { signal });
+    return toEmbeddings(response.data);
+  }
+}
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1"
+  model: string;
+  apiKey?: string;
+  dimension?: number; // Probed from the server when not given
+}
+
+/**
+ * Embeddings from any server exposing an OpenAI-style /embeddings endpoint,
+ * such as a local model server, so text never leaves the machine
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  private config: OpenAICompatibleProviderConfig;
+  private dimension: number | undefined;
+  
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.model = config.model;
+    this.dimension = config.dimension;
+  }
+  
+  isConfigured(): boolean {
+    return !!this.config.baseUrl && !!this.model;
+  }
+  
+  async getDimension(): Promise<number> {
+    if (this.dimension === undefined) {
+      this.dimension = await probeDimension(this);
+    }
+    return this.dimension;
+  }
+  
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(`${this.config.baseUrl}/embeddings`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, input: texts })
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new EmbeddingRequestError(
+        `HTTP error: ${response.status} ${response.statusText}. Details: ${errorText}`,
+        response.status
+      );
+    }
+    
+    const data = await response.json();
+    return toEmbeddings(data.data);
+  }
+}
+
+// Route that forwards embedding requests to the providers with the server's API keys
+const EMBEDDINGS_ROUTE = '/api/embeddings';
+
+/**
+ * A provider reached through the app's embeddings route, so its API key stays on the server
+ */
+export class ProxyEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string; // The provider the server forwards to, e.g. "openai"
+  readonly model: string;
+  private dimension: number | undefined;
+  private checkConfigured: () => boolean;
+  
+  constructor(name: string, model: string, dimension: number | undefined, checkConfigured: () => boolean) {
+    this.name = name;
+    this.model = model;
+    this.dimension = dimension ?? (name === 'openai' ? OPENAI_DIMENSIONS[model] : undefined);
+    this.checkConfigured = checkConfigured;
+  }
+  
+  isConfigured(): boolean {
+    return this.checkConfigured();
+  }
+  
+  async getDimension(): Promise<number> {
+    if (this.dimension === undefined) {
+      this.dimension = await probeDimension(this);
+    }
+    return this.dimension;
+  }
+  
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(EMBEDDINGS_ROUTE, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider: this.name, model: this.model, input: texts })
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new EmbeddingRequestError(
+        `HTTP error: ${response.status} ${response.statusText}. Details: ${errorText}`,
+        response.status
+      );
+    }
+    
+    const data: { embeddings: number[][] } = await response.json();
+    return data.embeddings;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Embeddings computed in the browser from hashed word and character n-grams.
+ * Needs no network and no model download; it captures shared vocabulary
+ * rather than meaning, so matches are coarser than with a trained model.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashed-ngram-v1';
+  private dimension: number;
+  
+  constructor(dimension: number = 1024) {
+    this.dimension = dimension;
+  }
+  
+  isConfigured(): boolean {
+    return true;
+  }
+  
+  async getDimension(): Promise<number> {
+    return this.dimension;
+  }
+  
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+  
+  private getFeatures(text: string): string[] {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features: string[] = [];
+    
+    words.forEach((word, i) => {
+      features.push(`w:${word}`);
+      if (i > 0) {
+        features.push(`b:${words[i - 1]} ${word}`);
+      }
+      
+      // Character trigrams let inflected forms of a word overlap
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        features.push(`c:${padded.slice(j, j + 3)}`);
+      }
+    });
+    
+    return features;
+  }
+  
+  private embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    this.getFeatures(text).forEach(feature => counts.set(feature, (counts.get(feature) || 0) + 1));
+    
+    const vector = new Array<number>(this.dimension).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      // A second hash picks the sign, so collisions cancel out instead of piling up
+      const sign = fnv1a(`${feature}#`) & 1 ? 1 : -1;
+      vector[hash % this.dimension] += sign * (1 + Math.log(count));
+    });
+    
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
@@ -1,124 +1,357 @@
-import OpenAI from 'openai';
 import { Passage } from '@/lib/textProcessing';
+import { VectorStore, VectorRecord, VectorMatch, LocalVectorStore, MemoryVectorStore, rankAllPairs, cosineSimilarity } from './vectorStore';
+import { RemoteVectorStore } from './remoteVectorStore';
+import { EmbeddingProvider, ProxyEmbeddingProvider, HashedNgramEmbeddingProvider } from './embeddingProviders';
+import { apiKeyService } from './apiKeyService';
+import { usageLedger, UsageContext } from './usageLedger';
+import { estimateTokens } from '@/lib/tokenEstimation';
+import { estimateCost, getModelPrice } from '@/lib/usageCost';
+import { withRetry, isRetryableError } from '@/utils/retry';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { isAbortError } from '@/utils/abort';
 
-// OpenAI API key
-const OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
+// Embedding provider: "openai" (default), "openai-compatible" or "local".
+// Endpoints and keys are read by the server, which makes the requests.
+const EMBEDDING_PROVIDER = process.env.NEXT_PUBLIC_EMBEDDING_PROVIDER || 'openai';
+const EMBEDDING_MODEL = process.env.NEXT_PUBLIC_EMBEDDING_MODEL || '';
+const EMBEDDING_DIMENSION = Number(process.env.NEXT_PUBLIC_EMBEDDING_DIMENSION) || undefined;
+
+// Pinecone index on the server; without one vectors are kept locally
+const PINECONE_INDEX = process.env.NEXT_PUBLIC_PINECONE_INDEX || '';
 
 // Default config for embedding
 interface EmbeddingServiceConfig {
-  apiKey: string;
-  model: string;
+  batchSize: number; // Passages sent in one embeddings request
+  concurrency: number; // Embeddings requests in flight at once
+  maxRetries: number; // Retries per request on rate limits and server errors
 }
 
 // Default config
 const DEFAULT_CONFIG: EmbeddingServiceConfig = {
-  apiKey: OPENAI_API_KEY,
-  model: 'text-embedding-3-large',
+  batchSize: 64,
+  concurrency: 3,
+  maxRetries: 5,
 };
 
-// Vector storage interface
-interface PassageVector {
+/**
+ * A passage that could not be embedded
+ */
+export interface EmbeddingFailure {
   passageId: string;
+  error: string;
+}
+
+/**
+ * Outcome of embedding a set of passages
+ */
+export interface EmbeddingReport {
+  total: number;
+  embedded: number;
+  skipped: number; // Already had a stored vector
+  failed: EmbeddingFailure[];
+}
+
+/**
+ * A book whose stored vectors were added or deleted
+ */
+export interface VectorChange {
   bookId: string;
-  vector: number[];
+  namespace?: string; // Every namespace when left out
 }
 
 /**
- * Calculate cosine similarity between two vectors
+ * What embedding a set of passages is expected to take
  */
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
+export interface EmbeddingEstimate {
+  calls: number;
+  tokens: number;
+  cost: number;
+  durationMs: number;
+  priced: boolean; // False when the model is missing from the price table and counted as free
+}
+
+/**
+ * Pick the vector store: the server's Pinecone index when configured, otherwise IndexedDB,
+ * falling back to memory where IndexedDB isn't available (e.g. server rendering)
+ */
+export const createDefaultVectorStore = (): VectorStore => {
+  if (PINECONE_INDEX) {
+    return new RemoteVectorStore();
   }
   
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
+  return typeof indexedDB !== 'undefined' ? new LocalVectorStore() : new MemoryVectorStore();
+};
+
+/**
+ * Pick the embedding provider from the environment
+ */
+export const createDefaultEmbeddingProvider = (): EmbeddingProvider => {
+  const isConfigured = () => apiKeyService.isEmbeddingConfigured();
+  
+  switch (EMBEDDING_PROVIDER) {
+    case 'openai-compatible':
+      return new ProxyEmbeddingProvider('openai-compatible', EMBEDDING_MODEL, EMBEDDING_DIMENSION, isConfigured);
+    case 'local':
+      return new HashedNgramEmbeddingProvider(EMBEDDING_DIMENSION);
+    default:
+      return new ProxyEmbeddingProvider('openai', EMBEDDING_MODEL || 'text-embedding-3-large', EMBEDDING_DIMENSION, isConfigured);
+  }
+};
+
+// Assumed time of an embeddings request before any have been timed
+const DEFAULT_EMBEDDING_LATENCY_MS = 2000;
+
+// Embeddings are mostly made to compare books, so that's what they're attributed to by default
+const DEFAULT_USAGE: UsageContext = { feature: 'comparison', bookIds: [] };
+
+const getErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
 
 /**
  * Service for generating and storing embeddings
  */
 export class EmbeddingService {
   private config: EmbeddingServiceConfig;
-  private openai: OpenAI;
-  private passageVectors: Map<string, PassageVector> = new Map();
+  private provider: EmbeddingProvider;
+  private vectorStore: VectorStore;
+  private lastFailures: Map<string, string> = new Map(); // passageId -> error
+  private changeListeners: ((change: VectorChange, elsewhere: boolean) => void)[] = [];
   
-  constructor(config: Partial<EmbeddingServiceConfig> = {}) {
+  constructor(
+    config: Partial<EmbeddingServiceConfig> = {},
+    vectorStore: VectorStore = createDefaultVectorStore(),
+    provider: EmbeddingProvider = createDefaultEmbeddingProvider()
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey || '',
-      dangerouslyAllowBrowser: true // Enable client-side usage
-    });
+    this.vectorStore = vectorStore;
+    this.provider = provider;
   }
   
   /**
-   * Set OpenAI API key
+   * Use a different embedding provider
    */
-  setApiKey(apiKey: string) {
-    this.config.apiKey = apiKey;
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey,
-      dangerouslyAllowBrowser: true // Enable client-side usage
-    });
+  setProvider(provider: EmbeddingProvider) {
+    this.provider = provider;
+    this.lastFailures.clear();
+  }
+  
+  /**
+   * Check whether the provider can produce embeddings, e.g. has its API key
+   */
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+  
+  /**
+   * Use a different vector store
+   */
+  setVectorStore(vectorStore: VectorStore) {
+    this.vectorStore = vectorStore;
+  }
+  
+  /**
+   * Vectors from different providers, models or dimensions can't be compared,
+   * so each combination gets its own namespace, e.g. "openai:text-embedding-3-large:3072"
+   */
+  private async getNamespace(): Promise<string> {
+    const dimension = await this.provider.getDimension();
+    return `${this.provider.name}:${this.provider.model}:${dimension}`;
   }
   
   /**
    * Generate embedding for a passage
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, usage: Partial<UsageContext> = {}): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text], usage);
+    return embedding;
+  }
+  
+  /**
+   * Generate embeddings for several texts in a single request,
+   * backing off and retrying on rate limits and server errors.
+   * Each request is recorded in the usage ledger under usage.
+   */
+  async generateEmbeddings(texts: string[], usage: Partial<UsageContext> = {}, signal?: AbortSignal): Promise<number[][]> {
+    const context = { ...DEFAULT_USAGE, ...usage };
     try {
-      if (!this.config.apiKey) {
-        throw new Error('OpenAI API key is required. Please set your API key in .env.local file or via the UI.');
-      }
+      await usageLedger.checkBudget(context, signal);
       
-      const response = await this.openai.embeddings.create({
-        model: this.config.model,
-        input: text,
+      const startedAt = Date.now();
+      const embeddings = await withRetry(
+        () => this.provider.embed(texts, signal),
+        { maxRetries: this.config.maxRetries, signal }
+      );
+      usageLedger.record({
+        kind: 'embedding',
+        provider: this.provider.name,
+        model: this.provider.model,
+        ...context,
+        promptTokens: texts.reduce((total, text) => total + estimateTokens(text), 0),
+        completionTokens: 0,
+        latencyMs: Date.now() - startedAt
       });
       
-      return response.data[0].embedding;
+      const dimension = await this.provider.getDimension();
+      const mismatched = embeddings.find(embedding => embedding.length !== dimension);
+      if (mismatched) {
+        throw new Error(`Expected ${dimension}-dimensional embeddings from ${this.provider.name}, got ${mismatched.length}`);
+      }
+      return embeddings;
     } catch (error) {
-      console.error('Error generating embedding:', error);
+      if (!isAbortError(error)) {
+        console.error('Error generating embeddings:', error);
+      }
       throw error;
     }
   }
   
   /**
-   * Process and store embeddings for multiple passages
+   * Embed one batch of passages. If the batch is rejected outright, each passage
+   * is sent on its own so a single bad input doesn't fail the rest.
+   */
+  private async embedBatch(
+    batch: Passage[],
+    failed: EmbeddingFailure[],
+    usage: Partial<UsageContext>,
+    signal?: AbortSignal
+  ): Promise<VectorRecord[]> {
+    const toRecord = (passage: Passage, embedding: number[]): VectorRecord => ({
+      id: passage.id,
+      bookId: passage.bookId,
+      values: new Float32Array(embedding),
+    });
+    
+    try {
+      const embeddings = await this.generateEmbeddings(batch.map(passage => passage.text), usage, signal);
+      return batch.map((passage, i) => toRecord(passage, embeddings[i]));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (batch.length === 1 || isRetryableError(error)) {
+        batch.forEach(passage => failed.push({ passageId: passage.id, error: getErrorMessage(error) }));
+        return [];
+      }
+    }
+    
+    const records: VectorRecord[] = [];
+    for (const passage of batch) {
+      try {
+        const [embedding] = await this.generateEmbeddings([passage.text], usage, signal);
+        records.push(toRecord(passage, embedding));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        failed.push({ passageId: passage.id, error: getErrorMessage(error) });
+      }
+    }
+    return records;
+  }
+  
+  /**
+   * Process and store embeddings for multiple passages.
+   * Passages that already have a stored vector for the current model are skipped,
+   * so calling this again after a partial failure only retries the missing ones.
+   * Aborting signal stops it between batches and cancels requests in flight; batches
+   * already stored are kept.
    */
-  async processPassages(passages: Passage[]): Promise<void> {
-    console.log(`Processing embeddings for ${passages.length} passages`);
+  async processPassages(passages: Passage[], usage: Partial<UsageContext> = {}, signal?: AbortSignal): Promise<EmbeddingReport> {
+    if (!this.provider.isConfigured()) {
+      throw new Error(`The ${this.provider.name} embedding provider is not configured. Please set its key on the server or add your own under "API keys".`);
+    }
     
-    // Generate embeddings for each passage
-    const results = await Promise.all(
-      passages.map(async (passage) => {
-        try {
-          const vector = await this.generateEmbedding(passage.text);
-          return {
-            passageId: passage.id,
-            bookId: passage.bookId,
-            vector,
-          };
-        } catch (error) {
-          console.error(`Error processing passage ${passage.id}:`, error);
-          return null;
-        }
-      })
-    );
+    const namespace = await this.getNamespace();
+    const missingPassages = await this.getMissingPassages(passages);
+    const report: EmbeddingReport = {
+      total: passages.length,
+      embedded: 0,
+      skipped: passages.length - missingPassages.length,
+      failed: [],
+    };
+    console.log(`Processing embeddings for ${missingPassages.length} of ${passages.length} passages`);
     
-    // Store the valid results
-    results.filter(Boolean).forEach((result) => {
-      if (result) {
-        this.passageVectors.set(result.passageId, result);
+    if (missingPassages.length === 0) return report;
+    
+    const batches: Passage[][] = [];
+    for (let i = 0; i < missingPassages.length; i += this.config.batchSize) {
+      batches.push(missingPassages.slice(i, i + this.config.batchSize));
+    }
+    
+    await mapWithConcurrency(batches, this.config.concurrency, async (batch) => {
+      signal?.throwIfAborted();
+      const records = await this.embedBatch(batch, report.failed, {
+        bookIds: Array.from(new Set(batch.map(passage => passage.bookId))),
+        ...usage
+      }, signal);
+      if (records.length === 0) return;
+      
+      // Store each batch as it arrives, so finished work survives a later failure
+      try {
+        await this.vectorStore.upsert(namespace, records);
+        report.embedded += records.length;
+        new Set(records.map(record => record.bookId)).forEach(bookId => this.notifyChange({ bookId, namespace }));
+      } catch (error) {
+        console.error('Error storing embeddings:', error);
+        records.forEach(record => report.failed.push({ passageId: record.id, error: getErrorMessage(error) }));
       }
     });
     
-    console.log(`Successfully processed embeddings for ${results.filter(Boolean).length} passages`);
+    console.log(`Successfully processed embeddings for ${report.embedded} passages, ${report.failed.length} failed`);
+    missingPassages.forEach(passage => this.lastFailures.delete(passage.id));
+    report.failed.forEach(failure => this.lastFailures.set(failure.passageId, failure.error));
+    return report;
+  }
+  
+  /**
+   * Estimate the requests, tokens, cost and time processPassages would take,
+   * counting only the passages that have no stored vector yet
+   */
+  async estimateProcessing(passages: Passage[]): Promise<EmbeddingEstimate> {
+    const missingPassages = await this.getMissingPassages(passages);
+    const calls = Math.ceil(missingPassages.length / this.config.batchSize);
+    const tokens = missingPassages.reduce((total, passage) => total + estimateTokens(passage.text), 0);
+    const latency = usageLedger.getAverageLatency('embedding', this.provider.name, this.provider.model) ?? DEFAULT_EMBEDDING_LATENCY_MS;
+    
+    return {
+      calls,
+      tokens,
+      cost: estimateCost(this.provider.name, this.provider.model, tokens, 0),
+      durationMs: Math.ceil(calls / this.config.concurrency) * latency,
+      priced: !!getModelPrice(this.provider.name, this.provider.model)
+    };
+  }
+  
+  /**
+   * Errors from the most recent attempt to embed each passage that failed
+   */
+  getFailures(passages: Passage[]): EmbeddingFailure[] {
+    return passages
+      .filter(passage => this.lastFailures.has(passage.id))
+      .map(passage => ({ passageId: passage.id, error: this.lastFailures.get(passage.id) || '' }));
+  }
+  
+  /**
+   * Find the passages that have no stored vector from the current provider
+   */
+  async getMissingPassages(passages: Passage[]): Promise<Passage[]> {
+    const namespace = await this.getNamespace();
+    const bookIds = Array.from(new Set(passages.map(passage => passage.bookId)));
+    const storedIds = new Set<string>();
+    
+    for (const bookId of bookIds) {
+      (await this.vectorStore.listIds(namespace, bookId)).forEach(id => storedIds.add(id));
+    }
+    
+    return passages.filter(passage => !storedIds.has(passage.id));
+  }
+  
+  /**
+   * Get the vector to query with for a passage: its stored vector when it has one,
+   * otherwise a fresh embedding of its text
+   */
+  async getQueryVector(passage: Passage, usage: Partial<UsageContext> = {}): Promise<ArrayLike<number>> {
+    const [stored] = await this.vectorStore.fetch(await this.getNamespace(), [passage.id]);
+    if (stored) return stored.values;
+    
+    return this.generateEmbedding(passage.text, usage);
   }
   
   /**
@@ -130,41 +363,25 @@ export class EmbeddingService {
     topK: number = 5
   ): Promise<{passage: Passage, similarity: number}[]> {
     try {
-      // Get the embedding for the query passage
-      const queryVector = await this.generateEmbedding(queryPassage.text);
-      
-      // Find passages from the target book
-      const targetPassageVectors = Array.from(this.passageVectors.values())
-        .filter(pv => pv.bookId === targetBookId);
-      
-      if (targetPassageVectors.length === 0) {
-        throw new Error(`No passages found for book ${targetBookId}`);
-      }
-      
-      // Calculate similarities
-      const similarities = targetPassageVectors.map(passageVector => {
-        const similarity = cosineSimilarity(queryVector, passageVector.vector);
-        return {
-          passageId: passageVector.passageId,
-          similarity,
-        };
-      });
-      
-      // Sort by similarity and take top K
-      const topResults = similarities
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK);
-      
-      return topResults.map(result => ({
-        passage: {
-          id: result.passageId,
-          text: '', // This needs to be filled from the book store
-          start: 0,
-          end: 0,
-          bookId: targetBookId,
-        },
-        similarity: result.similarity,
-      }));
+      const queryVector = await this.getQueryVector(queryPassage);
+      return await this.findSimilarToVector(queryVector, targetBookId, topK);
+    } catch (error) {
+      console.error('Error finding similar passages:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Find passages similar to ad-hoc text, such as a search query
+   */
+  async findSimilarToText(
+    text: string,
+    targetBookId: string,
+    topK: number = 5
+  ): Promise<{passage: Passage, similarity: number}[]> {
+    try {
+      const queryVector = await this.generateEmbedding(text);
+      return await this.findSimilarToVector(queryVector, targetBookId, topK);
     } catch (error) {
       console.error('Error finding similar passages:', error);
       throw error;
@@ -172,18 +389,116 @@ export class EmbeddingService {
   }
   
   /**
-   * Clear all stored vectors
+   * Check whether any passage of a book has a stored vector from the current provider
    */
-  clearVectors(): void {
-    this.passageVectors.clear();
+  async hasVectors(bookId: string): Promise<boolean> {
+    return (await this.vectorStore.listIds(await this.getNamespace(), bookId)).length > 0;
   }
   
   /**
-   * Get all passage vectors for a specific book
+   * Find the passages of a book closest to a query vector. A book without
+   * stored vectors has none.
    */
-  getBookVectors(bookId: string): PassageVector[] {
-    return Array.from(this.passageVectors.values())
-      .filter(pv => pv.bookId === bookId);
+  async findSimilarToVector(
+    queryVector: ArrayLike<number>,
+    targetBookId: string,
+    topK: number
+  ): Promise<{passage: Passage, similarity: number}[]> {
+    // Find the closest passages from the target book
+    const matches = await this.vectorStore.query(await this.getNamespace(), queryVector, {
+      topK,
+      bookId: targetBookId
+    });
+    
+    return matches.map(match => ({
+      passage: {
+        id: match.id,
+        text: '', // This needs to be filled from the book store
+        start: 0,
+        end: 0,
+        bookId: targetBookId,
+      },
+      similarity: match.score,
+    }));
+  }
+  
+  /**
+   * Cosine similarity between a query vector and specific stored passages.
+   * Passages without a stored vector are left out.
+   */
+  async scorePassages(queryVector: ArrayLike<number>, passageIds: string[]): Promise<Map<string, number>> {
+    const records = await this.vectorStore.fetch(await this.getNamespace(), passageIds);
+    return new Map(records.map(record => [record.id, cosineSimilarity(queryVector, record.values)]));
+  }
+  
+  /**
+   * Score every stored passage vector of one book against every one of another,
+   * keeping the best matches for each source passage, plus any target passages
+   * alsoScore lists for it. No embeddings are requested.
+   */
+  async findSimilarPassagesAcrossBooks(
+    sourceBookId: string,
+    targetBookId: string,
+    topK: number = 5,
+    alsoScore?: Map<string, string[]>
+  ): Promise<Map<string, VectorMatch[]>> {
+    const namespace = await this.getNamespace();
+    const [sourceRecords, targetRecords] = await Promise.all([
+      this.vectorStore.fetchByBook(namespace, sourceBookId),
+      this.vectorStore.fetchByBook(namespace, targetBookId)
+    ]);
+    
+    if (targetRecords.length === 0) {
+      throw new Error(`No passages found for book ${targetBookId}`);
+    }
+    
+    return rankAllPairs(sourceRecords, targetRecords, topK, alsoScore);
+  }
+  
+  /**
+   * Delete the stored vectors of passages that no longer exist in a book
+   */
+  async removeStaleVectors(bookId: string, passages: Passage[]): Promise<void> {
+    const namespace = await this.getNamespace();
+    const passageIds = new Set(passages.map(passage => passage.id));
+    const staleIds = (await this.vectorStore.listIds(namespace, bookId))
+      .filter(id => !passageIds.has(id));
+    
+    if (staleIds.length > 0) {
+      await this.vectorStore.delete(namespace, staleIds);
+      this.notifyChange({ bookId, namespace });
+    }
+  }
+  
+  /**
+   * Delete all stored vectors of a book, from every embedding model it was indexed with
+   */
+  async deleteBookVectors(bookId: string): Promise<void> {
+    await this.vectorStore.deleteBookFromAllNamespaces(bookId);
+    this.notifyChange({ bookId });
+  }
+  
+  /**
+   * Call listener whenever vectors are stored or deleted, here or, once reported, in the
+   * page or the job worker (elsewhere); returns a function that removes it
+   */
+  onVectorsChanged(listener: (change: VectorChange, elsewhere: boolean) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Forget cached vectors that the page or the job worker changed, so they are read again
+   */
+  forgetCachedVectors(change: VectorChange) {
+    this.vectorStore.evict?.(change.bookId, change.namespace);
+    this.notifyChange(change, true);
+  }
+  
+  private notifyChange(change: VectorChange, elsewhere: boolean = false) {
+    this.changeListeners.forEach(listener => listener(change, elsewhere));
   }
 }
 
@@ -0,0 +1,223 @@
+import { Book, Passage } from '@/lib/textProcessing';
+import { LexicalMatch, searchLexicalIndex } from '@/lib/lexicalIndex';
+import { loadLexicalIndex } from '@/lib/bookDatabase';
+import { embeddingService } from './embeddingService';
+import type { UsageContext } from './usageLedger';
+
+/**
+ * How semantic (embedding) and lexical (BM25) rankings are combined
+ * - weighted: cosine similarity plus BM25 scaled against the best lexical match
+ * - rrf: reciprocal rank fusion, which only looks at each passage's rank in either list
+ */
+export type FusionMethod = 'weighted' | 'rrf';
+
+export interface HybridSearchOptions {
+  fusion: FusionMethod;
+  semanticWeight: number;
+  lexicalWeight: number; // 0 turns retrieval back into pure embedding search
+  rrfK: number; // Dampens the advantage of top ranks in reciprocal rank fusion
+}
+
+// With these defaults a passage scores its cosine similarity plus up to 0.2 for sharing rare terms
+export const DEFAULT_HYBRID_SEARCH_OPTIONS: HybridSearchOptions = {
+  fusion: 'weighted',
+  semanticWeight: 1,
+  lexicalWeight: 0.2,
+  rrfK: 60
+};
+
+/**
+ * A retrieved passage. Scores are normalized to 0-1 so the similarity threshold still applies.
+ */
+export interface HybridMatch {
+  id: string;
+  score: number;
+  semanticScore?: number; // Cosine similarity
+  lexicalScore?: number; // BM25 score
+}
+
+// Each ranking contributes this many candidates per result
+const CANDIDATE_POOL_FACTOR = 4;
+const MIN_CANDIDATE_POOL = 20;
+
+/**
+ * Merge a semantic and a lexical ranking into one
+ */
+export const fuseRankings = (
+  semanticScores: Map<string, number>,
+  lexicalMatches: LexicalMatch[],
+  topK: number,
+  options: HybridSearchOptions,
+  poolSize: number
+): HybridMatch[] => {
+  const { fusion, semanticWeight, lexicalWeight, rrfK } = options;
+  
+  const semanticRanking = Array.from(semanticScores)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, poolSize)
+    .map(([id]) => id);
+  const lexicalRanking = lexicalMatches.slice(0, poolSize);
+  const lexicalScores = new Map(lexicalRanking.map(match => [match.id, match.score]));
+  const candidates = new Set([...semanticRanking, ...lexicalRanking.map(match => match.id)]);
+  
+  const maxLexicalScore = lexicalRanking[0]?.score || 1;
+  const semanticRanks = new Map(semanticRanking.map((id, i) => [id, i + 1]));
+  const lexicalRanks = new Map(lexicalRanking.map((match, i) => [match.id, i + 1]));
+  const maxRrfScore = (semanticWeight + lexicalWeight) / (rrfK + 1) || 1;
+  
+  return Array.from(candidates)
+    .map(id => {
+      const semanticScore = semanticScores.get(id);
+      const lexicalScore = lexicalScores.get(id);
+      let score: number;
+      
+      if (fusion === 'rrf') {
+        const semanticRank = semanticRanks.get(id);
+        const lexicalRank = lexicalRanks.get(id);
+        score = ((semanticRank ? semanticWeight / (rrfK + semanticRank) : 0) +
+          (lexicalRank ? lexicalWeight / (rrfK + lexicalRank) : 0)) / maxRrfScore;
+      } else {
+        score = semanticWeight * (semanticScore ?? 0) + lexicalWeight * (lexicalScore ?? 0) / maxLexicalScore;
+      }
+      
+      return { id, score: Math.max(0, Math.min(1, score)), semanticScore, lexicalScore };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
+
+/**
+ * Retrieves passages from a book by combining embedding similarity with BM25
+ */
+class HybridRetriever {
+  /**
+   * Find the passages of a book most related to a query passage
+   */
+  async findSimilarPassages(
+    queryPassage: Passage,
+    targetBookId: string,
+    topK: number = 5,
+    options: Partial<HybridSearchOptions> = {},
+    usage: Partial<UsageContext> = {}
+  ): Promise<HybridMatch[]> {
+    const searchOptions = { ...DEFAULT_HYBRID_SEARCH_OPTIONS, ...options };
+    const poolSize = Math.max(topK * CANDIDATE_POOL_FACTOR, MIN_CANDIDATE_POOL);
+    
+    const lexicalMatches = await this.searchLexical(queryPassage.text, targetBookId, poolSize, searchOptions);
+    const queryVector = await embeddingService.getQueryVector(queryPassage, {
+      feature: 'comparison',
+      bookIds: [queryPassage.bookId, targetBookId],
+      ...usage
+    });
+    
+    return this.fuseWithSemantic(queryVector, lexicalMatches, targetBookId, topK, searchOptions, poolSize);
+  }
+  
+  /**
+   * Find the passages of a book most relevant to free text, such as a chat question.
+   * Falls back to BM25 alone when the book isn't indexed or the text can't be embedded.
+   */
+  async findRelevantPassages(
+    query: string,
+    bookId: string,
+    topK: number = 5,
+    options: Partial<HybridSearchOptions> = {},
+    usage: Partial<UsageContext> = {}
+  ): Promise<HybridMatch[]> {
+    const searchOptions = { ...DEFAULT_HYBRID_SEARCH_OPTIONS, ...options };
+    const poolSize = Math.max(topK * CANDIDATE_POOL_FACTOR, MIN_CANDIDATE_POOL);
+    
+    const lexicalMatches = await this.searchLexical(query, bookId, poolSize, searchOptions);
+    
+    // Embedding the query is only worth paying for when the book has vectors to compare it with
+    let queryVector: number[] | undefined;
+    try {
+      if (embeddingService.isConfigured() && await embeddingService.hasVectors(bookId)) {
+        queryVector = await embeddingService.generateEmbedding(query, { feature: 'chat', bookIds: [bookId], ...usage });
+      }
+    } catch (error) {
+      console.warn('Could not embed query, using keyword search only:', error);
+    }
+    
+    return this.fuseWithSemantic(queryVector, lexicalMatches, bookId, topK, searchOptions, poolSize);
+  }
+  
+  /**
+   * Find the most related passages of a book for every passage of another book
+   */
+  async findSimilarPassagesAcrossBooks(
+    sourceBook: Book,
+    targetBookId: string,
+    topK: number = 5,
+    options: Partial<HybridSearchOptions> = {}
+  ): Promise<Map<string, HybridMatch[]>> {
+    const searchOptions = { ...DEFAULT_HYBRID_SEARCH_OPTIONS, ...options };
+    const poolSize = Math.max(topK * CANDIDATE_POOL_FACTOR, MIN_CANDIDATE_POOL);
+    const lexicalIndex = searchOptions.lexicalWeight > 0 ? await loadLexicalIndex(targetBookId) : undefined;
+    const lexicalMatchesByPassage = new Map(sourceBook.passages.map(passage => [
+      passage.id,
+      lexicalIndex ? searchLexicalIndex(lexicalIndex, passage.text, poolSize) : []
+    ]));
+    
+    // Keep the semantic pool, plus the cosine similarity of lexical candidates outside it
+    const semanticMatches = await embeddingService.findSimilarPassagesAcrossBooks(
+      sourceBook.id,
+      targetBookId,
+      poolSize,
+      new Map(Array.from(lexicalMatchesByPassage, ([passageId, matches]) => [passageId, matches.map(match => match.id)]))
+    );
+    
+    const results = new Map<string, HybridMatch[]>();
+    sourceBook.passages.forEach(passage => {
+      const semanticScores = new Map((semanticMatches.get(passage.id) || []).map(match => [match.id, match.score]));
+      const lexicalMatches = lexicalMatchesByPassage.get(passage.id) || [];
+      results.set(passage.id, fuseRankings(semanticScores, lexicalMatches, topK, searchOptions, poolSize));
+    });
+    
+    return results;
+  }
+  
+  /**
+   * Add the embedding ranking for a query vector to lexical matches and fuse them
+   */
+  private async fuseWithSemantic(
+    queryVector: ArrayLike<number> | undefined,
+    lexicalMatches: LexicalMatch[],
+    targetBookId: string,
+    topK: number,
+    options: HybridSearchOptions,
+    poolSize: number
+  ): Promise<HybridMatch[]> {
+    const semanticScores = new Map<string, number>();
+    
+    if (queryVector) {
+      const semanticMatches = await embeddingService.findSimilarToVector(queryVector, targetBookId, poolSize);
+      semanticMatches.forEach(match => semanticScores.set(match.passage.id, match.similarity));
+      
+      // Weighted fusion needs the cosine similarity of passages found only by BM25,
+      // unless the book has no vectors at all and the lexical ranking stands alone
+      const unscoredIds = lexicalMatches.map(match => match.id).filter(id => !semanticScores.has(id));
+      if (options.fusion === 'weighted' && semanticScores.size > 0 && unscoredIds.length > 0) {
+        (await embeddingService.scorePassages(queryVector, unscoredIds))
+          .forEach((score, id) => semanticScores.set(id, score));
+      }
+    }
+    
+    return fuseRankings(semanticScores, lexicalMatches, topK, options, poolSize);
+  }
+  
+  private async searchLexical(
+    text: string,
+    targetBookId: string,
+    poolSize: number,
+    options: HybridSearchOptions
+  ): Promise<LexicalMatch[]> {
+    if (options.lexicalWeight <= 0) return [];
+    
+    const lexicalIndex = await loadLexicalIndex(targetBookId);
+    return lexicalIndex ? searchLexicalIndex(lexicalIndex, text, poolSize) : [];
+  }
+}
+
+// Singleton instance
+export const hybridRetriever = new HybridRetriever();
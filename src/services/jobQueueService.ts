@@ -0,0 +1,187 @@
+import { Job, JobParams, JobWorkerEvent, JobWorkerRequest, USER_PRIORITY } from '@/lib/jobs';
+import { generateId } from '@/lib/textProcessing';
+import { useJobStore } from '@/store/jobStore';
+import { useBookStore } from '@/store/bookStore';
+import { useUsageStore, UsageFeature } from '@/store/usageStore';
+import { useComparisonStore } from '@/store/comparisonStore';
+import { useConceptStore } from '@/store/conceptStore';
+import { completionClient, COMPLETION_TASKS, CompletionTask, ModelSelection } from './completionClient';
+import { embeddingService } from './embeddingService';
+import { getPeriodStart, usageLedger } from './usageLedger';
+
+export interface EnqueueOptions {
+  priority?: number;
+  feature?: UsageFeature; // Defaults by job type
+}
+
+// The feature each job type's cost is attributed to unless queued otherwise
+const JOB_FEATURES: Record<JobParams['type'], UsageFeature> = {
+  index: 'comparison',
+  analyze: 'analysis',
+  comparePair: 'comparison',
+  fullBookAnalysis: 'comparison'
+};
+
+/**
+ * Queues indexing, analysis and comparison jobs on a Web Worker, and saves what
+ * they produce. Jobs are persisted, so unfinished ones resume after a reload.
+ */
+class JobQueueService {
+  private worker: Worker | null = null;
+  private workerCalls = 0; // Usage entries received from the worker
+  
+  constructor() {
+    if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
+      this.start();
+    }
+  }
+  
+  /**
+   * Add a job to the queue, returning its ID
+   */
+  enqueue(params: JobParams, options: EnqueueOptions = {}): string {
+    const now = Date.now();
+    const job: Job = {
+      id: generateId(),
+      params,
+      feature: options.feature ?? JOB_FEATURES[params.type],
+      priority: options.priority ?? USER_PRIORITY,
+      status: 'queued',
+      progress: 0,
+      message: 'Queued',
+      checkpoint: { completedSteps: [] },
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    useJobStore.getState().setJob(job);
+    this.send({ type: 'enqueue', job });
+    return job.id;
+  }
+  
+  /**
+   * Stop a job now; it resumes from its last finished step
+   */
+  pause(jobId: string) {
+    this.send({ type: 'pause', jobId });
+  }
+  
+  resume(jobId: string) {
+    this.send({ type: 'resume', jobId });
+  }
+  
+  /**
+   * Stop a job for good. Results it already saved are kept.
+   */
+  cancel(jobId: string) {
+    this.send({ type: 'cancel', jobId });
+  }
+  
+  /**
+   * Run a job before every other queued job
+   */
+  prioritize(jobId: string) {
+    const priorities = Object.values(useJobStore.getState().jobs).map(job => job.priority);
+    this.send({ type: 'prioritize', jobId, priority: Math.max(USER_PRIORITY, ...priorities) + 1 });
+  }
+  
+  private start() {
+    this.worker = new Worker(new URL('../workers/jobQueue.worker.ts', import.meta.url));
+    this.worker.addEventListener('message', (event: MessageEvent<JobWorkerEvent>) => this.handleEvent(event.data));
+    this.worker.addEventListener('error', (event) => console.error('Job worker error:', event.message));
+    
+    // The worker can't see what the page spends, and jobs waiting for budget go on as soon as it is raised
+    useUsageStore.subscribe((state, previous) => {
+      if (state.budget !== previous.budget || state.entries !== previous.entries) this.configure();
+    });
+    
+    // The worker keeps its own copies of books, which go stale when a book is resplit or removed here
+    useBookStore.subscribe((state, previous) => {
+      const current = new Map(state.books.map(book => [book.id, book]));
+      previous.books.forEach(book => {
+        if (!current.has(book.id)) {
+          this.send({ type: 'bookRemoved', bookId: book.id });
+        } else if (current.get(book.id) !== book) {
+          this.send({ type: 'bookChanged', bookId: book.id });
+        }
+      });
+    });
+    
+    // Both sides cache each book's vectors, so each tells the other what it stores or deletes
+    embeddingService.onVectorsChanged((change, elsewhere) => {
+      if (!elsewhere) this.send({ type: 'vectorsChanged', change });
+    });
+    
+    // Jobs left unfinished by the last visit are picked up once the store has loaded them
+    const restore = () => {
+      this.send({ type: 'restore', jobs: Object.values(useJobStore.getState().jobs) });
+    };
+    if (useJobStore.persist.hasHydrated()) {
+      restore();
+    } else {
+      useJobStore.persist.onFinishHydration(restore);
+    }
+  }
+  
+  /**
+   * Send a request along with the current model choices, budget and spending, which the worker can't read itself
+   */
+  private send(request: JobWorkerRequest) {
+    if (!this.worker) {
+      console.warn('Background jobs are not available in this browser');
+      return;
+    }
+    
+    this.configure();
+    this.worker.postMessage(request);
+  }
+  
+  private configure() {
+    const taskModels = Object.fromEntries(
+      COMPLETION_TASKS.map(({ task }) => [task, completionClient.getTaskModel(task)])
+    ) as Record<CompletionTask, ModelSelection>;
+    const { budget } = useUsageStore.getState();
+    const request: JobWorkerRequest = {
+      type: 'configure',
+      taskModels,
+      budget,
+      spend: { periodStart: getPeriodStart(budget.period), amount: usageLedger.getPeriodSpend(), workerCalls: this.workerCalls }
+    };
+    this.worker?.postMessage(request);
+  }
+  
+  /**
+   * Save what the worker reports
+   */
+  private handleEvent(event: JobWorkerEvent) {
+    switch (event.type) {
+      case 'job':
+        useJobStore.getState().setJob(event.job);
+        break;
+      case 'usage':
+        this.workerCalls++;
+        useUsageStore.getState().addEntry(event.entry);
+        break;
+      case 'pausedForBudget':
+        usageLedger.setWorkerPausedJobs(event.count);
+        break;
+      case 'relations': {
+        const { addComparison } = useComparisonStore.getState();
+        event.relations.forEach(([passageId, relations]) => addComparison(passageId, relations));
+        break;
+      }
+      case 'bookCompared':
+        useComparisonStore.getState().addBulkComparisons(new Map(), event.sourceBookId, event.targetBookId);
+        break;
+      case 'summaries':
+        useConceptStore.getState().addPassageSummariesBatch(event.summaries);
+        break;
+      case 'vectorsChanged':
+        embeddingService.forgetCachedVectors(event.change);
+        break;
+    }
+  }
+}
+
+// Singleton instance
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,364 @@
+import { Job, JobCheckpoint, JobWorkerEvent, JobWorkerRequest, getJobBookIds, isJobFinished } from '@/lib/jobs';
+import { Passage, generateId } from '@/lib/textProcessing';
+import { useBookStore } from '@/store/bookStore';
+import { useUsageStore } from '@/store/usageStore';
+import { apiKeyService } from './apiKeyService';
+import { completionClient, CompletionTask } from './completionClient';
+import { embeddingService } from './embeddingService';
+import { LLMService } from './llmService';
+import { passageComparisonService, PassageRelation } from './passageComparisonService';
+import { usageLedger } from './usageLedger';
+import { isAbortError } from '@/utils/abort';
+
+// Passages analyzed per request, and per checkpoint
+const ANALYSIS_BATCH_SIZE = 5;
+
+/**
+ * Thrown from a checkpoint to stop a job that was paused or cancelled
+ */
+class JobStoppedError extends Error {
+  constructor() {
+    super('Job stopped');
+    this.name = 'JobStoppedError';
+  }
+}
+
+/**
+ * Runs queued jobs one at a time, highest priority first, inside the job worker.
+ * Each job reports every finished step, so the page can save the results and
+ * the job can resume from there after a pause or a reload.
+ */
+class JobRunner {
+  private jobs: Map<string, Job> = new Map(); // Unfinished jobs only
+  private currentJobId: string | null = null;
+  private currentJobController: AbortController | null = null; // Aborted to pause or cancel the running job
+  private llmService = new LLMService();
+  private post: (event: JobWorkerEvent) => void = () => {};
+  
+  /**
+   * Start sending events to the page
+   */
+  connect(post: (event: JobWorkerEvent) => void) {
+    this.post = post;
+    usageLedger.onRecord(entry => this.post({ type: 'usage', entry }));
+    usageLedger.subscribe(count => this.post({ type: 'pausedForBudget', count }));
+    embeddingService.onVectorsChanged((change, elsewhere) => {
+      if (!elsewhere) this.post({ type: 'vectorsChanged', change });
+    });
+  }
+  
+  handleRequest(request: JobWorkerRequest) {
+    switch (request.type) {
+      case 'configure':
+        Object.entries(request.taskModels).forEach(([task, selection]) => {
+          completionClient.setTaskModel(task as CompletionTask, selection);
+        });
+        // Set before the budget, whose change wakes jobs waiting for it
+        usageLedger.setReportedSpend(request.spend);
+        useUsageStore.getState().setBudget(request.budget);
+        break;
+      case 'restore':
+        // Jobs that were running when the page closed start over from their last checkpoint
+        request.jobs
+          .filter(job => !isJobFinished(job) && !this.jobs.has(job.id))
+          .forEach(job => {
+            this.jobs.set(job.id, job);
+            if (job.status === 'running') this.update(job.id, { status: 'queued', message: 'Resuming' });
+          });
+        break;
+      case 'enqueue':
+        this.jobs.set(request.job.id, request.job);
+        this.post({ type: 'job', job: request.job });
+        break;
+      case 'pause':
+        if (this.hasStatus(request.jobId, 'queued', 'running')) {
+          this.update(request.jobId, { status: 'paused', message: 'Paused' });
+          this.stopIfRunning(request.jobId);
+        }
+        break;
+      case 'resume':
+        if (this.hasStatus(request.jobId, 'paused')) {
+          this.update(request.jobId, { status: 'queued', message: 'Waiting to resume' });
+        }
+        break;
+      case 'cancel':
+        if (this.jobs.has(request.jobId)) {
+          this.finish(request.jobId, { status: 'cancelled', message: 'Cancelled' });
+          this.stopIfRunning(request.jobId);
+        }
+        break;
+      case 'vectorsChanged':
+        embeddingService.forgetCachedVectors(request.change);
+        break;
+      case 'prioritize':
+        if (this.jobs.has(request.jobId)) {
+          this.update(request.jobId, { priority: request.priority });
+        }
+        break;
+      case 'bookChanged':
+        useBookStore.getState().unloadBook(request.bookId);
+        embeddingService.forgetCachedVectors({ bookId: request.bookId });
+        this.getBookJobs(request.bookId).forEach(job => this.restart(job));
+        break;
+      case 'bookRemoved':
+        useBookStore.getState().unloadBook(request.bookId);
+        embeddingService.forgetCachedVectors({ bookId: request.bookId });
+        this.getBookJobs(request.bookId).forEach(job => {
+          this.finish(job.id, { status: 'failed', message: 'Failed', error: 'Book not found' });
+          this.stopIfRunning(job.id);
+        });
+        break;
+    }
+    
+    this.runNext();
+  }
+  
+  /**
+   * Start the next queued job unless one is running
+   */
+  private async runNext() {
+    if (this.currentJobId) return;
+    
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)[0];
+    if (!next) return;
+    
+    this.currentJobId = next.id;
+    this.currentJobController = new AbortController();
+    const { signal } = this.currentJobController;
+    this.update(next.id, { status: 'running', message: 'Starting', error: undefined });
+    
+    try {
+      // Keys may have been added or removed on the page since the last job
+      await apiKeyService.loadStatus();
+      passageComparisonService.setUsageFeature(next.feature);
+      
+      const message = await this.execute(next, signal);
+      this.finish(next.id, { status: 'completed', progress: 100, message });
+    } catch (error) {
+      const stopped = error instanceof JobStoppedError || isAbortError(error);
+      if (!stopped && this.jobs.has(next.id)) {
+        console.error(`Job ${next.id} failed:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.finish(next.id, { status: 'failed', message: 'Failed', error: errorMessage });
+      }
+    } finally {
+      this.currentJobId = null;
+      this.currentJobController = null;
+      this.runNext();
+    }
+  }
+  
+  /**
+   * Run a job from its checkpoint, returning a message describing the result
+   */
+  private async execute(job: Job, signal: AbortSignal): Promise<string> {
+    const onProgress = (progress: number, message: string) => this.update(job.id, { progress, message });
+    const { params } = job;
+    
+    switch (params.type) {
+      case 'index': {
+        const book = await this.loadBook(params.bookId);
+        onProgress(10, `Indexing "${book.title}"`);
+        const report = await passageComparisonService.indexBook(params.bookId, signal);
+        return report.failed.length > 0
+          ? `${report.failed.length} passages could not be embedded`
+          : `Indexed ${report.total} passages`;
+      }
+      
+      case 'analyze': {
+        const book = await this.loadBook(params.bookId);
+        return this.analyzeBook(job, book.passages, onProgress, signal);
+      }
+      
+      case 'comparePair': {
+        passageComparisonService.setSimilarityThreshold(params.threshold);
+        const results = await passageComparisonService.compareAllPassages(
+          params.sourceBookId,
+          params.targetBookId,
+          params.topK,
+          undefined,
+          onProgress,
+          params.retrievalOptions,
+          {
+            completedSteps: job.checkpoint.completedSteps,
+            onStepComplete: (step, relations) => {
+              this.post({ type: 'relations', relations: Array.from(relations.entries()) });
+              this.checkpoint(job.id, step);
+            },
+            signal
+          }
+        );
+        
+        this.post({ type: 'bookCompared', sourceBookId: params.sourceBookId, targetBookId: params.targetBookId });
+        this.warnAboutFailures(job);
+        return `Compared ${results.size} passages`;
+      }
+      
+      case 'fullBookAnalysis': {
+        // Relations of finished batches, so each save holds everything found so far
+        const gathered: Record<string, PassageRelation[]> = { ...job.checkpoint.relations };
+        
+        await passageComparisonService.analyzeFullBooks(
+          params.sourceBookId,
+          params.targetBookId,
+          params.chaptersPerBatch,
+          onProgress,
+          {
+            completedSteps: job.checkpoint.completedSteps,
+            onStepComplete: (step, relations) => {
+              relations.forEach((passageRelations, passageId) => {
+                gathered[passageId] = [...(gathered[passageId] || []), ...passageRelations];
+              });
+              this.post({
+                type: 'relations',
+                relations: Array.from(relations.keys()).map(passageId => [passageId, gathered[passageId]])
+              });
+              this.checkpoint(job.id, step, { relations: gathered });
+            },
+            signal
+          }
+        );
+        
+        // Relations already found are saved, but the pair doesn't count as compared
+        const failedSteps = passageComparisonService.getLastFailedSteps();
+        if (failedSteps.length > 0) {
+          throw new Error(`${failedSteps.length} batches of chapters could not be compared; relations for ${Object.keys(gathered).length} passages were saved`);
+        }
+        
+        this.post({ type: 'bookCompared', sourceBookId: params.sourceBookId, targetBookId: params.targetBookId });
+        this.warnAboutFailures(job);
+        return `Found relations for ${Object.keys(gathered).length} passages`;
+      }
+    }
+  }
+  
+  /**
+   * Analyze a book's passages a batch at a time, sending each batch's summaries to the page
+   */
+  private async analyzeBook(
+    job: Job,
+    passages: Passage[],
+    onProgress: (progress: number, message: string) => void,
+    signal: AbortSignal
+  ): Promise<string> {
+    const completedSteps = new Set(job.checkpoint.completedSteps);
+    const batchCount = Math.ceil(passages.length / ANALYSIS_BATCH_SIZE);
+    let failureCount = 0;
+    
+    for (let i = 0; i < batchCount; i++) {
+      const step = `batch-${i}`;
+      if (completedSteps.has(step)) continue;
+      
+      onProgress(Math.floor((i / batchCount) * 100), `Analyzing batch ${i + 1} of ${batchCount}`);
+      const batch = passages.slice(i * ANALYSIS_BATCH_SIZE, (i + 1) * ANALYSIS_BATCH_SIZE);
+      const summaries = await this.llmService.analyzePassages(batch, { signal });
+      failureCount += this.llmService.getLastFailures().length;
+      
+      this.post({ type: 'summaries', summaries });
+      this.checkpoint(job.id, step);
+    }
+    
+    return failureCount > 0
+      ? `${failureCount} passages could not be analyzed`
+      : `Analyzed ${passages.length} passages`;
+  }
+  
+  private async loadBook(bookId: string) {
+    const book = await useBookStore.getState().loadBook(bookId);
+    if (!book) {
+      throw new Error('Book not found');
+    }
+    return book;
+  }
+  
+  /**
+   * Record a finished step, then stop if the job was paused or cancelled meanwhile
+   */
+  private checkpoint(jobId: string, step: string, changes: Partial<JobCheckpoint> = {}) {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      this.update(jobId, {
+        checkpoint: { ...job.checkpoint, ...changes, completedSteps: [...job.checkpoint.completedSteps, step] }
+      });
+    }
+    
+    if (this.jobs.get(jobId)?.status !== 'running') {
+      throw new JobStoppedError();
+    }
+  }
+  
+  /**
+   * Abort the requests of a job that is running, so a pause or cancel takes effect right away
+   */
+  private stopIfRunning(jobId: string) {
+    if (jobId === this.currentJobId) {
+      this.currentJobController?.abort();
+    }
+  }
+  
+  /**
+   * Queue a job again from the start, as its checkpoint refers to passages that changed.
+   * It gets a new ID, so steps the old run is still finishing aren't recorded against it.
+   */
+  private restart(job: Job) {
+    this.finish(job.id, { status: 'cancelled', message: 'Book changed; queued again' });
+    this.stopIfRunning(job.id);
+    
+    const restarted: Job = {
+      ...job,
+      id: generateId(),
+      status: job.status === 'paused' ? 'paused' : 'queued',
+      progress: 0,
+      message: 'Queued again after the book changed',
+      checkpoint: { completedSteps: [] },
+      error: undefined,
+      updatedAt: Date.now()
+    };
+    this.jobs.set(restarted.id, restarted);
+    this.post({ type: 'job', job: restarted });
+  }
+  
+  private getBookJobs(bookId: string): Job[] {
+    return Array.from(this.jobs.values()).filter(job => getJobBookIds(job.params).includes(bookId));
+  }
+  
+  private hasStatus(jobId: string, ...statuses: Job['status'][]): boolean {
+    const job = this.jobs.get(jobId);
+    return !!job && statuses.includes(job.status);
+  }
+  
+  /**
+   * Change a job and report it to the page
+   */
+  private update(jobId: string, changes: Partial<Job>) {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+    
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    this.jobs.set(jobId, updated);
+    this.post({ type: 'job', job: updated });
+  }
+  
+  /**
+   * Report a job's final state and forget it
+   */
+  private finish(jobId: string, changes: Partial<Job>) {
+    this.update(jobId, changes);
+    this.jobs.delete(jobId);
+  }
+  
+  /**
+   * Report relations the LLM never produced valid output for
+   */
+  private warnAboutFailures(job: Job) {
+    const failures = passageComparisonService.getLastFailures();
+    if (failures.length > 0) {
+      console.warn(`${failures.length} relations could not be analyzed in job ${job.id}:`, failures);
+    }
+  }
+}
+
+// Singleton instance
+export const jobRunner = new JobRunner();
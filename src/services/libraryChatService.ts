@@ -0,0 +1,231 @@
+import { Book, Passage } from '@/lib/textProcessing';
+import { extractCitations } from '@/lib/citations';
+import { useBookStore } from '@/store/bookStore';
+import { useComparisonStore } from '@/store/comparisonStore';
+import { useConceptStore } from '@/store/conceptStore';
+import { completionClient, ChatMessage, StreamOptions, StreamStatus } from './completionClient';
+import { hybridRetriever } from './hybridRetriever';
+import { CondensedHistory, LLMService } from './llmService';
+import { BudgetExceededError } from './usageLedger';
+
+/**
+ * A passage an answer cites, with the book it comes from
+ */
+export interface LibraryCitation {
+  passageId: string;
+  bookId: string;
+}
+
+export interface LibraryChatReply {
+  content: string;
+  status: StreamStatus | 'failed';
+  citations: LibraryCitation[];
+}
+
+// Passages retrieved from each book for a question
+const PASSAGES_PER_BOOK = 4;
+// Passages added per book for concepts the question names
+const CONCEPT_PASSAGES_PER_BOOK = 2;
+const CONTEXT_CHARS = 32000;
+
+const SYSTEM_PROMPT = `
+You are a literary research assistant with access to a reader's whole library.
+You answer questions across books, comparing how different authors treat a subject.
+
+You are given:
+1. Passages from each book selected for the question, grouped by book and labelled with their IDs
+2. Concepts extracted from those passages
+3. Known relations between passages of different books (supports, contradicts, extends, analogous)
+4. The books no passages could be found in for the question, if any
+5. Previous chat history with this reader, with older turns summarized
+
+When answering:
+- Attribute every claim to a book by its title and cite the passages it rests on by putting their IDs in square brackets, e.g. [book-1a2b3c-1200-1850]
+- Compare and contrast the books where the question calls for it
+- Be concise but insightful
+
+Important: If the passages don't cover a book's view on the question, or none were found in it, say so rather than guessing.
+Do not fabricate details that aren't present in the text.`;
+
+/**
+ * Answers questions across every book in the library from retrieved passages,
+ * stored passage relations and extracted concepts
+ */
+class LibraryChatService {
+  private llmService = new LLMService(); // Shares the book chat's history budget and summaries
+  
+  /**
+   * Chat with the whole library, or with the given books, streaming the answer through options.onToken.
+   * The model is sent as much of the history as fits its budget, plus the summary of older turns.
+   */
+  async chat(
+    prompt: string,
+    chatHistory: ChatMessage[] = [],
+    summary?: string,
+    bookIds?: string[],
+    options: StreamOptions = {}
+  ): Promise<LibraryChatReply> {
+    try {
+      const books = await this.loadBooks(bookIds);
+      if (books.length === 0) {
+        return { content: 'Upload a book to start asking questions about your library.', status: 'failed', citations: [] };
+      }
+      
+      const passages = await this.gatherPassages(prompt, books);
+      const passageBookIds = new Map(passages.map(passage => [passage.id, passage.bookId]));
+      
+      const systemPrompt = summary
+        ? `${SYSTEM_PROMPT}\n\nEARLIER CONVERSATION (SUMMARIZED):\n${summary}`
+        : SYSTEM_PROMPT;
+      const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...this.llmService.fitHistory(chatHistory),
+        { role: 'user', content: `${this.formatContext(books, passages)}\n\nQUESTION:\n${prompt}` }
+      ];
+      
+      const result = await completionClient.stream({
+        task: 'chat',
+        messages,
+        temperature: 0.5,
+        maxTokens: 1500,
+        usage: { feature: 'chat', bookIds: books.map(book => book.id) }
+      }, options);
+      
+      if (!result.content && result.status === 'complete') {
+        return { content: 'I apologize, but I couldn\'t generate a response.', status: 'failed', citations: [] };
+      }
+      return {
+        content: result.content,
+        status: result.status,
+        citations: extractCitations(result.content, new Set(passageBookIds.keys()))
+          .map(passageId => ({ passageId, bookId: passageBookIds.get(passageId)! }))
+      };
+    } catch (error) {
+      console.error('Error in library chat:', error);
+      let content = 'I apologize, but there was an error processing your question.';
+      if (error instanceof BudgetExceededError) {
+        content = error.message;
+      } else if (error instanceof Error && error.message.startsWith('Request timed out')) {
+        content = 'The request timed out. Please try again with a shorter query.';
+      }
+      return { content, status: 'failed', citations: [] };
+    }
+  }
+  
+  /**
+   * Summarize the older turns of a conversation once it outgrows the chat model's budget,
+   * the same way the book chat does. Resolves to null while the history still fits.
+   */
+  condenseHistory(chatHistory: ChatMessage[], previousSummary?: string): Promise<CondensedHistory | null> {
+    return this.llmService.condenseHistory(chatHistory, previousSummary);
+  }
+  
+  private async loadBooks(bookIds?: string[]): Promise<Book[]> {
+    const bookStore = useBookStore.getState();
+    const ids = bookIds || bookStore.books.map(book => book.id);
+    const books = await Promise.all(ids.map(id => bookStore.loadBook(id)));
+    return books.filter((book): book is Book => !!book && book.passages.length > 0);
+  }
+  
+  /**
+   * Pick passages from every book: the best matches for the question, passages about
+   * concepts the question names, and passages related to those across books
+   */
+  private async gatherPassages(prompt: string, books: Book[]): Promise<Passage[]> {
+    const passagesById = new Map(books.flatMap(book => book.passages.map(passage => [passage.id, passage] as const)));
+    
+    // Best matches from each book, interleaved so every book gets a share of the budget.
+    // Unindexed books are searched by keyword; a book retrieval fails for is named in the context.
+    const perBook = await Promise.all(books.map(async book => {
+      try {
+        const matches = await hybridRetriever.findRelevantPassages(prompt, book.id, PASSAGES_PER_BOOK);
+        return matches.map(match => match.id);
+      } catch (error) {
+        console.error(`Passage retrieval failed for "${book.title}":`, error);
+        return [];
+      }
+    }));
+    const candidates: string[] = [];
+    for (let rank = 0; rank < PASSAGES_PER_BOOK; rank++) {
+      perBook.forEach(ids => {
+        if (ids[rank]) candidates.push(ids[rank]);
+      });
+    }
+    
+    // Concepts named in the question, such as "free will"
+    const question = prompt.toLowerCase();
+    useConceptStore.getState().concepts
+      .filter(concept => concept.name.length > 2 && question.includes(concept.name.toLowerCase()))
+      .forEach(concept => {
+        books.forEach(book => {
+          concept.passages
+            .filter(id => passagesById.get(id)?.bookId === book.id)
+            .slice(0, CONCEPT_PASSAGES_PER_BOOK)
+            .forEach(id => candidates.push(id));
+        });
+      });
+    
+    // Passages of other books that comparisons related to the candidates
+    const { getComparison } = useComparisonStore.getState();
+    const related = candidates.flatMap(id => (getComparison(id) || []).map(relation => relation.relatedPassageId));
+    
+    const chosen = new Set<string>();
+    let length = 0;
+    [...candidates, ...related].forEach(id => {
+      const passage = passagesById.get(id);
+      if (!passage || chosen.has(id) || length + passage.text.length > CONTEXT_CHARS) return;
+      chosen.add(id);
+      length += passage.text.length;
+    });
+    
+    // Reading order within each book
+    return books.flatMap(book => book.passages.filter(passage => chosen.has(passage.id)));
+  }
+  
+  /**
+   * Lay out the passages by book, with their concepts and the relations between them,
+   * and name the books nothing was found in so the model doesn't speak for them
+   */
+  private formatContext(books: Book[], passages: Passage[]): string {
+    const { getPassageSummary } = useConceptStore.getState();
+    const { getComparison } = useComparisonStore.getState();
+    const included = new Set(passages.map(passage => passage.id));
+    
+    const missingBooks = books.filter(book => !passages.some(passage => passage.bookId === book.id));
+    
+    const bookSections = books
+      .map(book => {
+        const bookPassages = passages.filter(passage => passage.bookId === book.id);
+        if (bookPassages.length === 0) return null;
+        
+        const formatted = bookPassages.map(passage => {
+          const concepts = getPassageSummary(passage.id)?.concepts || [];
+          const conceptLine = concepts.length > 0 ? `\n(Concepts: ${concepts.join(', ')})` : '';
+          return `[${passage.id}]${conceptLine}\n${passage.text}`;
+        });
+        return `BOOK: ${this.describeBook(book)}\n\n${formatted.join('\n\n')}`;
+      })
+      .filter(Boolean);
+    
+    const relations = passages.flatMap(passage =>
+      (getComparison(passage.id) || [])
+        .filter(relation => included.has(relation.relatedPassageId))
+        .map(relation => `[${relation.focusPassageId}] ${relation.relationType} [${relation.relatedPassageId}]: ${relation.evidence}`)
+    );
+    
+    return [
+      `LIBRARY PASSAGES:\n\n${bookSections.join('\n\n---\n\n')}`,
+      ...(relations.length > 0 ? [`KNOWN RELATIONS BETWEEN PASSAGES:\n${relations.join('\n')}`] : []),
+      ...(missingBooks.length > 0
+        ? [`NO PASSAGES FOUND FOR THIS QUESTION IN:\n${missingBooks.map(book => `- ${this.describeBook(book)}`).join('\n')}`]
+        : [])
+    ].join('\n\n');
+  }
+  
+  private describeBook(book: Book): string {
+    return book.author ? `"${book.title}" by ${book.author}` : `"${book.title}"`;
+  }
+}
+
+// Singleton instance
+export const libraryChatService = new LibraryChatService();
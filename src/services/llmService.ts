@@ -1,54 +1,91 @@
 import { Passage } from '@/lib/textProcessing';
 import { 
   createPassageAnalysisPrompt, 
-  parsePassageSummariesFromLLM, 
-  PassageSummary 
+  LLMPassageAnalysis,
+  PASSAGE_ANALYSIS_SCHEMA,
+  PassageSummary,
+  toPassageSummary
 } from '@/lib/conceptProcessing';
-
-// Default API key from environment variables
-const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_LLAMA_API_KEY || "LLM|24233636562905000|uj_EryBhhQK5JGIkJYaXt0_T2eY";
+import { completionClient, ChatMessage, StreamOptions, StreamStatus } from './completionClient';
+import { completeStructured } from './structuredCompletion';
+import { hybridRetriever } from './hybridRetriever';
+import { BudgetExceededError } from './usageLedger';
+import { extractCitations } from '@/lib/citations';
+import { estimateMessageTokens, getModelProfile } from '@/lib/tokenEstimation';
+import { isAbortError } from '@/utils/abort';
 
 /**
  * Configuration for LLM service
  */
 interface LLMServiceConfig {
-  apiKey: string;
-  endpoint: string;
-  model: string;
   timeoutMs?: number; // Request timeout in milliseconds
 }
 
 /**
- * Default configuration using Llama API
+ * Default configuration
  */
 const DEFAULT_CONFIG: LLMServiceConfig = {
-  apiKey: DEFAULT_API_KEY, // Pre-set API key
-  endpoint: 'https://api.llama.com/compat/v1/chat/completions',
-  model: 'Llama-4-Maverick-17B-128E-Instruct-FP8', // Using Llama's powerful model for text analysis
   timeoutMs: 180000 // 3 minutes timeout
 };
 
+// Passages retrieved for each chat question, plus the current passage's neighbours on either side
+const CHAT_RETRIEVAL_TOP_K = 8;
+const CHAT_NEIGHBOUR_RADIUS = 1;
+const CHAT_CONTEXT_CHARS = 24000;
+// Shares of the chat model's context window for passages and for earlier turns
+const CHAT_PASSAGE_SHARE = 0.5;
+const CHAT_HISTORY_SHARE = 0.2;
+const MAX_HISTORY_TOKENS = 6000;
+// Part of the history budget kept verbatim when older turns are summarized
+const RECENT_HISTORY_SHARE = 0.5;
+
+const SUMMARY_PROMPT = `
+You condense conversations between a reader and a literary assistant about a book or a whole library.
+Write a brief summary of the conversation so far that lets the assistant carry on naturally:
+the questions the reader asked, the answers and interpretations given, passage IDs that were cited,
+and any preferences the reader expressed.
+Fold the existing summary, if there is one, into the new one.
+Reply with the summary only, in at most 200 words.`;
+
 /**
- * Timeout controller for fetch requests
+ * A passage the LLM couldn't produce a valid analysis for
  */
-class TimeoutController {
-  controller: AbortController;
-  timeoutId: number | null = null;
-  
-  constructor(timeoutMs: number = 60000) {
-    this.controller = new AbortController();
-    
-    this.timeoutId = window.setTimeout(() => {
-      this.controller.abort();
-    }, timeoutMs);
-  }
-  
-  clear() {
-    if (this.timeoutId !== null) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
-    }
-  }
+export interface AnalysisFailure {
+  passageId: string;
+  errors: string[];
+}
+
+/**
+ * What the book chat remembers beyond the turns it is sent verbatim
+ */
+export interface ChatMemory {
+  summary?: string; // Condensed earlier turns
+  pinnedFacts?: string[]; // Facts the reader pinned, never summarized away
+}
+
+/**
+ * The result of folding older turns into the summary
+ */
+export interface CondensedHistory {
+  summary: string;
+  summarizedCount: number; // Leading messages of the history the summary now covers
+}
+
+/**
+ * Stopping a passage analysis early without losing the batches already done
+ */
+export interface AnalysisOptions {
+  signal?: AbortSignal; // Checked between batches; aborting also cancels the request in flight
+  onBatchComplete?: (summaries: PassageSummary[]) => void; // Called as each batch finishes, to save it
+}
+
+/**
+ * An answer from the book chat. Failed answers carry an apology for the reader.
+ */
+export interface ChatReply {
+  content: string;
+  status: StreamStatus | 'failed';
+  citations: string[]; // IDs of the passages the answer cites
 }
 
 /**
@@ -57,6 +94,7 @@ class TimeoutController {
 export class LLMService {
   private config: LLMServiceConfig;
   private lastFullResponse: string = '';
+  private lastFailures: AnalysisFailure[] = [];
   
   constructor(config: Partial<LLMServiceConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -70,23 +108,23 @@ export class LLMService {
   }
   
   /**
-   * Set API key
+   * Get the last full response from the LLM
    */
-  setApiKey(apiKey: string) {
-    this.config.apiKey = apiKey;
+  getLastFullResponse(): string {
+    return this.lastFullResponse;
   }
   
   /**
-   * Get the last full response from the LLM
+   * Get the passages that failed validation in the last analysis
    */
-  getLastFullResponse(): string {
-    return this.lastFullResponse;
+  getLastFailures(): AnalysisFailure[] {
+    return this.lastFailures;
   }
   
   /**
    * Process smaller batches of passages to avoid timeouts
    */
-  private async processBatch(passages: Passage[], batchSize: number = 3): Promise<PassageSummary[]> {
+  private async processBatch(passages: Passage[], batchSize: number = 3, options: AnalysisOptions = {}): Promise<PassageSummary[]> {
     const batches: Passage[][] = [];
     for (let i = 0; i < passages.length; i += batchSize) {
       batches.push(passages.slice(i, i + batchSize));
@@ -96,9 +134,11 @@ export class LLMService {
     
     const results: PassageSummary[] = [];
     for (let i = 0; i < batches.length; i++) {
+      options.signal?.throwIfAborted();
       console.log(`Processing batch ${i+1}/${batches.length} with ${batches[i].length} passages`);
-      const batchResults = await this.analyzeSingleBatch(batches[i]);
+      const batchResults = await this.analyzeSingleBatch(batches[i], options.signal);
       results.push(...batchResults);
+      options.onBatchComplete?.(batchResults);
     }
     
     return results;
@@ -107,154 +147,63 @@ export class LLMService {
   /**
    * Analyze a single batch of passages
    */
-  private async analyzeSingleBatch(passages: Passage[]): Promise<PassageSummary[]> {
+  private async analyzeSingleBatch(passages: Passage[], signal?: AbortSignal): Promise<PassageSummary[]> {
     try {
       const prompt = createPassageAnalysisPrompt(passages);
       
+      const { provider, model } = completionClient.getTaskModel('analysis');
+      
       // Log what we're sending to the LLM
       console.log('===== LLM REQUEST =====');
-      console.log(`Endpoint: ${this.config.endpoint}`);
-      console.log(`Model: ${this.config.model}`);
+      console.log(`Provider: ${provider}`);
+      console.log(`Model: ${model}`);
       console.log('Passages being analyzed:', passages.length);
       console.log('First few passages IDs:', passages.slice(0, 3).map(p => p.id));
-      console.log('Request body structure:');
-      const requestBody = {
-        model: this.config.model,
-        messages: [
-          { role: 'system', content: 'You are an expert in textual analysis and concept extraction. Your responses must be in valid JSON format without any markdown formatting or explanation. Respond with raw JSON only.' },
-          { role: 'user', content: '(Prompt content omitted for brevity)' }
-        ],
-        temperature: 0.2,
-        max_tokens: 10000
-      };
-      console.log(JSON.stringify(requestBody, null, 2));
       console.log('========================');
       
       // For Llama, modify the system message to emphasize raw JSON output
       const systemMessage = 'You are an expert in textual analysis and concept extraction. Your responses must be in valid JSON format without any markdown formatting. You MUST return a JSON array where each item contains passageId, summary, concepts, and keyPoints.';
       
-      // Setup timeout controller
-      const timeoutController = new TimeoutController(this.config.timeoutMs || 180000);
+      const passageIdToBookId = new Map(passages.map(passage => [passage.id, passage.bookId]));
       
-      try {
-        const response = await fetch(this.config.endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.apiKey}`
-          },
-          body: JSON.stringify({
-            model: this.config.model,
-            messages: [
-              { role: 'system', content: systemMessage },
-              { role: 'user', content: prompt }
-            ],
-            temperature: 0.2, // Lower temperature for more consistent, structured output
-            max_tokens: 10000 // Ensure we have enough tokens for complex analysis
-          }),
-          signal: timeoutController.controller.signal
-        });
-        
-        // Clear the timeout now that we have a response
-        timeoutController.clear();
-        
-        // Check if response is HTML instead of JSON (usually error pages)
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('text/html')) {
-          throw new Error('Received HTML response instead of JSON. The API might be down or returning an error page.');
-        }
-        
-        if (!response.ok) {
-          let errorMessage = `HTTP error: ${response.status} ${response.statusText}`;
-          try {
-            const errorData = await response.json();
-            errorMessage += ` - ${JSON.stringify(errorData)}`;
-            console.error('LLM API Error Response:', errorData);
-          } catch (e) {
-            console.error('Could not parse error response as JSON');
-          }
-          throw new Error(errorMessage);
-        }
-        
-        const data = await response.json();
-        
-        // Log the response from the LLM
-        console.log('===== LLM RESPONSE =====');
-        console.log('Response status:', response.status);
-        console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-        console.log('Response data structure:', Object.keys(data));
-        console.log('Usage information:', data.usage);
-        
-        const llmResponse = data.choices[0]?.message?.content;
-        this.lastFullResponse = llmResponse || '';
-        
-        // Log a preview of the content
-        if (llmResponse) {
-          console.log('Content preview (first 500 chars):', llmResponse.substring(0, 500) + '...');
-          console.log('Content preview (last 500 chars):', '...' + llmResponse.substring(llmResponse.length - 500));
-          
-          // Try to validate if it's proper JSON
-          try {
-            const jsonTest = JSON.parse(llmResponse);
-            console.log('Response is valid JSON:', typeof jsonTest === 'object');
-            console.log('Number of items in response array:', Array.isArray(jsonTest) ? jsonTest.length : 'Not an array');
-          } catch (error: any) {
-            console.warn('Response is not valid JSON:', error.message);
-            
-            // Check if response is wrapped in markdown
-            if (llmResponse.includes('```json') || llmResponse.includes('```')) {
-              console.log('Response appears to contain markdown code blocks');
-            }
-          }
-        } else {
-          console.warn('No content in LLM response');
-        }
-        console.log('==========================');
-        
-        if (!llmResponse) {
-          throw new Error('Empty response from LLM');
-        }
-        
-        // Parse the LLM response into structured summaries
-        const summaries = parsePassageSummariesFromLLM(llmResponse);
-        
-        // Log the parsed summaries
-        console.log('===== PARSED SUMMARIES =====');
-        console.log('Number of summaries extracted:', summaries.length);
-        if (summaries.length > 0) {
-          console.log('First summary example:', JSON.stringify(summaries[0], null, 2));
-        } else {
-          console.error('Failed to extract any summaries from the response');
-          // Save the full response to a global variable for debugging
-          (window as any).lastLLMResponse = llmResponse;
-          console.log('Full LLM response saved to window.lastLLMResponse for debugging');
-        }
-        console.log('============================');
-        
-        // Add book IDs from the original passages
-        const passageIdToBookId = new Map<string, string>();
-        passages.forEach(passage => {
-          passageIdToBookId.set(passage.id, passage.bookId);
-        });
-        
-        // Update summaries with book IDs
-        summaries.forEach(summary => {
-          summary.bookId = passageIdToBookId.get(summary.passageId) || '';
-        });
-        
-        return summaries;
-      } catch (error: any) {
-        // Clear the timeout if there's an error
-        timeoutController.clear();
-        
-        if (error.name === 'AbortError') {
-          throw new Error(`Request timed out after ${this.config.timeoutMs || 180000}ms. The API might be overloaded.`);
-        }
-        
-        throw error;
+      const result = await completeStructured<LLMPassageAnalysis>({
+        task: 'analysis',
+        messages: [
+          { role: 'system', content: systemMessage },
+          { role: 'user', content: prompt }
+        ],
+        itemSchema: PASSAGE_ANALYSIS_SCHEMA,
+        getKey: item => item.passageId,
+        checkItem: item => passageIdToBookId.has(item.passageId)
+          ? []
+          : [`passageId "${item.passageId}" is not one of the passages provided`],
+        expectedKeys: passages.map(passage => passage.id),
+        temperature: 0.2, // Lower temperature for more consistent, structured output
+        maxTokens: 10000, // Ensure we have enough tokens for complex analysis
+        timeoutMs: this.config.timeoutMs,
+        usage: { feature: 'analysis', bookIds: Array.from(new Set(passageIdToBookId.values())) },
+        signal
+      });
+      
+      this.lastFullResponse = result.rawResponse;
+      
+      // Passages the model never produced a valid analysis for are reported, not dropped
+      result.failures.forEach(failure => {
+        this.lastFailures.push({ passageId: failure.key, errors: failure.errors });
+      });
+      
+      console.log('===== PARSED SUMMARIES =====');
+      console.log('Number of summaries extracted:', result.items.length);
+      if (result.failures.length > 0) {
+        console.warn('Passages that failed analysis:', result.failures);
       }
+      console.log('============================');
+      
+      return result.items.map(item => toPassageSummary(item, passageIdToBookId.get(item.passageId)));
     } catch (error) {
-      console.error('Error analyzing passage batch:', error);
+      if (!isAbortError(error)) {
+        console.error('Error analyzing passage batch:', error);
+      }
       throw error;
     }
   }
@@ -262,16 +211,21 @@ export class LLMService {
   /**
    * Analyze passages with the LLM
    */
-  async analyzePassages(passages: Passage[]): Promise<PassageSummary[]> {
+  async analyzePassages(passages: Passage[], options: AnalysisOptions = {}): Promise<PassageSummary[]> {
+    this.lastFailures = [];
     try {
       // For larger books, process in smaller batches to avoid timeouts
       if (passages.length > 10) {
-        return this.processBatch(passages, 5);
+        return await this.processBatch(passages, 5, options);
       } else {
-        return this.analyzeSingleBatch(passages);
+        const summaries = await this.analyzeSingleBatch(passages, options.signal);
+        options.onBatchComplete?.(summaries);
+        return summaries;
       }
     } catch (error) {
-      console.error('Error analyzing passages:', error);
+      if (!isAbortError(error)) {
+        console.error('Error analyzing passages:', error);
+      }
       throw error;
     }
   }
@@ -290,97 +244,203 @@ export class LLMService {
     // Placeholder for future implementation
     return [];
   }
-
+  
   /**
-   * Chat with the book about the current passage
+   * Pick the passages to show the model for a chat question: the current passage,
+   * its neighbours and the passages retrieved for the question, in reading order
+   */
+  private async gatherChatPassages(prompt: string, currentPassage: Passage, passages: Passage[], maxChars: number): Promise<Passage[]> {
+    const currentIndex = passages.findIndex(p => p.id === currentPassage.id);
+    const neighbours = currentIndex >= 0
+      ? passages.slice(Math.max(0, currentIndex - CHAT_NEIGHBOUR_RADIUS), currentIndex + CHAT_NEIGHBOUR_RADIUS + 1)
+      : [currentPassage];
+    
+    let retrievedIds: string[] = [];
+    try {
+      const matches = await hybridRetriever.findRelevantPassages(prompt, currentPassage.bookId, CHAT_RETRIEVAL_TOP_K);
+      retrievedIds = matches.map(match => match.id);
+    } catch (error) {
+      console.warn('Passage retrieval failed, answering from the current passage only:', error);
+    }
+    
+    // The current passage and its neighbours come first when trimming to the budget
+    const chosen = new Set(neighbours.map(p => p.id));
+    let length = neighbours.reduce((total, p) => total + p.text.length, 0);
+    const passagesById = new Map(passages.map(p => [p.id, p]));
+    retrievedIds.forEach(id => {
+      const passage = passagesById.get(id);
+      if (!passage || chosen.has(id) || length + passage.text.length > maxChars) return;
+      chosen.add(id);
+      length += passage.text.length;
+    });
+    
+    return passages.length > 0
+      ? passages.filter(p => chosen.has(p.id))
+      : [currentPassage];
+  }
+  
+  /**
+   * Tokens of earlier turns the chat model is sent with each question
+   */
+  private getHistoryBudget(model: string): number {
+    return Math.min(MAX_HISTORY_TOKENS, Math.floor(getModelProfile(model).contextWindow * CHAT_HISTORY_SHARE));
+  }
+  
+  /**
+   * Drop the oldest turns until the history fits the chat model's budget
+   */
+  fitHistory(chatHistory: ChatMessage[], model: string = completionClient.getTaskModelName('chat')): ChatMessage[] {
+    const budget = this.getHistoryBudget(model);
+    let start = 0;
+    while (start < chatHistory.length && estimateMessageTokens(chatHistory.slice(start), model) > budget) {
+      start++;
+    }
+    if (start > 0) {
+      console.warn(`Chat history over budget; dropped ${start} oldest messages`);
+    }
+    return chatHistory.slice(start);
+  }
+  
+  /**
+   * Summarize the older turns of a chat history once it outgrows the chat model's budget,
+   * keeping the most recent turns verbatim. Resolves to null when the history still fits
+   * or the summary couldn't be written. Without a book, the summary is attributed to the library chat.
+   */
+  async condenseHistory(chatHistory: ChatMessage[], previousSummary?: string, bookId?: string): Promise<CondensedHistory | null> {
+    const model = completionClient.getTaskModelName('chat');
+    const budget = this.getHistoryBudget(model);
+    if (estimateMessageTokens(chatHistory, model) <= budget) return null;
+    
+    // Keep as many of the latest turns as fit in the recent share of the budget
+    let kept = 0;
+    while (
+      kept < chatHistory.length &&
+      estimateMessageTokens(chatHistory.slice(chatHistory.length - kept - 1), model) <= budget * RECENT_HISTORY_SHARE
+    ) {
+      kept++;
+    }
+    const older = chatHistory.slice(0, chatHistory.length - kept);
+    
+    const transcript = older
+      .map(message => `${message.role === 'user' ? 'Reader' : 'Assistant'}: ${message.content}`)
+      .join('\n\n');
+    
+    try {
+      const result = await completionClient.complete({
+        task: 'summarization',
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: `${previousSummary ? `EXISTING SUMMARY:\n${previousSummary}\n\n` : ''}CONVERSATION:\n${transcript}` }
+        ],
+        temperature: 0.3,
+        maxTokens: 500,
+        timeoutMs: this.config.timeoutMs,
+        usage: { feature: 'chat', bookIds: bookId ? [bookId] : [] }
+      });
+      
+      const summary = result.content.trim();
+      if (!summary) return null;
+      return { summary, summarizedCount: older.length };
+    } catch (error) {
+      console.warn('Could not summarize chat history, sending the latest turns only:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Chat with the book about the current passage, streaming the answer through options.onToken.
+   * The model sees the passages most relevant to the question rather than the start of the book,
+   * and as much of the history as fits the model's budget plus the summary and pinned facts in memory.
    */
   async chatWithBook(
     prompt: string, 
     currentPassage: Passage,
-    bookContent: string, 
-    chatHistory: {role: string, content: string}[] = []
-  ): Promise<string> {
+    passages: Passage[], 
+    chatHistory: ChatMessage[] = [],
+    memory: ChatMemory = {},
+    chapterTitle?: string,
+    options: StreamOptions = {}
+  ): Promise<ChatReply> {
     try {
+      const model = completionClient.getTaskModelName('chat');
+      const profile = getModelProfile(model);
+      const pinnedFacts = memory.pinnedFacts || [];
+      
       const systemPrompt = `
 You are an expert literary companion AI that engages in thoughtful discussion about books.
 Your purpose is to help readers understand and appreciate the text they're reading.
 
 You have access to:
-1. The full book text
+1. Passages from the book selected for the reader's question, each labelled with its ID
 2. The specific passage the reader is currently reading
-3. Previous chat history with this reader
+3. Previous chat history with this reader, with older turns summarized
+4. Facts the reader pinned for you to remember
 
 When answering questions:
 - Be concise but insightful
 - Provide textual evidence from the book when relevant
+- Cite every passage you draw on by putting its ID in square brackets, e.g. [${currentPassage.id}]
 - Avoid unnecessarily long explanations
 - Focus on helping the reader understand the text more deeply
-- Consider both the immediate passage and broader context from the full book
 
-Important: If asked about something not in the book, politely indicate this limitation.
-Do not fabricate details that aren't present in the text.`;
+Important: If the passages don't cover what is asked, say so rather than guessing.
+Do not fabricate details that aren't present in the text.
+${memory.summary ? `\nEARLIER CONVERSATION (SUMMARIZED):\n${memory.summary}\n` : ''}${pinnedFacts.length > 0 ? `\nPINNED FACTS:\n${pinnedFacts.map(fact => `- ${fact}`).join('\n')}\n` : ''}`;
 
+      const maxChars = Math.min(CHAT_CONTEXT_CHARS, Math.floor(profile.contextWindow * CHAT_PASSAGE_SHARE * profile.charsPerToken));
+      const contextPassages = await this.gatherChatPassages(prompt, currentPassage, passages, maxChars);
+      const contextIds = new Set(contextPassages.map(p => p.id));
+      
       // Format the message for the LLM
-      const messages = [
+      const messages: ChatMessage[] = [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: `
-FULL BOOK CONTENT:
-${bookContent.slice(0, 25000)}... [book content truncated for space]
-
-CURRENT PASSAGE:
+BOOK PASSAGES:
+${contextPassages.map(p => `[${p.id}]\n${p.text}`).join('\n\n')}
+${chapterTitle ? `\nCURRENT CHAPTER: "${chapterTitle}"\n` : ''}
+CURRENT PASSAGE: [${currentPassage.id}]
 ${currentPassage.text}
 
 QUESTION:
 ${prompt}` }
       ];
-
-      // Add chat history if provided
-      if (chatHistory.length > 0) {
-        // Insert chat history before the current question
-        messages.splice(1, 0, ...chatHistory);
+      
+      // Insert as much chat history as fits before the current question
+      const history = this.fitHistory(chatHistory, model);
+      if (history.length > 0) {
+        messages.splice(1, 0, ...history);
       }
-
-      // Setup timeout controller
-      const timeoutController = new AbortController();
-      const timeoutId = window.setTimeout(() => {
-        timeoutController.abort();
-      }, this.config.timeoutMs || 180000);
       
       try {
-        const response = await fetch(this.config.endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.apiKey}`
-          },
-          body: JSON.stringify({
-            model: this.config.model,
-            messages: messages,
-            temperature: 0.7, // Slightly higher temperature for more engaging responses
-            max_tokens: 1000, // Limit response length
-            stream: false
-          }),
-          signal: timeoutController.signal
-        });
-        
-        // Clear the timeout
-        clearTimeout(timeoutId);
+        const result = await completionClient.stream({
+          task: 'chat',
+          messages,
+          temperature: 0.7, // Slightly higher temperature for more engaging responses
+          maxTokens: 1000, // Limit response length
+          timeoutMs: this.config.timeoutMs,
+          usage: { feature: 'chat', bookIds: [currentPassage.bookId] }
+        }, options);
         
-        if (!response.ok) {
-          throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+        if (!result.content && result.status === 'complete') {
+          return { content: 'I apologize, but I couldn\'t generate a response.', status: 'failed', citations: [] };
         }
-        
-        const data = await response.json();
-        return data.choices[0]?.message?.content || 'I apologize, but I couldn\'t generate a response.';
+        return {
+          content: result.content,
+          status: result.status,
+          citations: extractCitations(result.content, contextIds)
+        };
       } catch (error: any) {
-        if (error.name === 'AbortError') {
-          return 'The request timed out. Please try again with a shorter query.';
+        if (error.message?.startsWith('Request timed out')) {
+          return { content: 'The request timed out. Please try again with a shorter query.', status: 'failed', citations: [] };
+        }
+        if (error instanceof BudgetExceededError) {
+          return { content: error.message, status: 'failed', citations: [] };
         }
         throw error;
       }
     } catch (error: any) {
       console.error('Error in chatWithBook:', error);
-      return 'I apologize, but there was an error processing your question.';
+      return { content: 'I apologize, but there was an error processing your question.', status: 'failed', citations: [] };
     }
   }
-} 
\ No newline at end of file
+}
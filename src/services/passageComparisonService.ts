@@ -1,13 +1,21 @@
-import { Passage, Book } from '@/lib/textProcessing';
-import { LLMService } from './llmService';
-import { embeddingService } from './embeddingService';
+import { Passage, Book, findChapter } from '@/lib/textProcessing';
+import { embeddingService, EmbeddingReport } from './embeddingService';
+import { hybridRetriever, HybridSearchOptions } from './hybridRetriever';
+import { completeStructured, ItemFailure, RESPONSE_KEY } from './structuredCompletion';
+import { completionClient, CompletionTask } from './completionClient';
+import { usageLedger, UsageContext } from './usageLedger';
+import { Schema } from '@/lib/structuredOutput';
+import { estimateTokens } from '@/lib/tokenEstimation';
+import { estimateCost, getModelPrice } from '@/lib/usageCost';
 import { useBookStore } from '@/store/bookStore';
-import { TimeoutController } from '@/utils/timeoutController';
+import type { UsageFeature, RunTotals } from '@/store/usageStore';
+import { isAbortError } from '@/utils/abort';
 
 /**
  * Types for passage comparisons
  */
-export type RelationType = 'supports' | 'contradicts' | 'extends' | 'analogous';
+export const RELATION_TYPES = ['supports', 'contradicts', 'extends', 'analogous'] as const;
+export type RelationType = typeof RELATION_TYPES[number];
 
 export interface PassageRelation {
   focusPassageId: string;
@@ -17,9 +25,94 @@ export interface PassageRelation {
   similarity: number;
 }
 
+/**
+ * A relation the LLM couldn't produce valid output for
+ */
+export interface ComparisonFailure {
+  focusPassageId: string;
+  relatedPassageId?: string;
+  errors: string[];
+}
+
+/**
+ * Relation items as the LLM returns them
+ */
+interface LLMRelation {
+  passage_id: string;
+  relation: RelationType;
+  evidence: string;
+}
+
+interface LLMBookRelation {
+  focus_passage_id: string;
+  related_passage_id: string;
+  relation_type: RelationType;
+  evidence: string;
+}
+
+const BOOK_RELATION_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    focus_passage_id: { type: 'string', minLength: 1 },
+    related_passage_id: { type: 'string', minLength: 1 },
+    relation_type: { type: 'string', enum: RELATION_TYPES },
+    evidence: { type: 'string', minLength: 1 }
+  },
+  required: ['focus_passage_id', 'related_passage_id', 'relation_type', 'evidence']
+};
+
+/**
+ * What a comparison run is expected to take, shown for confirmation before it starts
+ */
+export interface ComparisonEstimate extends RunTotals {
+  path?: 'singleContext' | 'chapters'; // How analyzeFullBooks will send the books
+  exact: boolean; // False when LLM calls are an upper bound because a book isn't indexed yet
+  priced: boolean; // False when a model is missing from the price table and counted as free
+}
+
+/**
+ * Lets a long comparison be resumed: steps already done are skipped, and the relations
+ * of each step are handed over as soon as it finishes so they can be saved.
+ * Steps are source passage IDs for compareAllPassages and chapter batches for analyzeFullBooks.
+ * Throwing from onStepComplete stops the run after that step.
+ */
+export interface RunOptions {
+  completedSteps?: string[];
+  onStepComplete?: (step: string, relations: Map<string, PassageRelation[]>) => void;
+  signal?: AbortSignal; // Checked between steps; aborting also cancels the request in flight
+}
+
+/**
+ * Passages of one or more chapters of each book, sent together in one request
+ */
+interface ChapterBatch {
+  sourcePassages: Passage[];
+  targetPassages: Passage[];
+  sourceChapterNames: string;
+  targetChapterNames: string;
+}
+
 // Default threshold for similarity
 const DEFAULT_SIMILARITY_THRESHOLD = 0.50;
 
+const RELATION_SYSTEM_MESSAGE = 'You are an expert in textual analysis. Return valid JSON only.';
+const BOOK_RELATION_SYSTEM_MESSAGE = 'You are an expert in textual analysis. Return valid JSON only with no extra explanations.';
+const RELATION_MAX_TOKENS = 4000;
+const BOOK_RELATION_MAX_TOKENS = 8000;
+// Books larger than this are compared chapter by chapter; leaves room for prompt and response in a 1M context
+const FULL_BOOK_MAX_TOKENS = 800000;
+
+// The one step of a full book analysis that sends both books at once
+const FULL_BOOK_STEP = 'all';
+
+// Rough size of one relation in the model's answer, for estimates
+const TOKENS_PER_RELATION = 60;
+// Assumed time of a request before the model has been timed
+const DEFAULT_LATENCY_MS: Partial<Record<CompletionTask, number>> = {
+  comparison: 15000,
+  bookComparison: 120000
+};
+
 // Define type for the LLM response callback
 type LLMResponseCallback = (prompt: string) => Promise<string>;
 
@@ -27,15 +120,29 @@ type LLMResponseCallback = (prompt: string) => Promise<string>;
  * Service for comparing passages between books
  */
 export class PassageComparisonService {
-  private llmService: LLMService;
   private similarityThreshold: number;
-  private llamaApiKey: string = '';
+  private lastFailures: ComparisonFailure[] = [];
+  private lastFailedSteps: string[] = []; // Steps whose request failed outright in the last full book analysis
+  private usageFeature: UsageFeature = 'comparison';
   
   constructor(similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD) {
-    this.llmService = new LLMService();
     this.similarityThreshold = similarityThreshold;
   }
   
+  /**
+   * Get the relations that failed validation in the last comparison
+   */
+  getLastFailures(): ComparisonFailure[] {
+    return this.lastFailures;
+  }
+  
+  /**
+   * Get the batches of chapters the last full book analysis got no answer for, so their relations are missing
+   */
+  getLastFailedSteps(): string[] {
+    return this.lastFailedSteps;
+  }
+  
   /**
    * Set the similarity threshold
    */
@@ -44,24 +151,26 @@ export class PassageComparisonService {
   }
   
   /**
-   * Set API key for the underlying services
+   * Set the feature the cost of later calls is attributed to, e.g. while comparing automatically
    */
-  setApiKey(llamaApiKey: string, openaiApiKey?: string) {
-    this.llmService.setApiKey(llamaApiKey);
-    this.llamaApiKey = llamaApiKey;
-    
-    // If OpenAI API key is provided, set it for the embedding service
-    if (openaiApiKey) {
-      embeddingService.setApiKey(openaiApiKey);
-    }
+  setUsageFeature(feature: UsageFeature) {
+    this.usageFeature = feature;
   }
   
   /**
-   * Process all passages in a book to generate embeddings
+   * Attribute a call about some passages to their books
    */
-  async indexBook(bookId: string): Promise<void> {
-    const bookStore = useBookStore.getState();
-    const passages = bookStore.getPassages(bookId);
+  private getUsage(passages: Passage[]): UsageContext {
+    return { feature: this.usageFeature, bookIds: Array.from(new Set(passages.map(p => p.bookId))) };
+  }
+  
+  /**
+   * Process all passages in a book to generate embeddings.
+   * Passages that already have one are skipped, so this also retries earlier failures.
+   */
+  async indexBook(bookId: string, signal?: AbortSignal): Promise<EmbeddingReport> {
+    const book = await useBookStore.getState().loadBook(bookId);
+    const passages = book?.passages || [];
     
     if (passages.length === 0) {
       throw new Error(`No passages found for book ${bookId}`);
@@ -70,9 +179,156 @@ export class PassageComparisonService {
     console.log(`Indexing book ${bookId} with ${passages.length} passages`);
     
     // Process all passages to generate embeddings
-    await embeddingService.processPassages(passages);
+    const report = await embeddingService.processPassages(passages, { feature: this.usageFeature }, signal);
+    
+    if (report.failed.length > 0) {
+      console.warn(`${report.failed.length} passages of book ${bookId} could not be embedded`, report.failed);
+    } else {
+      console.log(`Successfully indexed book ${bookId}`);
+    }
+    return report;
+  }
+  
+  /**
+   * Estimate the embedding and LLM calls, tokens, cost and time of compareAllPassages.
+   * Once both books are indexed the passages clearing the threshold are counted exactly;
+   * before that every source passage is assumed to get topK candidates.
+   */
+  async estimateCompareAllPassages(
+    sourceBookId: string,
+    targetBookId: string,
+    topK: number = 3,
+    retrievalOptions: Partial<HybridSearchOptions> = {}
+  ): Promise<ComparisonEstimate> {
+    const bookStore = useBookStore.getState();
+    const sourceBook = await bookStore.loadBook(sourceBookId);
+    const targetBook = await bookStore.loadBook(targetBookId);
+    
+    if (!sourceBook || !targetBook) {
+      throw new Error('Source or target book not found');
+    }
     
-    console.log(`Successfully indexed book ${bookId}`);
+    const embedding = await embeddingService.estimateProcessing([...sourceBook.passages, ...targetBook.passages]);
+    const exact = embedding.calls === 0;
+    const calls: { promptTokens: number, completionTokens: number }[] = [];
+    
+    if (exact) {
+      const matchesByPassage = await hybridRetriever.findSimilarPassagesAcrossBooks(sourceBook, targetBookId, topK, retrievalOptions);
+      const targetPassages = new Map(targetBook.passages.map(p => [p.id, p]));
+      
+      sourceBook.passages.forEach(passage => {
+        const candidates = (matchesByPassage.get(passage.id) || [])
+          .filter(match => match.score >= this.similarityThreshold)
+          .map(match => targetPassages.get(match.id))
+          .filter((candidate): candidate is Passage => !!candidate);
+        if (candidates.length === 0) return;
+        
+        calls.push({
+          promptTokens: estimateTokens(RELATION_SYSTEM_MESSAGE + this.createRelationshipPrompt(passage, candidates)),
+          completionTokens: candidates.length * TOKENS_PER_RELATION
+        });
+      });
+    } else {
+      const averageTargetTokens = targetBook.passages.length > 0
+        ? estimateTokens(targetBook.passages.map(p => p.text).join('')) / targetBook.passages.length
+        : 0;
+      const candidateCount = Math.min(topK, targetBook.passages.length);
+      
+      sourceBook.passages.forEach(passage => {
+        calls.push({
+          promptTokens: Math.ceil(estimateTokens(RELATION_SYSTEM_MESSAGE + this.createRelationshipPrompt(passage, [])) + candidateCount * averageTargetTokens),
+          completionTokens: candidateCount * TOKENS_PER_RELATION
+        });
+      });
+    }
+    
+    return {
+      ...this.estimateCalls('comparison', calls, embedding),
+      exact
+    };
+  }
+  
+  /**
+   * Estimate the LLM calls, tokens, cost and time of analyzeFullBooks,
+   * and whether it will send both books at once or chapter by chapter
+   */
+  async estimateFullBooks(
+    sourceBookId: string,
+    targetBookId: string,
+    chaptersPerBatch: number = 1
+  ): Promise<ComparisonEstimate> {
+    const bookStore = useBookStore.getState();
+    const sourceBook = await bookStore.loadBook(sourceBookId);
+    const targetBook = await bookStore.loadBook(targetBookId);
+    
+    if (!sourceBook || !targetBook) {
+      throw new Error('Source or target book not found');
+    }
+    
+    const estimateCall = (prompt: string, sourcePassages: Passage[]) => ({
+      promptTokens: this.estimateBookComparisonTokens(BOOK_RELATION_SYSTEM_MESSAGE + prompt),
+      completionTokens: Math.min(BOOK_RELATION_MAX_TOKENS, sourcePassages.length * TOKENS_PER_RELATION)
+    });
+    
+    if (!this.needsChapterBatches(sourceBook.passages, targetBook.passages)) {
+      const prompt = this.createFullBooksAnalysisPrompt(sourceBook, sourceBook.passages, targetBook, targetBook.passages);
+      return {
+        ...this.estimateCalls('bookComparison', [estimateCall(prompt, sourceBook.passages)]),
+        path: 'singleContext',
+        exact: true
+      };
+    }
+    
+    const calls = this.getChapterBatches(sourceBook, targetBook, chaptersPerBatch).map(batch => estimateCall(
+      this.createChapterComparisonPrompt(
+        sourceBook, batch.sourcePassages, batch.sourceChapterNames,
+        targetBook, batch.targetPassages, batch.targetChapterNames
+      ),
+      batch.sourcePassages
+    ));
+    return {
+      ...this.estimateCalls('bookComparison', calls),
+      path: 'chapters',
+      exact: true
+    };
+  }
+  
+  /**
+   * Add up the cost and time of a run's LLM calls, which are made one after another,
+   * and of the embeddings made before them
+   */
+  private estimateCalls(
+    task: CompletionTask,
+    calls: { promptTokens: number, completionTokens: number }[],
+    embedding = { calls: 0, tokens: 0, cost: 0, durationMs: 0, priced: true }
+  ): Omit<ComparisonEstimate, 'exact'> {
+    const { provider } = completionClient.getTaskModel(task);
+    const model = completionClient.getTaskModelName(task);
+    const promptTokens = calls.reduce((total, call) => total + call.promptTokens, 0);
+    const completionTokens = calls.reduce((total, call) => total + call.completionTokens, 0);
+    const latency = usageLedger.getAverageLatency('completion', provider, model) ?? DEFAULT_LATENCY_MS[task] ?? 0;
+    
+    return {
+      embeddingCalls: embedding.calls,
+      embeddingTokens: embedding.tokens,
+      llmCalls: calls.length,
+      promptTokens,
+      completionTokens,
+      cost: embedding.cost + estimateCost(provider, model, promptTokens, completionTokens),
+      durationMs: embedding.durationMs + calls.length * latency,
+      priced: embedding.priced && !!getModelPrice(provider, model)
+    };
+  }
+  
+  /**
+   * Check whether every passage of a book has a stored embedding
+   */
+  async isBookIndexed(bookId: string): Promise<boolean> {
+    const book = await useBookStore.getState().loadBook(bookId);
+    if (!book || book.passages.length === 0) return false;
+    
+    const missingPassages = await embeddingService.getMissingPassages(book.passages);
+    return missingPassages.length === 0;
   }
   
   /**
@@ -81,26 +337,29 @@ export class PassageComparisonService {
   async compareWithBook(
     focusPassage: Passage,
     targetBookId: string,
-    topK: number = 5
+    topK: number = 5,
+    retrievalOptions: Partial<HybridSearchOptions> = {}
   ): Promise<PassageRelation[]> {
-    const bookStore = useBookStore.getState();
+    this.lastFailures = [];
+    const targetBook = await useBookStore.getState().loadBook(targetBookId);
     
     // Ensure the target book is indexed
-    const targetBookVectors = embeddingService.getBookVectors(targetBookId);
-    if (targetBookVectors.length === 0) {
+    if (!(await this.isBookIndexed(targetBookId))) {
       // Book not indexed yet, do it now
       await this.indexBook(targetBookId);
     }
     
-    // Find similar passages using embeddings
-    const similarPassages = await embeddingService.findSimilarPassages(
+    // Find similar passages using embeddings and shared terms
+    const similarPassages = await hybridRetriever.findSimilarPassages(
       focusPassage,
       targetBookId,
-      topK
+      topK,
+      retrievalOptions,
+      { feature: this.usageFeature }
     );
     
     // Filter by similarity threshold
-    const thresholdPassages = similarPassages.filter(p => p.similarity >= this.similarityThreshold);
+    const thresholdPassages = similarPassages.filter(match => match.score >= this.similarityThreshold);
     
     // If no passages meet the threshold, return empty array
     if (thresholdPassages.length === 0) {
@@ -108,17 +367,16 @@ export class PassageComparisonService {
     }
     
     // Fill in the passage texts
-    const passagesWithText = thresholdPassages.map(result => {
-      const passage = bookStore.getPassages(targetBookId)
-        .find(p => p.id === result.passage.id);
+    const passagesWithText = thresholdPassages.map(match => {
+      const passage = targetBook?.passages.find(p => p.id === match.id);
       
       if (!passage) {
-        throw new Error(`Passage ${result.passage.id} not found in book ${targetBookId}`);
+        throw new Error(`Passage ${match.id} not found in book ${targetBookId}`);
       }
       
       return {
         passage,
-        similarity: result.similarity
+        similarity: match.score
       };
     });
     
@@ -140,70 +398,57 @@ export class PassageComparisonService {
     targetBookId: string,
     topK: number = 3,
     batchSize: number = 5,
-    progressCallback?: (progress: number, message: string) => void
+    progressCallback?: (progress: number, message: string) => void,
+    retrievalOptions: Partial<HybridSearchOptions> = {},
+    runOptions: RunOptions = {}
   ): Promise<Map<string, PassageRelation[]>> {
+    this.lastFailures = [];
+    const { signal } = runOptions;
     const bookStore = useBookStore.getState();
-    const sourceBook = bookStore.getBook(sourceBookId);
-    const targetBook = bookStore.getBook(targetBookId);
+    const sourceBook = await bookStore.loadBook(sourceBookId);
+    const targetBook = await bookStore.loadBook(targetBookId);
     
     if (!sourceBook || !targetBook) {
       throw new Error('Source or target book not found');
     }
     
     // Ensure both books are indexed
-    const sourceBookVectors = embeddingService.getBookVectors(sourceBookId);
-    if (sourceBookVectors.length === 0) {
+    if (!(await this.isBookIndexed(sourceBookId))) {
       progressCallback?.(5, `Indexing source book: ${sourceBook.title}`);
-      await this.indexBook(sourceBookId);
+      await this.indexBook(sourceBookId, signal);
     }
     
-    const targetBookVectors = embeddingService.getBookVectors(targetBookId);
-    if (targetBookVectors.length === 0) {
+    if (!(await this.isBookIndexed(targetBookId))) {
       progressCallback?.(10, `Indexing target book: ${targetBook.title}`);
-      await this.indexBook(targetBookId);
+      await this.indexBook(targetBookId, signal);
     }
     
     progressCallback?.(15, `Starting comparison of all passages`);
     
     // Get all passages from source book
-    const sourcePassages = bookStore.getPassages(sourceBookId);
+    const sourcePassages = sourceBook.passages;
     
     // Map to store all relations by passage ID
     const allRelations = new Map<string, PassageRelation[]>();
     
-    // Process all passages at once instead of in batches
-    progressCallback?.(20, `Finding similar passages for all ${sourcePassages.length} passages at once`);
-    
-    // Find similar passages for all source passages at once using embeddings
-    const allSimilarPassages = await Promise.all(
-      sourcePassages.map(async (passage) => {
-        try {
-          // Find similar passages using embeddings
-          const similarPassages = await embeddingService.findSimilarPassages(
-            passage,
-            targetBookId,
-            topK
-          );
-          
-          // Filter by similarity threshold
-          const thresholdPassages = similarPassages.filter(p => p.similarity >= this.similarityThreshold);
-          
-          return {
-            passageId: passage.id,
-            passage: passage,
-            similarPassages: thresholdPassages,
-          };
-        } catch (error) {
-          console.error(`Error finding similar passages for ${passage.id}:`, error);
-          return {
-            passageId: passage.id,
-            passage: passage,
-            similarPassages: [],
-          };
-        }
-      })
+    // Score every source passage against every target passage from the stored vectors and lexical index
+    progressCallback?.(20, `Scoring all ${sourcePassages.length} passages against ${targetBook.title}`);
+    const matchesByPassage = await hybridRetriever.findSimilarPassagesAcrossBooks(
+      sourceBook,
+      targetBookId,
+      topK,
+      retrievalOptions
     );
     
+    const allSimilarPassages = sourcePassages.map(passage => ({
+      passageId: passage.id,
+      passage: passage,
+      // Filter by similarity threshold
+      similarPassages: (matchesByPassage.get(passage.id) || [])
+        .filter(match => match.score >= this.similarityThreshold)
+        .map(match => ({ passage: { id: match.id }, similarity: match.score })),
+    }));
+    
     progressCallback?.(60, `Found similar passages, now analyzing relationships`);
     
     // Filter out passages with no similar passages
@@ -217,13 +462,20 @@ export class PassageComparisonService {
     }
     
     // For each passage with similar passages, analyze the relationships
-    for (const result of passagesWithSimilarities) {
-      const { passageId, passage, similarPassages } = result;
+    const completedSteps = new Set(runOptions.completedSteps);
+    for (let i = 0; i < passagesWithSimilarities.length; i++) {
+      const { passageId, passage, similarPassages } = passagesWithSimilarities[i];
+      if (completedSteps.has(passageId)) continue;
+      signal?.throwIfAborted();
+      
+      progressCallback?.(
+        60 + Math.floor((i / passagesWithSimilarities.length) * 40),
+        `Analyzing passage ${i + 1} of ${passagesWithSimilarities.length}`
+      );
       
       // Fill in the passage texts
       const passagesWithText = similarPassages.map(similar => {
-        const relatedPassage = bookStore.getPassages(targetBookId)
-          .find(p => p.id === similar.passage.id);
+        const relatedPassage = targetBook.passages.find(p => p.id === similar.passage.id);
         
         if (!relatedPassage) {
           throw new Error(`Passage ${similar.passage.id} not found in book ${targetBookId}`);
@@ -239,10 +491,12 @@ export class PassageComparisonService {
       const relations = await this.analyzeRelationships(
         passage,
         passagesWithText.map(p => p.passage),
-        passagesWithText.map(p => p.similarity)
+        passagesWithText.map(p => p.similarity),
+        signal
       );
       
       allRelations.set(passageId, relations);
+      runOptions.onStepComplete?.(passageId, new Map([[passageId, relations]]));
     }
     
     progressCallback?.(100, `Comparison complete`);
@@ -250,71 +504,63 @@ export class PassageComparisonService {
     return allRelations;
   }
   
-  /**
-   * Direct call to LLama API for relationship analysis
-   */
-  private async callLlamaDirectly(prompt: string): Promise<string> {
-    try {
-      console.log('Making direct Llama API call for relationship analysis');
-      
-      const response = await fetch('https://api.llama.com/compat/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.llamaApiKey}`
-        },
-        body: JSON.stringify({
-          model: 'Llama-4-Maverick-17B-128E-Instruct-FP8',
-          messages: [
-            { role: 'system', content: 'You are an expert in textual analysis. Return valid JSON only.' },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.1,
-          max_tokens: 4000,
-          stream: false,
-          top_p: 0.95
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}. Details: ${errorText}`);
-      }
-      
-      const data = await response.json();
-      return data.choices[0]?.message?.content || '';
-    } catch (error) {
-      console.error('Error calling Llama API directly:', error);
-      throw error;
-    }
-  }
-  
   /**
    * Use LLM to analyze relationships between passages
    */
   private async analyzeRelationships(
     focusPassage: Passage,
     candidatePassages: Passage[],
-    similarities: number[]
+    similarities: number[],
+    signal?: AbortSignal
   ): Promise<PassageRelation[]> {
     // Create the prompt
     const prompt = this.createRelationshipPrompt(focusPassage, candidatePassages);
+    const candidateIds = candidatePassages.map(p => p.id);
     
     try {
-      // Call Llama directly
-      const rawResponse = await this.callLlamaDirectly(prompt);
+      const result = await completeStructured<LLMRelation>({
+        task: 'comparison',
+        messages: [
+          { role: 'system', content: RELATION_SYSTEM_MESSAGE },
+          { role: 'user', content: prompt }
+        ],
+        itemSchema: {
+          type: 'object',
+          properties: {
+            passage_id: { type: 'string', enum: candidateIds },
+            relation: { type: 'string', enum: RELATION_TYPES },
+            evidence: { type: 'string', minLength: 1 }
+          },
+          required: ['passage_id', 'relation', 'evidence']
+        },
+        getKey: item => item.passage_id,
+        expectedKeys: candidateIds,
+        temperature: 0.1,
+        maxTokens: RELATION_MAX_TOKENS,
+        topP: 0.95,
+        usage: this.getUsage([focusPassage, ...candidatePassages]),
+        signal
+      });
       
-      // Parse the response
-      const relations = this.parseRelationsFromResponse(
-        rawResponse,
-        focusPassage.id,
-        candidatePassages,
-        similarities
-      );
+      result.failures.forEach(failure => {
+        this.lastFailures.push({
+          focusPassageId: focusPassage.id,
+          relatedPassageId: failure.key,
+          errors: failure.errors
+        });
+      });
       
-      return relations;
+      return result.items.map(item => ({
+        focusPassageId: focusPassage.id,
+        relatedPassageId: item.passage_id,
+        relationType: item.relation,
+        evidence: item.evidence,
+        similarity: similarities[candidateIds.indexOf(item.passage_id)] ?? 0
+      }));
     } catch (error) {
-      console.error('Error analyzing relationships:', error);
+      if (!isAbortError(error)) {
+        console.error('Error analyzing relationships:', error);
+      }
       throw error;
     }
   }
@@ -326,8 +572,6 @@ export class PassageComparisonService {
     focusPassage: Passage,
     candidatePassages: Passage[]
   ): string {
-    const relationTypes: RelationType[] = ['supports', 'contradicts', 'extends', 'analogous'];
-    
     // Format the JSON input for the LLM, but avoid stringifying the full passages
     // to keep the prompt more concise and focused
     return `You are an expert in analyzing relationships between text passages. Analyze the following focus passage and its relationship to candidate passages.
@@ -376,74 +620,6 @@ Example output format:
 ]`;
   }
   
-  /**
-   * Parse the LLM response into structured relations
-   */
-  private parseRelationsFromResponse(
-    response: string,
-    focusPassageId: string,
-    candidatePassages: Passage[],
-    similarities: number[]
-  ): PassageRelation[] {
-    try {
-      // Try to parse as JSON
-      let jsonResponse;
-      
-      // Check if response is wrapped in markdown code blocks
-      const markdownMatch = response.match(/```(?:json)?\s+([\s\S]+?)\s+```/);
-      if (markdownMatch) {
-        // Extract the content inside the code blocks
-        jsonResponse = JSON.parse(markdownMatch[1]);
-      } else {
-        // Try to clean up the response before parsing
-        // Remove any extra text before the first '[' and after the last ']'
-        const jsonMatch = response.match(/(\[[\s\S]*\])/);
-        if (jsonMatch) {
-          jsonResponse = JSON.parse(jsonMatch[1]);
-        } else {
-          // Try to parse the raw response
-          jsonResponse = JSON.parse(response);
-        }
-      }
-      
-      // Ensure it's an array
-      if (!Array.isArray(jsonResponse)) {
-        throw new Error('Response is not a valid array');
-      }
-      
-      // Map to our internal structure
-      return jsonResponse.map((item: any) => {
-        const passageId = item.passage_id;
-        const passage = candidatePassages.find(p => p.id === passageId);
-        
-        if (!passage) {
-          console.warn(`Passage ${passageId} not found in candidates, skipping`);
-          return null;
-        }
-        
-        // Find the similarity score for this passage
-        const passageIndex = candidatePassages.findIndex(p => p.id === passageId);
-        const similarity = passageIndex >= 0 && passageIndex < similarities.length 
-          ? similarities[passageIndex] 
-          : 0;
-        
-        return {
-          focusPassageId,
-          relatedPassageId: passageId,
-          relationType: item.relation as RelationType,
-          evidence: item.evidence,
-          similarity
-        };
-      }).filter(Boolean) as PassageRelation[]; // Filter out null values
-    } catch (error) {
-      console.error('Error parsing relations from response:', error);
-      console.error('Raw response:', response);
-      
-      // Return an empty array if parsing fails
-      return [];
-    }
-  }
-  
   /**
    * Analyze entire books using Llama's 1M context window
    * This method bypasses the embedding-based similarity search and sends larger chunks
@@ -453,11 +629,14 @@ Example output format:
     sourceBookId: string,
     targetBookId: string,
     chaptersPerBatch: number = 1,
-    progressCallback?: (progress: number, message: string) => void
+    progressCallback?: (progress: number, message: string) => void,
+    runOptions: RunOptions = {}
   ): Promise<Map<string, PassageRelation[]>> {
+    this.lastFailures = [];
+    this.lastFailedSteps = [];
     const bookStore = useBookStore.getState();
-    const sourceBook = bookStore.getBook(sourceBookId);
-    const targetBook = bookStore.getBook(targetBookId);
+    const sourceBook = await bookStore.loadBook(sourceBookId);
+    const targetBook = await bookStore.loadBook(targetBookId);
     
     if (!sourceBook || !targetBook) {
       throw new Error('Source or target book not found');
@@ -466,8 +645,8 @@ Example output format:
     progressCallback?.(5, 'Preparing books for full-context analysis');
     
     // Get all passages
-    const sourcePassages = bookStore.getPassages(sourceBookId);
-    const targetPassages = bookStore.getPassages(targetBookId);
+    const sourcePassages = sourceBook.passages;
+    const targetPassages = targetBook.passages;
     
     if (sourcePassages.length === 0 || targetPassages.length === 0) {
       throw new Error('One or both books have no passages');
@@ -481,17 +660,15 @@ Example output format:
     progressCallback?.(10, `Processing books with total text length of ${totalLength} characters`);
     
     // Check if we need to process in batches based on estimated token count
-    // Rough estimate: 1 token ≈ 4 characters for English text
-    const estimatedTokens = totalLength / 4;
-    const maxTokensPerBatch = 800000; // Save room for prompt and response in the 1M context
+    const estimatedTokens = this.estimateBookComparisonTokens([...sourcePassages, ...targetPassages].map(p => p.text).join(''));
     
     // Store all relations
     const allRelations = new Map<string, PassageRelation[]>();
     
-    if (estimatedTokens > maxTokensPerBatch) {
+    if (this.needsChapterBatches(sourcePassages, targetPassages)) {
       // Need to process in chapter-sized batches
       progressCallback?.(15, `Books are too large for single processing (est. ${Math.round(estimatedTokens/1000)}K tokens). Using batch processing.`);
-      return this.analyzeBooksByChapters(sourceBook, targetBook, chaptersPerBatch, progressCallback);
+      return this.analyzeBooksByChapters(sourceBook, targetBook, chaptersPerBatch, progressCallback, runOptions);
     } else {
       // We can process all at once
       progressCallback?.(20, 'Books fit in a single context window. Processing all passages at once.');
@@ -502,30 +679,20 @@ Example output format:
       try {
         progressCallback?.(30, 'Sending full books to LLM for analysis...');
         
-        // Call Llama directly with the mega-prompt
-        const rawResponse = await this.callLlamaDirectlyWithLargeContext(prompt);
+        const relations = await this.requestBookRelations(prompt, sourcePassages, targetPassages, runOptions.signal);
         
         progressCallback?.(80, 'Processing LLM response...');
         
-        // Parse the relations from the response
-        const relations = this.parseFullBooksRelationsFromResponse(
-          rawResponse,
-          sourcePassages,
-          targetPassages
-        );
-        
         // Organize relations by passage ID
-        relations.forEach(relation => {
-          if (!allRelations.has(relation.focusPassageId)) {
-            allRelations.set(relation.focusPassageId, []);
-          }
-          allRelations.get(relation.focusPassageId)?.push(relation);
-        });
+        this.groupByFocusPassage(relations, allRelations);
+        runOptions.onStepComplete?.(FULL_BOOK_STEP, this.groupByFocusPassage(relations));
         
         progressCallback?.(100, 'Analysis complete');
         return allRelations;
       } catch (error) {
-        console.error('Error in full book analysis:', error);
+        if (!isAbortError(error)) {
+          console.error('Error in full book analysis:', error);
+        }
         throw error;
       }
     }
@@ -538,81 +705,146 @@ Example output format:
     sourceBook: Book,
     targetBook: Book,
     chaptersPerBatch: number = 1,
-    progressCallback?: (progress: number, message: string) => void
+    progressCallback?: (progress: number, message: string) => void,
+    runOptions: RunOptions = {}
   ): Promise<Map<string, PassageRelation[]>> {
-    const bookStore = useBookStore.getState();
-    const sourcePassages = bookStore.getPassages(sourceBook.id);
-    const targetPassages = bookStore.getPassages(targetBook.id);
+    const batches = this.getChapterBatches(sourceBook, targetBook, chaptersPerBatch);
+    const completedSteps = new Set(runOptions.completedSteps);
     
-    // Estimate chapter boundaries by looking for significant gaps between passages
-    const sourceChapters = this.estimateChapters(sourcePassages);
-    const targetChapters = this.estimateChapters(targetPassages);
-    
-    progressCallback?.(20, `Estimated ${sourceChapters.length} chapters in source book and ${targetChapters.length} chapters in target book`);
+    progressCallback?.(20, `Comparing the books in ${batches.length} batches of chapters`);
     
     // Process each source chapter against each target chapter
     const allRelations = new Map<string, PassageRelation[]>();
-    let completedBatches = 0;
-    const totalBatches = sourceChapters.length * targetChapters.length / (chaptersPerBatch * chaptersPerBatch);
+    
+    for (let i = 0; i < batches.length; i++) {
+      const { sourcePassages, targetPassages, sourceChapterNames, targetChapterNames } = batches[i];
+      if (completedSteps.has(`chapters-${i}`)) continue;
+      runOptions.signal?.throwIfAborted();
+      
+      progressCallback?.(
+        20 + Math.floor((i / batches.length) * 70),
+        `Analyzing ${sourceChapterNames} of "${sourceBook.title}" against ${targetChapterNames} of "${targetBook.title}"`
+      );
+      
+      // Create a prompt for this batch of chapters
+      const prompt = this.createChapterComparisonPrompt(
+        sourceBook, sourcePassages, sourceChapterNames,
+        targetBook, targetPassages, targetChapterNames
+      );
+      
+      let relations: PassageRelation[];
+      try {
+        relations = await this.requestBookRelations(prompt, sourcePassages, targetPassages, runOptions.signal);
+        
+        // Add to the overall relations map
+        this.groupByFocusPassage(relations, allRelations);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Error analyzing chapters ${sourceChapterNames} against ${targetChapterNames}:`, error);
+        // Continue with other chapters, reporting every passage of this batch as failed
+        const message = error instanceof Error ? error.message : String(error);
+        this.recordBookFailures([{ key: RESPONSE_KEY, errors: [message] }], sourcePassages);
+        this.lastFailedSteps.push(`chapters-${i}`);
+        continue;
+      }
+      runOptions.onStepComplete?.(`chapters-${i}`, this.groupByFocusPassage(relations));
+    }
+    
+    progressCallback?.(100, this.lastFailedSteps.length > 0
+      ? `Chapter-based analysis finished; ${this.lastFailedSteps.length} of ${batches.length} batches failed`
+      : 'Chapter-based analysis complete');
+    return allRelations;
+  }
+  
+  /**
+   * Add relations to a map of relations by focus passage
+   */
+  private groupByFocusPassage(
+    relations: PassageRelation[],
+    grouped: Map<string, PassageRelation[]> = new Map()
+  ): Map<string, PassageRelation[]> {
+    relations.forEach(relation => {
+      if (!grouped.has(relation.focusPassageId)) {
+        grouped.set(relation.focusPassageId, []);
+      }
+      grouped.get(relation.focusPassageId)?.push(relation);
+    });
+    return grouped;
+  }
+  
+  /**
+   * Pair every group of chaptersPerBatch source chapters with every such group of target chapters
+   */
+  private getChapterBatches(sourceBook: Book, targetBook: Book, chaptersPerBatch: number): ChapterBatch[] {
+    // Use the structure detected at ingestion, estimating it only for older books
+    const sourceChapters = this.getChapters(sourceBook, sourceBook.passages);
+    const targetChapters = this.getChapters(targetBook, targetBook.passages);
+    const batches: ChapterBatch[] = [];
     
     for (let i = 0; i < sourceChapters.length; i += chaptersPerBatch) {
       const sourceChapterBatch = sourceChapters.slice(i, i + chaptersPerBatch);
-      const sourceChapterPassages = this.getPassagesForChapters(sourcePassages, sourceChapterBatch);
       
       for (let j = 0; j < targetChapters.length; j += chaptersPerBatch) {
         const targetChapterBatch = targetChapters.slice(j, j + chaptersPerBatch);
-        const targetChapterPassages = this.getPassagesForChapters(targetPassages, targetChapterBatch);
-        
-        const sourceChapterNames = sourceChapterBatch.map(ch => `Chapter ${ch.index + 1}`).join(', ');
-        const targetChapterNames = targetChapterBatch.map(ch => `Chapter ${ch.index + 1}`).join(', ');
-        
-        progressCallback?.(
-          20 + Math.floor((completedBatches / totalBatches) * 70),
-          `Analyzing ${sourceChapterNames} of "${sourceBook.title}" against ${targetChapterNames} of "${targetBook.title}"`
-        );
         
-        // Create a prompt for this batch of chapters
-        const prompt = this.createChapterComparisonPrompt(
-          sourceBook, sourceChapterPassages, 
-          targetBook, targetChapterPassages
-        );
-        
-        try {
-          // Call Llama directly with the chapter comparison prompt
-          const rawResponse = await this.callLlamaDirectlyWithLargeContext(prompt);
-          
-          // Parse the relations from the response
-          const relations = this.parseFullBooksRelationsFromResponse(
-            rawResponse,
-            sourceChapterPassages,
-            targetChapterPassages
-          );
-          
-          // Add to the overall relations map
-          relations.forEach(relation => {
-            if (!allRelations.has(relation.focusPassageId)) {
-              allRelations.set(relation.focusPassageId, []);
-            }
-            allRelations.get(relation.focusPassageId)?.push(relation);
-          });
-        } catch (error) {
-          console.error(`Error analyzing chapters ${sourceChapterNames} against ${targetChapterNames}:`, error);
-          // Continue with other chapters rather than failing entirely
-        }
-        
-        completedBatches++;
+        batches.push({
+          sourcePassages: this.getPassagesForChapters(sourceBook.passages, sourceChapterBatch),
+          targetPassages: this.getPassagesForChapters(targetBook.passages, targetChapterBatch),
+          sourceChapterNames: sourceChapterBatch.map(ch => ch.title).join(', '),
+          targetChapterNames: targetChapterBatch.map(ch => ch.title).join(', ')
+        });
       }
     }
+    return batches;
+  }
+  
+  /**
+   * Tokens of text as the full book comparison model counts them
+   */
+  private estimateBookComparisonTokens(text: string): number {
+    return estimateTokens(text, completionClient.getTaskModelName('bookComparison'));
+  }
+  
+  /**
+   * Whether two books are too large to send to the full book comparison model at once
+   */
+  private needsChapterBatches(sourcePassages: Passage[], targetPassages: Passage[]): boolean {
+    const text = [...sourcePassages, ...targetPassages].map(p => p.text).join('');
+    return this.estimateBookComparisonTokens(text) > FULL_BOOK_MAX_TOKENS;
+  }
+  
+  /**
+   * Group passages into chapters using the book's detected structure.
+   * Consecutive passages with the same chapterId form one chapter.
+   */
+  private getChapters(book: Book, passages: Passage[]): Array<{index: number, title: string, startIdx: number, endIdx: number}> {
+    if (!book.chapters || book.chapters.length === 0 || passages.some(p => !p.chapterId)) {
+      return this.estimateChapters(passages);
+    }
     
-    progressCallback?.(100, 'Chapter-based analysis complete');
-    return allRelations;
+    const chapters: Array<{index: number, title: string, startIdx: number, endIdx: number}> = [];
+    passages.forEach((passage, i) => {
+      const last = chapters[chapters.length - 1];
+      if (last && passages[last.startIdx].chapterId === passage.chapterId) {
+        last.endIdx = i;
+      } else {
+        chapters.push({
+          index: chapters.length,
+          title: findChapter(book.chapters, passage.chapterId)?.title || `Chapter ${chapters.length + 1}`,
+          startIdx: i,
+          endIdx: i
+        });
+      }
+    });
+    
+    return chapters;
   }
   
   /**
    * Estimate chapter boundaries in a list of passages
    */
-  private estimateChapters(passages: Passage[]): Array<{index: number, startIdx: number, endIdx: number}> {
-    const chapters: Array<{index: number, startIdx: number, endIdx: number}> = [];
+  private estimateChapters(passages: Passage[]): Array<{index: number, title: string, startIdx: number, endIdx: number}> {
+    const chapters: Array<{index: number, title: string, startIdx: number, endIdx: number}> = [];
     let chapterStart = 0;
     
     // Look for chapter headings or significant breaks
@@ -630,6 +862,7 @@ Example output format:
         if (i > chapterStart) {
           chapters.push({
             index: chapters.length,
+            title: `Chapter ${chapters.length + 1}`,
             startIdx: chapterStart,
             endIdx: i - 1
           });
@@ -642,6 +875,7 @@ Example output format:
     if (chapterStart < passages.length) {
       chapters.push({
         index: chapters.length,
+        title: `Chapter ${chapters.length + 1}`,
         startIdx: chapterStart,
         endIdx: passages.length - 1
       });
@@ -653,6 +887,7 @@ Example output format:
       for (let i = 0; i < passages.length; i += chapterSize) {
         chapters.push({
           index: chapters.length,
+          title: `Chapter ${chapters.length + 1}`,
           startIdx: i,
           endIdx: Math.min(i + chapterSize - 1, passages.length - 1)
         });
@@ -734,14 +969,16 @@ Return your output as valid JSON only, with no additional text or explanations.`
   private createChapterComparisonPrompt(
     sourceBook: Book, 
     sourcePassages: Passage[], 
+    sourceChapterNames: string,
     targetBook: Book, 
-    targetPassages: Passage[]
+    targetPassages: Passage[],
+    targetChapterNames: string
   ): string {
     return `You are an expert in textual analysis specializing in finding relationships between different texts.
 
 I'm providing you with chapters from two books. Your task is to identify passages in the second book that have meaningful relationships with passages in the first book.
 
-BOOK 1: "${sourceBook.title}" (Chapter excerpt)
+BOOK 1: "${sourceBook.title}" (Chapter excerpt: ${sourceChapterNames})
 ${sourcePassages.map((p, i) => `
 PASSAGE ${i+1} [ID: ${p.id}]:
 """
@@ -749,7 +986,7 @@ ${p.text}
 """
 `).join('\n')}
 
-BOOK 2: "${targetBook.title}" (Chapter excerpt)
+BOOK 2: "${targetBook.title}" (Chapter excerpt: ${targetChapterNames})
 ${targetPassages.map((p, i) => `
 PASSAGE ${i+1} [ID: ${p.id}]:
 """
@@ -779,120 +1016,68 @@ Return your output as valid JSON only, with no additional text or explanations.`
   }
   
   /**
-   * Call Llama API with a large context window
+   * Ask the full book comparison model, which needs a large context window,
+   * for relations between source and target passages
    */
-  private async callLlamaDirectlyWithLargeContext(prompt: string): Promise<string> {
+  private async requestBookRelations(
+    prompt: string,
+    sourcePassages: Passage[],
+    targetPassages: Passage[],
+    signal?: AbortSignal
+  ): Promise<PassageRelation[]> {
+    const validSourceIds = new Set(sourcePassages.map(p => p.id));
+    const validTargetIds = new Set(targetPassages.map(p => p.id));
+    
     try {
-      console.log('Making direct Llama API call with large context window');
-      
-      if (!this.llamaApiKey) {
-        throw new Error('Llama API key is required for full book analysis');
-      }
-      
-      const response = await fetch('https://api.llama.com/compat/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.llamaApiKey}`
-        },
-        body: JSON.stringify({
-          model: 'Llama-4-Maverick-17B-128E-Instruct-FP8',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are an expert in textual analysis. Return valid JSON only with no extra explanations.'
-            },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.1, // Lower temperature for more focused, consistent results
-          max_tokens: 8000, // Increase max tokens for detailed analysis
-          stream: false,
-          top_p: 0.95
-        })
+      const result = await completeStructured<LLMBookRelation>({
+        task: 'bookComparison',
+        messages: [
+          { role: 'system', content: BOOK_RELATION_SYSTEM_MESSAGE },
+          { role: 'user', content: prompt }
+        ],
+        itemSchema: BOOK_RELATION_SCHEMA,
+        getKey: item => item.focus_passage_id,
+        checkItem: item => [
+          ...(validSourceIds.has(item.focus_passage_id) ? [] : [`focus_passage_id "${item.focus_passage_id}" is not a passage from Book 1`]),
+          ...(validTargetIds.has(item.related_passage_id) ? [] : [`related_passage_id "${item.related_passage_id}" is not a passage from Book 2`])
+        ],
+        temperature: 0.1, // Lower temperature for more focused, consistent results
+        maxTokens: BOOK_RELATION_MAX_TOKENS, // Increase max tokens for detailed analysis
+        topP: 0.95,
+        usage: this.getUsage([...sourcePassages, ...targetPassages]),
+        signal
       });
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error: ${response.status} ${response.statusText}. Details: ${errorText}`);
-      }
+      this.recordBookFailures(result.failures, sourcePassages);
       
-      const data = await response.json();
-      return data.choices[0]?.message?.content || '';
+      return result.items.map(item => ({
+        focusPassageId: item.focus_passage_id,
+        relatedPassageId: item.related_passage_id,
+        relationType: item.relation_type,
+        evidence: item.evidence,
+        similarity: 1.0 // No embedding similarity score for direct analysis
+      }));
     } catch (error) {
-      console.error('Error calling Llama API with large context:', error);
+      if (!isAbortError(error)) {
+        console.error('Error requesting full book analysis:', error);
+      }
       throw error;
     }
   }
   
   /**
-   * Parse relationships from the full book analysis response
+   * Record full book failures per passage. An unusable response fails every source passage it covered.
    */
-  private parseFullBooksRelationsFromResponse(
-    response: string,
-    sourcePassages: Passage[],
-    targetPassages: Passage[]
-  ): PassageRelation[] {
-    try {
-      // Try to parse as JSON
-      let jsonResponse;
-      
-      // Check if response is wrapped in markdown code blocks
-      const markdownMatch = response.match(/```(?:json)?\s+([\s\S]+?)\s+```/);
-      if (markdownMatch) {
-        // Extract the content inside the code blocks
-        jsonResponse = JSON.parse(markdownMatch[1]);
+  private recordBookFailures(failures: ItemFailure[], sourcePassages: Passage[]) {
+    failures.forEach(failure => {
+      if (failure.key === RESPONSE_KEY) {
+        sourcePassages.forEach(passage => {
+          this.lastFailures.push({ focusPassageId: passage.id, errors: failure.errors });
+        });
       } else {
-        // Try to clean up the response before parsing
-        // Remove any extra text before the first '[' and after the last ']'
-        const jsonMatch = response.match(/(\[[\s\S]*\])/);
-        if (jsonMatch) {
-          jsonResponse = JSON.parse(jsonMatch[1]);
-        } else {
-          // Try to parse the raw response
-          jsonResponse = JSON.parse(response);
-        }
-      }
-      
-      // Ensure it's an array
-      if (!Array.isArray(jsonResponse)) {
-        throw new Error('Response is not a valid array');
+        this.lastFailures.push({ focusPassageId: failure.key, errors: failure.errors });
       }
-      
-      // Create a Set of valid passage IDs for quick lookup
-      const validSourceIds = new Set(sourcePassages.map(p => p.id));
-      const validTargetIds = new Set(targetPassages.map(p => p.id));
-      
-      // Map the response to our internal structure
-      return jsonResponse.map((item: any) => {
-        const focusPassageId = item.focus_passage_id;
-        const relatedPassageId = item.related_passage_id;
-        
-        // Verify that passage IDs are valid
-        if (!validSourceIds.has(focusPassageId)) {
-          console.warn(`Focus passage ID ${focusPassageId} not found in source passages, skipping`);
-          return null;
-        }
-        
-        if (!validTargetIds.has(relatedPassageId)) {
-          console.warn(`Related passage ID ${relatedPassageId} not found in target passages, skipping`);
-          return null;
-        }
-        
-        return {
-          focusPassageId,
-          relatedPassageId,
-          relationType: item.relation_type as RelationType,
-          evidence: item.evidence,
-          similarity: 1.0 // No embedding similarity score for direct analysis
-        };
-      }).filter(Boolean) as PassageRelation[];
-    } catch (error) {
-      console.error('Error parsing full book relations from response:', error);
-      console.error('Raw response:', response);
-      
-      // Return an empty array if parsing fails
-      return [];
-    }
+    });
   }
 }
 
@@ -0,0 +1,125 @@
+import { Pinecone, Index } from '@pinecone-database/pinecone';
+import { VectorStore, VectorRecord, VectorMatch, VectorQueryOptions } from './vectorStore';
+
+/**
+ * Connection settings for a Pinecone index
+ */
+export interface PineconeVectorStoreConfig {
+  apiKey: string;
+  indexName: string;
+  // Data-plane host of the index, e.g. "https://my-index-abc123.svc.pinecone.io".
+  // Point this at a local server (such as Pinecone Local on http://localhost:5081) for testing.
+  indexHost?: string;
+  // Control-plane host; only needed when the index host isn't given
+  controllerHostUrl?: string;
+}
+
+type PassageMetadata = {
+  bookId: string;
+};
+
+// Pinecone limits how many records a single request may carry
+const UPSERT_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+const FETCH_BATCH_SIZE = 100; // IDs travel in the query string
+
+/**
+ * Vector store backed by a Pinecone index. The index must use the cosine metric.
+ * Passage IDs start with their book's ID, so a book's vectors are listed by ID prefix.
+ */
+export class PineconeVectorStore implements VectorStore {
+  private index: Index<PassageMetadata>;
+  
+  constructor(config: PineconeVectorStoreConfig) {
+    const client = new Pinecone({
+      apiKey: config.apiKey,
+      ...(config.controllerHostUrl ? { controllerHostUrl: config.controllerHostUrl } : {})
+    });
+    this.index = client.index<PassageMetadata>(config.indexName, config.indexHost);
+  }
+  
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    const target = this.index.namespace(namespace);
+    
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      await target.upsert(records.slice(i, i + UPSERT_BATCH_SIZE).map(record => ({
+        id: record.id,
+        values: Array.from(record.values),
+        metadata: { bookId: record.bookId }
+      })));
+    }
+  }
+  
+  async query(namespace: string, vector: ArrayLike<number>, options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const response = await this.index.namespace(namespace).query({
+      vector: Array.from(vector),
+      topK: options.topK,
+      filter: options.bookId ? { bookId: { $eq: options.bookId } } : undefined,
+      includeMetadata: true
+    });
+    
+    return response.matches.map(match => ({
+      id: match.id,
+      bookId: match.metadata?.bookId || '',
+      score: match.score ?? 0
+    }));
+  }
+  
+  async listIds(namespace: string, bookId: string): Promise<string[]> {
+    const target = this.index.namespace(namespace);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    
+    do {
+      const response = await target.listPaginated({ prefix: `${bookId}-`, paginationToken });
+      (response.vectors || []).forEach(vector => {
+        if (vector.id) ids.push(vector.id);
+      });
+      paginationToken = response.pagination?.next;
+    } while (paginationToken);
+    
+    return ids;
+  }
+  
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const target = this.index.namespace(namespace);
+    const records: VectorRecord[] = [];
+    
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await target.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      Object.values(response.records).forEach(record => {
+        records.push({
+          id: record.id,
+          bookId: record.metadata?.bookId || '',
+          values: new Float32Array(record.values || [])
+        });
+      });
+    }
+    
+    return records;
+  }
+  
+  async fetchByBook(namespace: string, bookId: string): Promise<VectorRecord[]> {
+    return this.fetch(namespace, await this.listIds(namespace, bookId));
+  }
+  
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const target = this.index.namespace(namespace);
+    
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await target.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+  
+  async deleteByBook(namespace: string, bookId: string): Promise<void> {
+    // Deleting by metadata filter isn't supported on serverless indexes, so delete by ID
+    await this.delete(namespace, await this.listIds(namespace, bookId));
+  }
+  
+  async deleteBookFromAllNamespaces(bookId: string): Promise<void> {
+    const { namespaces = {} } = await this.index.describeIndexStats();
+    for (const namespace of Object.keys(namespaces)) {
+      await this.deleteByBook(namespace, bookId);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { VectorStore, VectorRecord, VectorMatch, VectorQueryOptions } from './vectorStore';
+
+// Route that runs vector store operations on the server's Pinecone index
+const VECTORS_ROUTE = '/api/vectors';
+
+type SerializedRecord = { id: string, bookId: string, values: number[] };
+
+/**
+ * Vector store on the server, reached through the app's vectors route,
+ * so the Pinecone key never reaches the browser
+ */
+export class RemoteVectorStore implements VectorStore {
+  private async call<T>(operation: string, params: object): Promise<T> {
+    const response = await fetch(VECTORS_ROUTE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operation, ...params })
+    });
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw Object.assign(
+        new Error(`Vector store ${operation} failed: ${response.status} ${response.statusText}. Details: ${errorText}`),
+        { status: response.status }
+      );
+    }
+    return response.json();
+  }
+  
+  private toRecords(records: SerializedRecord[]): VectorRecord[] {
+    return records.map(record => ({ ...record, values: new Float32Array(record.values) }));
+  }
+  
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    await this.call('upsert', {
+      namespace,
+      records: records.map(record => ({ ...record, values: Array.from(record.values) }))
+    });
+  }
+  
+  async query(namespace: string, vector: ArrayLike<number>, options: VectorQueryOptions): Promise<VectorMatch[]> {
+    return this.call('query', { namespace, vector: Array.from(vector), options });
+  }
+  
+  async listIds(namespace: string, bookId: string): Promise<string[]> {
+    return this.call('listIds', { namespace, bookId });
+  }
+  
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    return this.toRecords(await this.call('fetch', { namespace, ids }));
+  }
+  
+  async fetchByBook(namespace: string, bookId: string): Promise<VectorRecord[]> {
+    return this.toRecords(await this.call('fetchByBook', { namespace, bookId }));
+  }
+  
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    await this.call('delete', { namespace, ids });
+  }
+  
+  async deleteByBook(namespace: string, bookId: string): Promise<void> {
+    await this.call('deleteByBook', { namespace, bookId });
+  }
+  
+  async deleteBookFromAllNamespaces(bookId: string): Promise<void> {
+    await this.call('deleteBookFromAllNamespaces', { bookId });
+  }
+}
@@ -0,0 +1,154 @@
+import { Schema, validateSchema, describeSchema, parseJsonResponse } from '@/lib/structuredOutput';
+import { completionClient, CompletionRequest, ChatMessage } from './completionClient';
+
+/**
+ * A completion whose answer must be a JSON array of items matching a schema
+ */
+export interface StructuredCompletionRequest<T> extends CompletionRequest {
+  itemSchema: Schema;
+  getKey: (item: T) => string; // The passage an item belongs to, for reporting
+  checkItem?: (item: T) => string[]; // Checks beyond the schema, e.g. that IDs are known
+  expectedKeys?: string[]; // Passages that must each get exactly one item
+  maxRepairs?: number;
+}
+
+/**
+ * Why the items for a passage could not be used
+ */
+export interface ItemFailure {
+  key: string;
+  errors: string[];
+}
+
+export interface StructuredCompletionResult<T> {
+  items: T[];
+  failures: ItemFailure[];
+  rawResponse: string;
+}
+
+// Key for problems with the response as a whole
+export const RESPONSE_KEY = '$';
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Ask the model to fix the problems in its previous answer
+ */
+const createRepairPrompt = (problems: ItemFailure[], itemSchema: Schema): string => {
+  const wholeResponse = problems.some(problem => problem.key === RESPONSE_KEY);
+  const problemList = problems
+    .map(problem => `- ${problem.key === RESPONSE_KEY ? 'Response' : problem.key}: ${problem.errors.join('; ')}`)
+    .join('\n');
+  
+  return `Your previous response could not be used:
+${problemList}
+
+${wholeResponse
+    ? 'Return your complete answer again,'
+    : 'Return ONLY the entries for the items listed above, corrected or newly added,'} as a JSON array. Each entry must match this JSON schema:
+${describeSchema(itemSchema)}
+
+Return valid JSON only, with no markdown formatting and no explanations.`;
+};
+
+/**
+ * Find which passage an item that failed validation was meant for
+ */
+const keyOf = <T>(item: unknown, index: number, getKey: (item: T) => string): string => {
+  try {
+    const key = getKey(item as T);
+    if (typeof key === 'string' && key) return key;
+  } catch {
+    // Fall through to the item's position
+  }
+  return `item ${index + 1}`;
+};
+
+/**
+ * Run a completion, validate every item of the answer against a schema and
+ * send the model its validation errors until the output is valid or the
+ * repair attempts run out. Items that never validate, or that repeat a passage
+ * already answered, are reported, not dropped silently.
+ */
+export const completeStructured = async <T>(request: StructuredCompletionRequest<T>): Promise<StructuredCompletionResult<T>> => {
+  const { itemSchema, getKey, checkItem, expectedKeys, maxRepairs = DEFAULT_MAX_REPAIRS, ...completion } = request;
+  
+  const items: T[] = [];
+  const acceptedKeys = new Set<string>();
+  let messages: ChatMessage[] = completion.messages;
+  let problems: ItemFailure[] = [];
+  const duplicates: ItemFailure[] = []; // Extra entries for a passage that already has one; nothing to repair
+  let rawResponse = '';
+  
+  for (let attempt = 0; ; attempt++) {
+    const result = await completionClient.complete({ ...completion, messages });
+    rawResponse = result.content;
+    problems = [];
+    
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(rawResponse);
+    } catch (error) {
+      problems.push({ key: RESPONSE_KEY, errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] });
+    }
+    
+    if (parsed !== undefined && !Array.isArray(parsed)) {
+      problems.push({ key: RESPONSE_KEY, errors: ['Response must be a JSON array'] });
+    } else if (Array.isArray(parsed)) {
+      parsed.forEach((item, i) => {
+        const errors = validateSchema(item, itemSchema, `$[${i}]`);
+        if (errors.length === 0 && checkItem) {
+          errors.push(...checkItem(item as T));
+        }
+        
+        const key = keyOf(item, i, getKey);
+        if (errors.length === 0 && expectedKeys && !expectedKeys.includes(key)) {
+          errors.push(`"${key}" is not one of the items asked for`);
+        }
+        
+        if (errors.length > 0) {
+          problems.push({ key, errors });
+        } else if (expectedKeys && acceptedKeys.has(key)) {
+          if (!duplicates.some(duplicate => duplicate.key === key)) {
+            duplicates.push({ key, errors: ['More than one entry was returned; only the first was kept'] });
+          }
+        } else {
+          items.push(item as T);
+          acceptedKeys.add(key);
+        }
+      });
+    }
+    
+    if (expectedKeys && !problems.some(problem => problem.key === RESPONSE_KEY)) {
+      expectedKeys
+        .filter(key => !acceptedKeys.has(key) && !problems.some(problem => problem.key === key))
+        .forEach(key => problems.push({ key, errors: ['No entry was returned'] }));
+    }
+    
+    if (problems.length === 0 || attempt >= maxRepairs) break;
+    
+    console.warn(`Structured output for ${completion.task} failed validation, asking for a repair:`, problems);
+    messages = [
+      ...completion.messages,
+      { role: 'assistant', content: rawResponse },
+      { role: 'user', content: createRepairPrompt(problems, itemSchema) }
+    ];
+  }
+  
+  // Report an unusable response against every passage still waiting for an item
+  const responseProblem = problems.find(problem => problem.key === RESPONSE_KEY);
+  const failures = responseProblem && expectedKeys
+    ? [
+        ...problems.filter(problem => problem !== responseProblem),
+        ...expectedKeys
+          .filter(key => !acceptedKeys.has(key))
+          .map(key => ({ key, errors: responseProblem.errors }))
+      ]
+    : problems;
+  
+  if (duplicates.length > 0) {
+    console.warn(`Structured output for ${completion.task} repeated some items:`, duplicates);
+  }
+  
+  return { items, failures: [...failures, ...duplicates], rawResponse };
+};
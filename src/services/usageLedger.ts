@@ -0,0 +1,233 @@
+import { estimateCost } from '@/lib/usageCost';
+import { useUsageStore, UsageEntry, UsageFeature, BudgetPeriod, RunTotals } from '@/store/usageStore';
+
+export const USAGE_FEATURES: { feature: UsageFeature, label: string }[] = [
+  { feature: 'analysis', label: 'Analysis' },
+  { feature: 'comparison', label: 'Comparison' },
+  { feature: 'chat', label: 'Chat' },
+  { feature: 'autoComparison', label: 'Auto-comparison' }
+];
+
+/**
+ * What a call is for, so its cost can be attributed
+ */
+export interface UsageContext {
+  feature: UsageFeature;
+  bookIds: string[];
+}
+
+/**
+ * The page's spending in the current budget period, as reported to the job worker,
+ * whose copy of the ledger is only a snapshot taken when it started
+ */
+export interface PeriodSpend {
+  periodStart: number;
+  amount: number;
+  workerCalls: number; // Calls recorded by the job worker that amount already includes
+}
+
+/**
+ * A call made once the budget was used up, by a job that can't wait for it to be raised
+ */
+export class BudgetExceededError extends Error {
+  constructor(spent: number, limit: number) {
+    super(`The usage budget of $${limit.toFixed(2)} is used up ($${spent.toFixed(2)} spent). Raise it in the usage dashboard to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// How often paused jobs check whether a new budget period has started
+const BUDGET_RECHECK_MS = 60000;
+// Recent calls averaged to predict how long the next ones take
+const LATENCY_SAMPLE_SIZE = 20;
+
+/**
+ * The start of the budget period containing a time
+ */
+export const getPeriodStart = (period: BudgetPeriod, now: number = Date.now()): number => {
+  const date = new Date(now);
+  if (period === 'month') date.setDate(1);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Records the tokens, cost and latency of every AI call, and holds back
+ * calls while the budget is used up
+ */
+class UsageLedger {
+  private pausedJobs = 0;
+  private workerPausedJobs = 0;
+  private listeners: ((pausedJobs: number) => void)[] = [];
+  private recordListeners: ((entry: Omit<UsageEntry, 'id'>) => void)[] = [];
+  private reportedSpend: PeriodSpend | null = null; // Only set in the job worker
+  private recordedCalls = 0;
+  private unreportedCalls: Pick<UsageEntry, 'timestamp' | 'cost'>[] = []; // Recorded since the last report
+  
+  /**
+   * Add a finished call to the ledger, pricing it by provider and model
+   */
+  record(call: Omit<UsageEntry, 'id' | 'timestamp' | 'cost'>) {
+    const cost = estimateCost(call.provider, call.model, call.promptTokens, call.completionTokens);
+    const entry = { ...call, timestamp: Date.now(), cost };
+    useUsageStore.getState().addEntry(entry);
+    this.recordedCalls++;
+    if (this.reportedSpend) this.unreportedCalls.push(entry);
+    this.recordListeners.forEach(listener => listener(entry));
+  }
+  
+  /**
+   * Count spending from the page's ledger rather than this one, e.g. in the job worker
+   */
+  setReportedSpend(spend: PeriodSpend) {
+    this.reportedSpend = spend;
+    const pending = this.recordedCalls - spend.workerCalls;
+    this.unreportedCalls = pending > 0 ? this.unreportedCalls.slice(-pending) : [];
+  }
+  
+  /**
+   * Call listener with every entry recorded, e.g. to pass entries from the job worker
+   * to the page; returns a function that removes it
+   */
+  onRecord(listener: (entry: Omit<UsageEntry, 'id'>) => void): () => void {
+    this.recordListeners.push(listener);
+    return () => {
+      this.recordListeners = this.recordListeners.filter(l => l !== listener);
+    };
+  }
+  
+  /**
+   * Estimated spending in the current budget period
+   */
+  getPeriodSpend(): number {
+    const { entries, budget } = useUsageStore.getState();
+    const start = getPeriodStart(budget.period);
+    
+    // The page's total plus the calls it hasn't heard of yet, until a new period starts
+    if (this.reportedSpend?.periodStart === start) {
+      return this.unreportedCalls.reduce(
+        (total, call) => call.timestamp >= start ? total + call.cost : total,
+        this.reportedSpend.amount
+      );
+    }
+    return entries.reduce((total, entry) => entry.timestamp >= start ? total + entry.cost : total, 0);
+  }
+  
+  isOverBudget(): boolean {
+    const { limit } = useUsageStore.getState().budget;
+    return limit !== null && this.getPeriodSpend() >= limit;
+  }
+  
+  /**
+   * Call before each request. Chat fails right away when the budget is used up;
+   * background jobs pause until the cap is raised, a new period starts or signal aborts.
+   */
+  async checkBudget(context: UsageContext, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (!this.isOverBudget()) return;
+    
+    if (context.feature === 'chat') {
+      throw new BudgetExceededError(this.getPeriodSpend(), useUsageStore.getState().budget.limit!);
+    }
+    
+    this.setPausedJobs(this.pausedJobs + 1);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const stop = () => {
+          unsubscribe();
+          clearInterval(intervalId);
+          signal?.removeEventListener('abort', abort);
+        };
+        const recheck = () => {
+          if (this.isOverBudget()) return;
+          stop();
+          resolve();
+        };
+        const abort = () => {
+          stop();
+          reject(signal?.reason);
+        };
+        const unsubscribe = useUsageStore.subscribe(recheck);
+        const intervalId = setInterval(recheck, BUDGET_RECHECK_MS);
+        signal?.addEventListener('abort', abort);
+      });
+    } finally {
+      this.setPausedJobs(this.pausedJobs - 1);
+    }
+  }
+  
+  /**
+   * Average latency of recent calls to a model, or undefined if it hasn't been called yet
+   */
+  getAverageLatency(kind: UsageEntry['kind'], provider: string, model: string): number | undefined {
+    const recent = useUsageStore.getState().entries
+      .filter(entry => entry.kind === kind && entry.provider === provider && entry.model === model)
+      .slice(-LATENCY_SAMPLE_SIZE);
+    if (recent.length === 0) return undefined;
+    return recent.reduce((total, entry) => total + entry.latencyMs, 0) / recent.length;
+  }
+  
+  /**
+   * What calls for a feature about any of some books have used since a time,
+   * e.g. to set a run's actuals next to its estimate
+   */
+  getTotalsSince(startedAt: number, feature: UsageFeature, bookIds: string[]): RunTotals {
+    const totals: RunTotals = {
+      embeddingCalls: 0,
+      embeddingTokens: 0,
+      llmCalls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      durationMs: Date.now() - startedAt
+    };
+    
+    useUsageStore.getState().entries
+      .filter(entry => entry.timestamp >= startedAt && entry.feature === feature && entry.bookIds.some(id => bookIds.includes(id)))
+      .forEach(entry => {
+        if (entry.kind === 'embedding') {
+          totals.embeddingCalls++;
+          totals.embeddingTokens += entry.promptTokens;
+        } else {
+          totals.llmCalls++;
+          totals.promptTokens += entry.promptTokens;
+          totals.completionTokens += entry.completionTokens;
+        }
+        totals.cost += entry.cost;
+      });
+    return totals;
+  }
+  
+  /**
+   * Requests waiting for budget
+   */
+  getPausedJobs(): number {
+    return this.pausedJobs + this.workerPausedJobs;
+  }
+  
+  /**
+   * Count the requests the job worker holds back for budget as paused here too
+   */
+  setWorkerPausedJobs(pausedJobs: number) {
+    this.workerPausedJobs = pausedJobs;
+    this.listeners.forEach(listener => listener(this.getPausedJobs()));
+  }
+  
+  /**
+   * Call listener whenever jobs pause or resume; returns a function that removes it
+   */
+  subscribe(listener: (pausedJobs: number) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+  
+  private setPausedJobs(pausedJobs: number) {
+    this.pausedJobs = pausedJobs;
+    this.listeners.forEach(listener => listener(this.getPausedJobs()));
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger();
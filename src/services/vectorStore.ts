@@ -0,0 +1,315 @@
+import { getVectors, getVectorsById, saveVectors, deleteVectors } from '@/lib/bookDatabase';
+
+/**
+ * An embedding of one passage
+ */
+export interface VectorRecord {
+  id: string; // Passage ID
+  bookId: string;
+  values: Float32Array;
+}
+
+/**
+ * A query result, scored by cosine similarity
+ */
+export interface VectorMatch {
+  id: string;
+  bookId: string;
+  score: number;
+}
+
+export interface VectorQueryOptions {
+  topK: number;
+  bookId?: string; // Only match passages from this book
+}
+
+/**
+ * A place to keep passage embeddings and search them by similarity.
+ * Namespaces keep vectors from different embedding models apart.
+ */
+export interface VectorStore {
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  query(namespace: string, vector: ArrayLike<number>, options: VectorQueryOptions): Promise<VectorMatch[]>;
+  listIds(namespace: string, bookId: string): Promise<string[]>;
+  fetch(namespace: string, ids: string[]): Promise<VectorRecord[]>; // Missing IDs are left out
+  fetchByBook(namespace: string, bookId: string): Promise<VectorRecord[]>;
+  delete(namespace: string, ids: string[]): Promise<void>;
+  deleteByBook(namespace: string, bookId: string): Promise<void>;
+  deleteBookFromAllNamespaces(bookId: string): Promise<void>; // Including those of models no longer used
+  evict?(bookId: string, namespace?: string): void; // Forget cached vectors another context changed
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+export function cosineSimilarity(vecA: ArrayLike<number>, vecB: ArrayLike<number>): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+  
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Score records against a query vector and keep the best matches
+ */
+function rankRecords(records: VectorRecord[], vector: ArrayLike<number>, topK: number): VectorMatch[] {
+  return records
+    .map(record => ({
+      id: record.id,
+      bookId: record.bookId,
+      score: cosineSimilarity(vector, record.values)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Copy vectors into one row-major matrix of unit-length rows,
+ * so a dot product between rows is their cosine similarity
+ */
+function toUnitMatrix(records: VectorRecord[], dimension: number): Float32Array {
+  const matrix = new Float32Array(records.length * dimension);
+  
+  records.forEach((record, row) => {
+    let norm = 0;
+    for (let i = 0; i < dimension; i++) {
+      norm += record.values[i] * record.values[i];
+    }
+    norm = Math.sqrt(norm) || 1;
+    
+    for (let i = 0; i < dimension; i++) {
+      matrix[row * dimension + i] = record.values[i] / norm;
+    }
+  });
+  
+  return matrix;
+}
+
+/**
+ * The columns of the highest scores, best first, without sorting every score
+ */
+function topColumns(scores: Float32Array, topK: number): number[] {
+  const best: number[] = [];
+  for (let col = 0; col < scores.length; col++) {
+    if (best.length >= topK && scores[col] <= scores[best[best.length - 1]]) continue;
+    
+    let position = best.length;
+    while (position > 0 && scores[best[position - 1]] < scores[col]) position--;
+    best.splice(position, 0, col);
+    if (best.length > topK) best.pop();
+  }
+  return best;
+}
+
+/**
+ * Score every query vector against every candidate in one pass and keep the
+ * best candidates for each query, keyed by query ID. Candidates listed in
+ * alsoScore for a query are kept with their scores even when they rank lower.
+ */
+export function rankAllPairs(
+  queries: VectorRecord[],
+  candidates: VectorRecord[],
+  topK: number,
+  alsoScore?: Map<string, string[]>
+): Map<string, VectorMatch[]> {
+  const results = new Map<string, VectorMatch[]>();
+  if (queries.length === 0 || candidates.length === 0) return results;
+  
+  const dimension = queries[0].values.length;
+  const queryMatrix = toUnitMatrix(queries, dimension);
+  const candidateMatrix = toUnitMatrix(candidates, dimension);
+  const scores = new Float32Array(candidates.length);
+  const candidateColumns = new Map(candidates.map((candidate, col) => [candidate.id, col]));
+  
+  queries.forEach((query, row) => {
+    const offset = row * dimension;
+    for (let col = 0; col < candidates.length; col++) {
+      const candidateOffset = col * dimension;
+      let dot = 0;
+      for (let i = 0; i < dimension; i++) {
+        dot += queryMatrix[offset + i] * candidateMatrix[candidateOffset + i];
+      }
+      scores[col] = dot;
+    }
+    
+    const best = topColumns(scores, topK);
+    const bestColumns = new Set(best);
+    (alsoScore?.get(query.id) || []).forEach(id => {
+      const col = candidateColumns.get(id);
+      if (col !== undefined && !bestColumns.has(col)) {
+        best.push(col);
+        bestColumns.add(col);
+      }
+    });
+    results.set(query.id, best.map(col => ({
+      id: candidates[col].id,
+      bookId: candidates[col].bookId,
+      score: scores[col]
+    })));
+  });
+  
+  return results;
+}
+
+/**
+ * Vectors kept in memory only; lost on reload
+ */
+export class MemoryVectorStore implements VectorStore {
+  private namespaces: Map<string, Map<string, VectorRecord>> = new Map();
+  
+  private getNamespace(namespace: string): Map<string, VectorRecord> {
+    let records = this.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(namespace, records);
+    }
+    return records;
+  }
+  
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    const stored = this.getNamespace(namespace);
+    records.forEach(record => stored.set(record.id, record));
+  }
+  
+  async query(namespace: string, vector: ArrayLike<number>, options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const records = Array.from(this.getNamespace(namespace).values())
+      .filter(record => !options.bookId || record.bookId === options.bookId);
+    return rankRecords(records, vector, options.topK);
+  }
+  
+  async listIds(namespace: string, bookId: string): Promise<string[]> {
+    return Array.from(this.getNamespace(namespace).values())
+      .filter(record => record.bookId === bookId)
+      .map(record => record.id);
+  }
+  
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const stored = this.getNamespace(namespace);
+    return ids
+      .map(id => stored.get(id))
+      .filter((record): record is VectorRecord => record !== undefined);
+  }
+  
+  async fetchByBook(namespace: string, bookId: string): Promise<VectorRecord[]> {
+    return Array.from(this.getNamespace(namespace).values())
+      .filter(record => record.bookId === bookId);
+  }
+  
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const stored = this.getNamespace(namespace);
+    ids.forEach(id => stored.delete(id));
+  }
+  
+  async deleteByBook(namespace: string, bookId: string): Promise<void> {
+    const ids = await this.listIds(namespace, bookId);
+    await this.delete(namespace, ids);
+  }
+  
+  async deleteBookFromAllNamespaces(bookId: string): Promise<void> {
+    for (const namespace of Array.from(this.namespaces.keys())) {
+      await this.deleteByBook(namespace, bookId);
+    }
+  }
+}
+
+/**
+ * Vectors persisted in the browser's IndexedDB as Float32Arrays.
+ * A book's vectors are read once and then searched from memory.
+ */
+export class LocalVectorStore implements VectorStore {
+  private cache: Map<string, VectorRecord[]> = new Map();
+  
+  private cacheKey(namespace: string, bookId: string): string {
+    return `${namespace}|${bookId}`;
+  }
+  
+  private async getBookRecords(namespace: string, bookId: string): Promise<VectorRecord[]> {
+    const key = this.cacheKey(namespace, bookId);
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    
+    const records = (await getVectors(namespace, bookId)).map(stored => ({
+      id: stored.passageId,
+      bookId: stored.bookId,
+      values: stored.vector
+    }));
+    this.cache.set(key, records);
+    return records;
+  }
+  
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    await saveVectors(records.map(record => ({
+      passageId: record.id,
+      bookId: record.bookId,
+      namespace,
+      vector: record.values
+    })));
+    new Set(records.map(record => record.bookId))
+      .forEach(bookId => this.cache.delete(this.cacheKey(namespace, bookId)));
+  }
+  
+  async query(namespace: string, vector: ArrayLike<number>, options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const records = options.bookId
+      ? await this.getBookRecords(namespace, options.bookId)
+      : (await getVectors(namespace)).map(stored => ({
+          id: stored.passageId,
+          bookId: stored.bookId,
+          values: stored.vector
+        }));
+    return rankRecords(records, vector, options.topK);
+  }
+  
+  async listIds(namespace: string, bookId: string): Promise<string[]> {
+    return (await this.getBookRecords(namespace, bookId)).map(record => record.id);
+  }
+  
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const vectors = await getVectorsById(namespace, ids);
+    return vectors.map(stored => ({
+      id: stored.passageId,
+      bookId: stored.bookId,
+      values: stored.vector
+    }));
+  }
+  
+  async fetchByBook(namespace: string, bookId: string): Promise<VectorRecord[]> {
+    return this.getBookRecords(namespace, bookId);
+  }
+  
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    await deleteVectors(stored => stored.namespace === namespace && idSet.has(stored.passageId));
+    this.cache.clear();
+  }
+  
+  async deleteByBook(namespace: string, bookId: string): Promise<void> {
+    await deleteVectors(stored => stored.namespace === namespace && stored.bookId === bookId);
+    this.cache.delete(this.cacheKey(namespace, bookId));
+  }
+  
+  async deleteBookFromAllNamespaces(bookId: string): Promise<void> {
+    await deleteVectors(stored => stored.bookId === bookId);
+    this.evict(bookId);
+  }
+  
+  /**
+   * Forget a book's cached vectors in one namespace, or in all of them,
+   * so they are read from IndexedDB again
+   */
+  evict(bookId: string, namespace?: string) {
+    if (namespace) {
+      this.cache.delete(this.cacheKey(namespace, bookId));
+      return;
+    }
+    Array.from(this.cache.keys())
+      .filter(key => key.endsWith(`|${bookId}`))
+      .forEach(key => this.cache.delete(key));
+  }
+}
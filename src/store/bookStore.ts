@@ -1,58 +1,199 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { Book, Passage } from '@/lib/textProcessing';
+import { Book, BookMetadata, Passage, SplitterOptions, resplitBook, validatePassageOffsets } from '@/lib/textProcessing';
+import { getLegacyIdMap, migrateLegacyBooks } from '@/lib/idMigration';
+import * as bookDatabase from '@/lib/bookDatabase';
+import { embeddingService } from '@/services/embeddingService';
+import { useChatStore } from '@/store/chatStore';
+
+// Key the books were persisted under before they moved to IndexedDB
+const LEGACY_STORAGE_KEY = 'book-storage';
 
 interface BookState {
-  books: Book[];
-  addBook: (book: Book) => void;
-  removeBook: (bookId: string) => void;
+  books: BookMetadata[]; // Every book in the library, without text or passages
+  loadedBooks: Record<string, Book>; // Full books that have been loaded so far
+  isHydrated: boolean;
+  hydrate: () => Promise<void>;
+  addBook: (book: Book) => Promise<void>;
+  removeBook: (bookId: string) => Promise<void>;
+  loadBook: (bookId: string) => Promise<Book | undefined>;
+  unloadBook: (bookId: string) => void;
+  loadBooksForPassages: (passageIds: string[]) => Promise<void>;
+  resplitBook: (bookId: string, options: SplitterOptions) => Promise<Book | undefined>;
   getBook: (bookId: string) => Book | undefined;
   getPassages: (bookId: string) => Passage[];
+  getPassage: (passageId: string) => Passage | undefined;
   getAllPassages: () => Passage[];
 }
 
-export const useBookStore = create<BookState>()(
-  persist(
-    (set, get) => ({
-      books: [],
-      
-      addBook: (book) => {
-        set((state) => {
-          // Check if we already have this book
-          const existingIndex = state.books.findIndex(b => b.fileName === book.fileName);
-          if (existingIndex >= 0) {
-            // Replace the existing book
-            const updatedBooks = [...state.books];
-            updatedBooks[existingIndex] = book;
-            return { books: updatedBooks };
-          }
-          
-          // Add the new book
-          return { books: [...state.books, book] };
-        });
-      },
-      
-      removeBook: (bookId) => {
-        set((state) => ({
-          books: state.books.filter(book => book.id !== bookId)
-        }));
-      },
-      
-      getBook: (bookId) => {
-        return get().books.find(book => book.id === bookId);
-      },
+/**
+ * Move books persisted in localStorage by older versions into IndexedDB
+ */
+const importLegacyBooks = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+  
+  const { state, version } = JSON.parse(stored) as { state?: { books?: Book[] }, version?: number };
+  let books = state?.books || [];
+  
+  if ((version ?? 0) < 1) {
+    // Record the old IDs first, so the other stores can follow
+    getLegacyIdMap();
+    books = migrateLegacyBooks(books).books;
+  }
+  
+  for (const book of books) {
+    await bookDatabase.saveBook(book);
+  }
+  
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`Moved ${books.length} books from localStorage to IndexedDB`);
+};
+
+export const useBookStore = create<BookState>()((set, get) => ({
+  books: [],
+  loadedBooks: {},
+  isHydrated: false,
+  
+  hydrate: async () => {
+    try {
+      await importLegacyBooks();
+    } catch (error) {
+      console.error('Error moving books to IndexedDB:', error);
+    }
+    
+    try {
+      const books = await bookDatabase.getAllBookMetadata();
+      set({ books, isHydrated: true });
+    } catch (error) {
+      console.error('Error loading library:', error);
+      set({ isHydrated: true });
+    }
+  },
+  
+  addBook: async (book) => {
+    const mismatches = validatePassageOffsets(book);
+    if (mismatches.length > 0) {
+      console.warn(`${mismatches.length} passages of "${book.title}" don't match their offsets`, mismatches);
+    }
+    
+    // Check if we already have this book (same content, or a new version of the same file)
+    const existing = get().books.find(b => b.id === book.id || b.fileName === book.fileName);
+    if (existing && existing.id !== book.id) {
+      await bookDatabase.deleteBook(existing.id);
+      await embeddingService.deleteBookVectors(existing.id)
+        .catch(error => console.error('Error cleaning up book vectors:', error));
+    }
+    await bookDatabase.saveBook(book);
+    if (existing?.id === book.id) {
+      await embeddingService.removeStaleVectors(book.id, book.passages)
+        .catch(error => console.error('Error cleaning up book vectors:', error));
+    }
+    
+    set((state) => {
+      const loadedBooks = { ...state.loadedBooks, [book.id]: book };
+      if (existing) {
+        delete loadedBooks[existing.id];
+      }
       
-      getPassages: (bookId) => {
-        const book = get().books.find(book => book.id === bookId);
-        return book ? book.passages : [];
-      },
+      const metadata = bookDatabase.toBookMetadata(book);
+      const books = existing
+        ? state.books.map(b => b.id === existing.id ? metadata : b)
+        : [...state.books, metadata];
       
-      getAllPassages: () => {
-        return get().books.flatMap(book => book.passages);
-      }
-    }),
-    {
-      name: 'book-storage',
+      return { books, loadedBooks };
+    });
+  },
+  
+  removeBook: async (bookId) => {
+    await bookDatabase.deleteBook(bookId);
+    await embeddingService.deleteBookVectors(bookId)
+      .catch(error => console.error('Error cleaning up book vectors:', error));
+    useChatStore.getState().deleteThreadsForBook(bookId);
+    
+    set((state) => {
+      const loadedBooks = { ...state.loadedBooks };
+      delete loadedBooks[bookId];
+      return {
+        books: state.books.filter(book => book.id !== bookId),
+        loadedBooks
+      };
+    });
+  },
+  
+  loadBook: async (bookId) => {
+    const loaded = get().loadedBooks[bookId];
+    if (loaded) return loaded;
+    
+    const book = await bookDatabase.loadBook(bookId);
+    if (book) {
+      set((state) => ({
+        loadedBooks: { ...state.loadedBooks, [bookId]: book }
+      }));
     }
-  )
-); 
\ No newline at end of file
+    return book;
+  },
+  
+  /**
+   * Forget a loaded book, so it is read from the database again next time
+   */
+  unloadBook: (bookId) => {
+    set((state) => {
+      const loadedBooks = { ...state.loadedBooks };
+      delete loadedBooks[bookId];
+      return { loadedBooks };
+    });
+  },
+  
+  loadBooksForPassages: async (passageIds) => {
+    // Passage IDs start with the ID of their book
+    const bookIds = get().books
+      .filter(book => passageIds.some(passageId => passageId.startsWith(`${book.id}-`)))
+      .map(book => book.id);
+    
+    await Promise.all(bookIds.map(bookId => get().loadBook(bookId)));
+  },
+  
+  resplitBook: async (bookId, options) => {
+    const book = await get().loadBook(bookId);
+    if (!book) return undefined;
+    
+    const updatedBook = resplitBook(book, options);
+    await bookDatabase.saveBook(updatedBook);
+    
+    // Passages that kept their offsets keep their IDs and embeddings
+    await embeddingService.removeStaleVectors(bookId, updatedBook.passages)
+      .catch(error => console.error('Error cleaning up book vectors:', error));
+    
+    set((state) => ({
+      books: state.books.map(b => b.id === bookId ? bookDatabase.toBookMetadata(updatedBook) : b),
+      loadedBooks: { ...state.loadedBooks, [bookId]: updatedBook }
+    }));
+    return updatedBook;
+  },
+  
+  getBook: (bookId) => {
+    return get().loadedBooks[bookId];
+  },
+  
+  getPassages: (bookId) => {
+    const book = get().loadedBooks[bookId];
+    return book ? book.passages : [];
+  },
+  
+  getPassage: (passageId) => {
+    for (const book of Object.values(get().loadedBooks)) {
+      const passage = book.passages.find(p => p.id === passageId);
+      if (passage) return passage;
+    }
+    return undefined;
+  },
+  
+  getAllPassages: () => {
+    return Object.values(get().loadedBooks).flatMap(book => book.passages);
+  }
+}));
+
+// Load the library as soon as the store is used in the browser
+if (typeof window !== 'undefined') {
+  useBookStore.getState().hydrate();
+}
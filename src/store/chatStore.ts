@@ -0,0 +1,225 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { ChatReply } from '@/services/llmService';
+import { generateId } from '@/lib/textProcessing';
+import { createIndexedDbStorage, STORES } from '@/lib/bookDatabase';
+
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  anchorPassageId?: string; // Passage that was active in the reader when the message was sent
+  status?: ChatReply['status'];
+  citations?: string[];
+}
+
+/**
+ * A conversation about one book
+ */
+export interface ChatThread {
+  id: string;
+  bookId: string;
+  title: string;
+  messages: ChatThreadMessage[];
+  summary?: string; // Condensed form of the messages before summarizedCount
+  summarizedCount?: number; // Leading messages no longer sent to the model verbatim
+  pinnedFacts?: string[]; // Facts the model is always reminded of
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface ChatState {
+  threads: Record<string, ChatThread>; // threadId -> thread
+  lastThreadIds: Record<string, string>; // bookId -> thread open most recently
+  
+  // Thread operations
+  createThread: (bookId: string, title?: string) => string;
+  getThread: (threadId: string) => ChatThread | undefined;
+  getThreadsForBook: (bookId: string) => ChatThread[];
+  renameThread: (threadId: string, title: string) => void;
+  deleteThread: (threadId: string) => void;
+  deleteThreadsForBook: (bookId: string) => void;
+  
+  // Last open thread, restored when the reader reopens a book
+  getLastThreadId: (bookId: string) => string | undefined;
+  setLastThreadId: (bookId: string, threadId: string) => void;
+  
+  // Message operations
+  addMessage: (threadId: string, message: Omit<ChatThreadMessage, 'id' | 'createdAt'>) => string;
+  
+  // Memory that outlives the history sent to the model
+  setSummary: (threadId: string, summary: string, summarizedCount: number) => void;
+  pinFact: (threadId: string, fact: string) => void;
+  unpinFact: (threadId: string, index: number) => void;
+  
+  exportThread: (threadId: string, bookTitle?: string) => string;
+}
+
+const DEFAULT_THREAD_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 60;
+const MAX_FACT_LENGTH = 300;
+
+export const useChatStore = create<ChatState>()(
+  persist(
+    (set, get) => ({
+      threads: {},
+      lastThreadIds: {},
+      
+      // Thread operations
+      createThread: (bookId, title = DEFAULT_THREAD_TITLE) => {
+        const now = Date.now();
+        const thread: ChatThread = { id: generateId(), bookId, title, messages: [], createdAt: now, updatedAt: now };
+        
+        set((state) => ({
+          threads: { ...state.threads, [thread.id]: thread },
+          lastThreadIds: { ...state.lastThreadIds, [bookId]: thread.id }
+        }));
+        return thread.id;
+      },
+      
+      getThread: (threadId) => {
+        return get().threads[threadId];
+      },
+      
+      getThreadsForBook: (bookId) => {
+        return Object.values(get().threads)
+          .filter(thread => thread.bookId === bookId)
+          .sort((a, b) => b.updatedAt - a.updatedAt);
+      },
+      
+      renameThread: (threadId, title) => {
+        set((state) => {
+          const thread = state.threads[threadId];
+          if (!thread || !title.trim()) return state;
+          
+          return { threads: { ...state.threads, [threadId]: { ...thread, title: title.trim() } } };
+        });
+      },
+      
+      deleteThread: (threadId) => {
+        set((state) => {
+          const threads = { ...state.threads };
+          delete threads[threadId];
+          
+          const lastThreadIds = Object.fromEntries(
+            Object.entries(state.lastThreadIds).filter(([, id]) => id !== threadId)
+          );
+          return { threads, lastThreadIds };
+        });
+      },
+      
+      deleteThreadsForBook: (bookId) => {
+        set((state) => {
+          const threads = Object.fromEntries(
+            Object.entries(state.threads).filter(([, thread]) => thread.bookId !== bookId)
+          );
+          const lastThreadIds = { ...state.lastThreadIds };
+          delete lastThreadIds[bookId];
+          return { threads, lastThreadIds };
+        });
+      },
+      
+      getLastThreadId: (bookId) => {
+        const threadId = get().lastThreadIds[bookId];
+        return threadId && get().threads[threadId] ? threadId : undefined;
+      },
+      
+      setLastThreadId: (bookId, threadId) => {
+        set((state) => ({ lastThreadIds: { ...state.lastThreadIds, [bookId]: threadId } }));
+      },
+      
+      // Message operations
+      addMessage: (threadId, message) => {
+        const id = generateId();
+        
+        set((state) => {
+          const thread = state.threads[threadId];
+          if (!thread) return state;
+          
+          const now = Date.now();
+          // Untitled threads are named after their first question
+          const title = thread.title === DEFAULT_THREAD_TITLE && message.role === 'user'
+            ? message.content.trim().slice(0, MAX_TITLE_LENGTH) || thread.title
+            : thread.title;
+          
+          return {
+            threads: {
+              ...state.threads,
+              [threadId]: {
+                ...thread,
+                title,
+                messages: [...thread.messages, { ...message, id, createdAt: now }],
+                updatedAt: now
+              }
+            }
+          };
+        });
+        return id;
+      },
+      
+      // Memory that outlives the history sent to the model
+      setSummary: (threadId, summary, summarizedCount) => {
+        set((state) => {
+          const thread = state.threads[threadId];
+          if (!thread) return state;
+          
+          return { threads: { ...state.threads, [threadId]: { ...thread, summary, summarizedCount } } };
+        });
+      },
+      
+      pinFact: (threadId, fact) => {
+        set((state) => {
+          const thread = state.threads[threadId];
+          const trimmed = fact.trim().slice(0, MAX_FACT_LENGTH);
+          if (!thread || !trimmed || thread.pinnedFacts?.includes(trimmed)) return state;
+          
+          return {
+            threads: { ...state.threads, [threadId]: { ...thread, pinnedFacts: [...(thread.pinnedFacts || []), trimmed] } }
+          };
+        });
+      },
+      
+      unpinFact: (threadId, index) => {
+        set((state) => {
+          const thread = state.threads[threadId];
+          if (!thread) return state;
+          
+          const pinnedFacts = (thread.pinnedFacts || []).filter((_, i) => i !== index);
+          return { threads: { ...state.threads, [threadId]: { ...thread, pinnedFacts } } };
+        });
+      },
+      
+      /**
+       * Render a thread as Markdown for download
+       */
+      exportThread: (threadId, bookTitle) => {
+        const thread = get().threads[threadId];
+        if (!thread) return '';
+        
+        const lines = [
+          `# ${thread.title}`,
+          '',
+          `Book: ${bookTitle || thread.bookId}`,
+          `Started: ${new Date(thread.createdAt).toLocaleString()}`,
+          ''
+        ];
+        if (thread.pinnedFacts?.length) {
+          lines.push('## Pinned facts', '', ...thread.pinnedFacts.map(fact => `- ${fact}`), '');
+        }
+        thread.messages.forEach(message => {
+          lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'} (${new Date(message.createdAt).toLocaleString()})`);
+          if (message.anchorPassageId) {
+            lines.push(`_Reading passage ${message.anchorPassageId}_`);
+          }
+          lines.push('', message.content, '');
+        });
+        return lines.join('\n');
+      }
+    }),
+    {
+      name: 'chat-storage',
+      storage: createJSONStorage(() => createIndexedDbStorage(STORES.chats))
+    }
+  )
+);
@@ -1,12 +1,13 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { PassageRelation } from '@/services/passageComparisonService';
 import { Passage } from '@/lib/textProcessing';
+import { getLegacyIdMap, remapLegacyId } from '@/lib/idMigration';
+import { createIndexedDbStorage, STORES } from '@/lib/bookDatabase';
 
 interface ComparisonState {
   comparisons: Record<string, PassageRelation[]>; // focusPassageId -> relations
   bookComparisons: Record<string, string>; // sourceBookId_targetBookId -> completed (timestamp)
-  indexedBooks: string[]; // Books that have been processed for embeddings
   similarityThreshold: number; // Threshold for considering passages similar
   
   // Comparison operations
@@ -19,10 +20,6 @@ interface ComparisonState {
   getBookComparisonStatus: (sourceBookId: string, targetBookId: string) => string | undefined;
   clearBookComparison: (sourceBookId: string, targetBookId: string) => void;
   
-  // Indexed books operations
-  addIndexedBook: (bookId: string) => void;
-  isBookIndexed: (bookId: string) => boolean;
-  
   // Threshold operations
   setSimilarityThreshold: (threshold: number) => void;
   getSimilarityThreshold: () => number;
@@ -38,7 +35,6 @@ export const useComparisonStore = create<ComparisonState>()(
     (set, get) => ({
       comparisons: {},
       bookComparisons: {},
-      indexedBooks: [],
       similarityThreshold: 0.75, // Default threshold
       
       // Comparison operations
@@ -109,22 +105,6 @@ export const useComparisonStore = create<ComparisonState>()(
         });
       },
       
-      // Indexed books operations
-      addIndexedBook: (bookId) => {
-        set((state) => {
-          if (state.indexedBooks.includes(bookId)) {
-            return state;
-          }
-          return {
-            indexedBooks: [...state.indexedBooks, bookId]
-          };
-        });
-      },
-      
-      isBookIndexed: (bookId) => {
-        return get().indexedBooks.includes(bookId);
-      },
-      
       // Threshold operations
       setSimilarityThreshold: (threshold) => {
         set({ similarityThreshold: threshold });
@@ -184,6 +164,43 @@ export const useComparisonStore = create<ComparisonState>()(
     }),
     {
       name: 'comparison-storage',
+      storage: createJSONStorage(() => createIndexedDbStorage(STORES.comparisons)),
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = { ...(persistedState as ComparisonState & { indexedBooks?: string[] }) };
+        
+        if (version < 2) {
+          // Indexed status now comes from the vectors actually stored
+          delete state.indexedBooks;
+        }
+        
+        if (version >= 1) return state;
+        
+        // Move stored comparisons over to content-addressed book and passage IDs
+        const map = getLegacyIdMap();
+        const remap = (id: string) => remapLegacyId(map, id);
+        
+        const comparisons: Record<string, PassageRelation[]> = {};
+        Object.entries(state.comparisons || {}).forEach(([passageId, relations]) => {
+          comparisons[remap(passageId)] = relations.map(relation => ({
+            ...relation,
+            focusPassageId: remap(relation.focusPassageId),
+            relatedPassageId: remap(relation.relatedPassageId)
+          }));
+        });
+        
+        const bookComparisons: Record<string, string> = {};
+        Object.entries(state.bookComparisons || {}).forEach(([key, timestamp]) => {
+          const [sourceBookId, targetBookId] = key.split('_');
+          bookComparisons[`${remap(sourceBookId)}_${remap(targetBookId)}`] = timestamp;
+        });
+        
+        return {
+          ...state,
+          comparisons,
+          bookComparisons
+        };
+      }
     }
   )
 ); 
\ No newline at end of file
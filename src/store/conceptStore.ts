@@ -1,7 +1,9 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { Concept, PassageSummary, ConceptRelation } from '@/lib/conceptProcessing';
 import { generateId } from '@/lib/textProcessing';
+import { getLegacyIdMap, remapLegacyId } from '@/lib/idMigration';
+import { createIndexedDbStorage, STORES } from '@/lib/bookDatabase';
 
 interface ConceptState {
   concepts: Concept[];
@@ -180,6 +182,34 @@ export const useConceptStore = create<ConceptState>()(
     }),
     {
       name: 'concept-storage',
+      storage: createJSONStorage(() => createIndexedDbStorage(STORES.summaries)),
+      version: 1,
+      migrate: (persistedState, version) => {
+        const state = persistedState as ConceptState;
+        if (version >= 1) return state;
+        
+        // Move stored analysis over to content-addressed book and passage IDs
+        const map = getLegacyIdMap();
+        const remap = (id: string) => remapLegacyId(map, id);
+        
+        return {
+          ...state,
+          concepts: (state.concepts || []).map(concept => ({
+            ...concept,
+            passages: concept.passages.map(remap)
+          })),
+          passageSummaries: (state.passageSummaries || []).map(summary => ({
+            ...summary,
+            passageId: remap(summary.passageId),
+            bookId: remap(summary.bookId)
+          })),
+          conceptRelations: (state.conceptRelations || []).map(relation => ({
+            ...relation,
+            fromPassageId: remap(relation.fromPassageId),
+            toPassageId: remap(relation.toPassageId)
+          }))
+        };
+      }
     }
   )
 ); 
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { Job, isJobFinished } from '@/lib/jobs';
+import { createIndexedDbStorage, STORES } from '@/lib/bookDatabase';
+
+interface JobState {
+  jobs: Record<string, Job>; // jobId -> job, as last reported by the job worker
+  
+  setJob: (job: Job) => void;
+  getJobs: () => Job[];
+  clearFinished: () => void;
+}
+
+export const useJobStore = create<JobState>()(
+  persist(
+    (set, get) => ({
+      jobs: {},
+      
+      setJob: (job) => {
+        set((state) => ({ jobs: { ...state.jobs, [job.id]: job } }));
+      },
+      
+      /**
+       * Jobs in the order they were queued
+       */
+      getJobs: () => {
+        return Object.values(get().jobs).sort((a, b) => a.createdAt - b.createdAt);
+      },
+      
+      clearFinished: () => {
+        set((state) => ({
+          jobs: Object.fromEntries(Object.entries(state.jobs).filter(([, job]) => !isJobFinished(job)))
+        }));
+      }
+    }),
+    {
+      name: 'job-storage',
+      storage: createJSONStorage(() => createIndexedDbStorage(STORES.jobs))
+    }
+  )
+);
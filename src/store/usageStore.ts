@@ -0,0 +1,126 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { generateId } from '@/lib/textProcessing';
+import { createIndexedDbStorage, STORES } from '@/lib/bookDatabase';
+
+/**
+ * The parts of the app that make AI calls, for attributing their cost
+ */
+export type UsageFeature = 'analysis' | 'comparison' | 'chat' | 'autoComparison';
+
+/**
+ * One completion or embedding request, as recorded in the ledger
+ */
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  kind: 'completion' | 'embedding';
+  provider: string;
+  model: string;
+  feature: UsageFeature;
+  bookIds: string[]; // Books the call was about; its cost is split evenly between them
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // Estimated, in US dollars
+  latencyMs: number; // Including retries
+}
+
+/**
+ * Calls, tokens, cost and time of a comparison run, estimated or measured
+ */
+export interface RunTotals {
+  embeddingCalls: number;
+  embeddingTokens: number;
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  durationMs: number;
+}
+
+export type RunKind = 'compareAllPassages' | 'analyzeFullBooks';
+
+/**
+ * A comparison run with the estimate confirmed before it started and what it actually took
+ */
+export interface UsageRun {
+  id: string;
+  kind: RunKind;
+  bookIds: string[]; // Source book first
+  startedAt: number;
+  estimate: RunTotals;
+  actual?: RunTotals; // Set once the run ends, even if it failed part way
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+/**
+ * A cap on estimated spending; jobs pause once it is reached
+ */
+export interface BudgetSettings {
+  limit: number | null; // US dollars per period, or null for no cap
+  period: BudgetPeriod;
+}
+
+interface UsageState {
+  entries: UsageEntry[]; // Oldest first
+  runs: UsageRun[]; // Oldest first
+  budget: BudgetSettings;
+  
+  addEntry: (entry: Omit<UsageEntry, 'id'>) => void;
+  clearEntries: () => void;
+  setBudget: (budget: Partial<BudgetSettings>) => void;
+  
+  // Estimates of comparison runs, kept next to their actuals
+  addRun: (run: Omit<UsageRun, 'id'>) => string;
+  completeRun: (runId: string, actual: RunTotals) => void;
+  getRun: (runId: string) => UsageRun | undefined;
+}
+
+// Oldest entries are dropped beyond this, so the ledger can't grow without bound
+const MAX_ENTRIES = 20000;
+const MAX_RUNS = 100;
+
+export const useUsageStore = create<UsageState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      runs: [],
+      budget: { limit: null, period: 'month' },
+      
+      addEntry: (entry) => {
+        set((state) => ({
+          entries: [...state.entries, { ...entry, id: generateId() }].slice(-MAX_ENTRIES)
+        }));
+      },
+      
+      clearEntries: () => {
+        set({ entries: [], runs: [] });
+      },
+      
+      setBudget: (budget) => {
+        set((state) => ({ budget: { ...state.budget, ...budget } }));
+      },
+      
+      addRun: (run) => {
+        const id = generateId();
+        set((state) => ({ runs: [...state.runs, { ...run, id }].slice(-MAX_RUNS) }));
+        return id;
+      },
+      
+      completeRun: (runId, actual) => {
+        set((state) => ({
+          runs: state.runs.map(run => run.id === runId ? { ...run, actual } : run)
+        }));
+      },
+      
+      getRun: (runId) => {
+        return get().runs.find(run => run.id === runId);
+      }
+    }),
+    {
+      name: 'usage-storage',
+      storage: createJSONStorage(() => createIndexedDbStorage(STORES.usage))
+    }
+  )
+);
@@ -0,0 +1,6 @@
+/**
+ * Whether an error means the operation was cancelled through its AbortSignal
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: unknown } | null)?.name === 'AbortError';
+};
@@ -0,0 +1,78 @@
+/**
+ * Options for retrying a failing async operation
+ */
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number; // Delay before the first retry; doubles on every attempt
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal; // Aborting stops any further attempts, including the wait before the next one
+}
+
+/**
+ * Get the HTTP status of an error thrown by an API client or fetch wrapper
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Rate limits (429), server errors (5xx) and network failures are worth retrying
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return error instanceof TypeError; // fetch throws TypeError on network failures
+  }
+  return status === 429 || status >= 500;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  shouldRetry: isRetryableError
+};
+
+/**
+ * Wait before the next attempt, rejecting with the abort reason as soon as signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const abort = () => {
+    clearTimeout(timeoutId);
+    reject(signal?.reason);
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Run an async operation, retrying with exponential backoff and jitter
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs, shouldRetry, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+      
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const jitteredDelay = delay / 2 + Math.random() * delay / 2;
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(jitteredDelay)}ms:`, error);
+      await sleep(jitteredDelay, signal);
+    }
+  }
+};
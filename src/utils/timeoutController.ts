@@ -3,16 +3,28 @@
  */
 export class TimeoutController {
   controller: AbortController;
-  timeoutId: number | null = null;
+  timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private timeoutMs: number;
   
   constructor(timeoutMs: number = 60000) {
     this.controller = new AbortController();
+    this.timeoutMs = timeoutMs;
     
-    this.timeoutId = window.setTimeout(() => {
+    this.timeoutId = setTimeout(() => {
       this.controller.abort();
     }, timeoutMs);
   }
   
+  /**
+   * Start the timeout over, e.g. when a streamed response makes progress
+   */
+  restart() {
+    this.clear();
+    this.timeoutId = setTimeout(() => {
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+  
   clear() {
     if (this.timeoutId !== null) {
       clearTimeout(this.timeoutId);
@@ -0,0 +1,15 @@
+import { setPersistedStateReadOnly } from '@/lib/bookDatabase';
+import { JobWorkerEvent, JobWorkerRequest } from '@/lib/jobs';
+import { jobRunner } from '@/services/jobRunner';
+
+/**
+ * Runs the job queue off the main thread. The page owns the persisted stores;
+ * this worker only reads them and sends it results to save.
+ */
+setPersistedStateReadOnly(true);
+
+jobRunner.connect((event: JobWorkerEvent) => postMessage(event));
+
+addEventListener('message', (event: MessageEvent<JobWorkerRequest>) => {
+  jobRunner.handleRequest(event.data);
+});